@@ -3,18 +3,42 @@
  * 封裝所有後端 API 調用
  */
 import {
+  ApiAttraction,
   AttractionListResponse,
+  ResourceListResponse,
+  ResourceBatchResponse,
+  CatalogueFacetsResponse,
   AuthResponse,
   BookmarkResponse,
   BookmarkListResponse,
   ErrorResponse,
 } from './types';
+import { getConfig } from './config';
+import {
+  Validator,
+  SchemaError,
+  validate,
+  resourceListSchema,
+  resourceBatchSchema,
+  catalogueFacetsSchema,
+  authResponseSchema,
+  authCheckSchema,
+  bookmarkResponseSchema,
+  bookmarkListSchema,
+} from './validation';
+import { cacheKey, cachedRequest, invalidateCache } from './response-cache';
+import {
+  CATALOGUE_ENDPOINT,
+  CatalogueQuery,
+  toCatalogueParams,
+} from './catalogue';
 
-// API 基礎端點
-const API_BASE_URL = 'https://dae-mobile-assignment.hkit.cc/api';
-
-// 主題資源端點（主題編號 9：公眾景點）
-const RESOURCE_ENDPOINT = '/attractions';
+/**
+ * 獲取 API 基礎端點（由執行時配置決定）
+ */
+function apiUrl(path: string): string {
+  return `${getConfig().apiBaseUrl}${path}`;
+}
 
 /**
  * API 錯誤類別
@@ -30,11 +54,63 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * API 回應資料格式錯誤（帶欄位路徑，如 items[3].image_url）
+ * 不會觸發重試：資料格式問題重新請求也無法解決
+ */
+export class ApiValidationError extends ApiError {
+  constructor(
+    message: string,
+    public path: string,
+    response?: any
+  ) {
+    super(message, undefined, response);
+    this.name = 'ApiValidationError';
+  }
+}
+
+/**
+ * 請求已被取消（例如被較新的搜尋取代）
+ * 不會觸發重試，UI 不應將其顯示為錯誤
+ */
+export class ApiAbortError extends ApiError {
+  constructor(message: string = '請求已取消') {
+    super(message);
+    this.name = 'ApiAbortError';
+  }
+}
+
+/**
+ * 取消信號已觸發時拋出 ApiAbortError
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ApiAbortError();
+  }
+}
+
 /**
  * 延遲執行（用於重試機制）
+ * @param signal 取消信號，觸發時立即結束等待並拋出 ApiAbortError
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -45,6 +121,7 @@ export interface RetryOptions {
   initialDelay?: number; // 初始延遲時間（毫秒），預設 1000
   maxDelay?: number; // 最大延遲時間（毫秒），預設 10000
   shouldRetry?: (error: any) => boolean; // 是否應該重試的判斷函數
+  signal?: AbortSignal; // 取消信號（取消後不再重試，等待中的重試也會立即結束）
 }
 
 /**
@@ -60,6 +137,10 @@ export async function withRetry<T>(
     initialDelay = 1000,
     maxDelay = 10000,
     shouldRetry = (error: any) => {
+      // 瀏覽器離線時重試沒有意義（Service Worker 已嘗試返回緩存資料）
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return false;
+      }
       // 預設：只對 5xx 錯誤重試（伺服器錯誤）
       if (error instanceof ApiError) {
         const status = error.statusCode || 0;
@@ -67,16 +148,22 @@ export async function withRetry<T>(
       }
       return true; // 對網路錯誤也重試
     },
+    signal,
   } = options;
 
   let lastError: any;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    throwIfAborted(signal);
+
     try {
       return await fn();
     } catch (error) {
       lastError = error;
 
+      // 已取消的請求不重試
+      throwIfAborted(signal);
+
       // 如果這是最後一次嘗試，或不應該重試，則拋出錯誤
       if (attempt === maxRetries || !shouldRetry(error)) {
         throw error;
@@ -106,7 +193,7 @@ export async function withRetry<T>(
       }
 
       // 等待後重試
-      await delay(delayTime);
+      await delay(delayTime, signal);
     }
   }
 
@@ -115,8 +202,12 @@ export async function withRetry<T>(
 
 /**
  * 處理 API 回應
+ * @param schema 回應資料的驗證器
  */
-async function handleResponse<T>(response: Response): Promise<T> {
+async function handleResponse<T>(
+  response: Response,
+  schema: Validator<T>
+): Promise<T> {
   if (!response.ok) {
     let errorMessage = `HTTP 錯誤: ${response.status}`;
 
@@ -130,11 +221,56 @@ async function handleResponse<T>(response: Response): Promise<T> {
     throw new ApiError(errorMessage, response.status, response);
   }
 
+  let data: unknown;
   try {
-    return await response.json();
+    data = await response.json();
   } catch (error) {
     throw new ApiError('無法解析回應資料');
   }
+
+  return validateResponse(data, schema, response);
+}
+
+/**
+ * 驗證回應資料格式
+ * 寬鬆模式下修復或略過有問題的項目，並通過 api-validation 事件通知 UI 層
+ */
+function validateResponse<T>(
+  data: unknown,
+  schema: Validator<T>,
+  response: Response
+): T {
+  const lenient = getConfig().validationMode === 'lenient';
+
+  try {
+    const result = validate(schema, data, { lenient });
+
+    if (result.issues.length > 0) {
+      console.warn(
+        `⚠️ 回應資料有 ${result.issues.length} 個格式問題（${response.url}）:`,
+        result.issues
+      );
+
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(
+          new CustomEvent('api-validation', {
+            detail: { url: response.url, issues: result.issues },
+          })
+        );
+      }
+    }
+
+    return result.value;
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ApiValidationError(
+        `回應資料格式錯誤（${error.path}）：${error.message}`,
+        error.path,
+        response
+      );
+    }
+    throw error;
+  }
 }
 
 /**
@@ -149,6 +285,7 @@ function getToken(): string | null {
  */
 export function saveToken(token: string): void {
   localStorage.setItem('auth_token', token);
+  invalidateApiCache('/bookmarks');
 }
 
 /**
@@ -157,87 +294,373 @@ export function saveToken(token: string): void {
 export function clearToken(): void {
   localStorage.removeItem('auth_token');
   localStorage.removeItem('user_id');
+  invalidateApiCache('/bookmarks');
 }
 
 /**
- * 獲取景點列表
- * @param options 查詢參數
- * @returns 景點列表和分頁資訊
+ * 清單查詢參數（十個主題資源共用）
  */
-export async function fetchAttractions(options?: {
+export interface ResourceQuery {
   page?: number;
   limit?: number;
   search?: string;
   category?: string;
   sort?: string;
   order?: 'asc' | 'desc';
-}): Promise<AttractionListResponse> {
-  // 使用重試機制包裝 API 調用
-  return withRetry(
-    async () => {
-      try {
-        // 構建查詢參數
-        const params = new URLSearchParams();
+}
 
-        if (options?.page) {
-          params.append('page', options.page.toString());
-        }
+/**
+ * 請求選項
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // 取消信號（取消後拋出 ApiAbortError）
+}
 
-        if (options?.limit) {
-          params.append('limit', options.limit.toString());
-        }
+/**
+ * 獲取景點列表（使用配置的資源端點）
+ * @param options 查詢參數
+ * @param requestOptions 請求選項（取消信號）
+ * @returns 景點列表和分頁資訊
+ */
+export async function fetchAttractions(
+  options?: ResourceQuery,
+  requestOptions?: RequestOptions
+): Promise<AttractionListResponse> {
+  return fetchResource(getConfig().resourceEndpoint, options, requestOptions);
+}
 
-        if (options?.search) {
-          params.append('search', options.search);
-        }
+/**
+ * 獲取任一主題資源的列表
+ * @param endpoint 資源端點，如 /courses、/attractions
+ * @param options 查詢參數
+ * @param requestOptions 請求選項（取消信號）
+ * @returns 資源列表和分頁資訊（項目經 resourceListSchema 驗證，保留各主題的額外欄位）
+ */
+export async function fetchResource(
+  endpoint: string,
+  options?: ResourceQuery,
+  requestOptions: RequestOptions = {}
+): Promise<ResourceListResponse<ApiAttraction>> {
+  const { signal } = requestOptions;
+  const { cacheTtl, cachePersistent } = getConfig();
+
+  // 構建查詢參數
+  const params = new URLSearchParams();
+
+  if (options?.page) {
+    params.append('page', options.page.toString());
+  }
 
-        if (options?.category) {
-          params.append('category', options.category);
-        }
+  if (options?.limit) {
+    params.append('limit', options.limit.toString());
+  }
 
-        if (options?.sort) {
-          params.append('sort', options.sort);
-        }
+  if (options?.search) {
+    params.append('search', options.search);
+  }
+
+  if (options?.category) {
+    params.append('category', options.category);
+  }
+
+  if (options?.sort) {
+    params.append('sort', options.sort);
+  }
 
-        if (options?.order) {
-          params.append('order', options.order);
+  if (options?.order) {
+    params.append('order', options.order);
+  }
+
+  const url = apiUrl(
+    `${endpoint}${params.toString() ? '?' + params.toString() : ''}`
+  );
+
+  // 緩存鍵：第 1 頁與不指定頁碼相同，搜尋詞忽略首尾空白
+  const key = cacheKey(apiUrl(endpoint), {
+    page: options?.page && options.page > 1 ? options.page : undefined,
+    limit: options?.limit,
+    search: options?.search,
+    category: options?.category,
+    sort: options?.sort,
+    order: options?.order,
+  });
+
+  // 使用重試機制包裝 API 調用（相同的請求共用一個網絡請求，結果按配置緩存）
+  const load = (requestSignal: AbortSignal) =>
+    withRetry(
+      async () => {
+        try {
+          console.log('正在獲取資源資料:', url);
+
+          const response = await fetch(url, {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            signal: requestSignal,
+          });
+
+          const data = await handleResponse(response, resourceListSchema);
+          console.log('✅ 成功獲取資源資料:', data);
+
+          return data;
+        } catch (error) {
+          // 請求被取消（fetch 拋出 AbortError）
+          throwIfAborted(requestSignal);
+
+          console.error('獲取資源資料失敗:', error);
+
+          if (error instanceof ApiError) {
+            throw error;
+          }
+
+          throw new ApiError(
+            error instanceof Error ? error.message : '無法連接到伺服器'
+          );
         }
+      },
+      {
+        maxRetries: 15, // 最多重試 15 次（總共嘗試 16 次）
+        initialDelay: 500, // 每次重試等待 0.5 秒
+        maxDelay: 500, // 保持固定 0.5 秒（不使用指數退避）
+        signal: requestSignal,
+      }
+    );
+
+  try {
+    return await cachedRequest(key, load, {
+      ttl: cacheTtl * 1000,
+      persistent: cachePersistent,
+      signal,
+    });
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  }
+}
 
-        const url = `${API_BASE_URL}${RESOURCE_ENDPOINT}${
-          params.toString() ? '?' + params.toString() : ''
-        }`;
+// 按 ID 批量查詢的服務器端點（由服務器的上游目錄索引提供，見 server.ts）
+const BATCH_ENDPOINT = '/api/attractions/batch';
 
-        console.log('正在獲取景點資料:', url);
+/**
+ * 按 ID 批量獲取景點（使用配置的資源端點）
+ * @param ids 項目 ID 列表
+ * @param requestOptions 請求選項（取消信號）
+ * @returns 按 ID 順序排列的景點，以及找不到的 ID
+ */
+export async function fetchAttractionsByIds(
+  ids: number[],
+  requestOptions?: RequestOptions
+): Promise<ResourceBatchResponse<ApiAttraction>> {
+  return fetchResourceByIds(getConfig().resourceEndpoint, ids, requestOptions);
+}
 
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
+/**
+ * 按 ID 批量獲取任一主題資源的項目（一次請求，不受上游 API 分頁限制）
+ * @param endpoint 資源端點，如 /courses、/attractions
+ * @param ids 項目 ID 列表
+ * @param requestOptions 請求選項（取消信號）
+ * @returns 按 ID 順序排列的項目，以及找不到的 ID
+ */
+export async function fetchResourceByIds(
+  endpoint: string,
+  ids: number[],
+  requestOptions: RequestOptions = {}
+): Promise<ResourceBatchResponse<ApiAttraction>> {
+  if (ids.length === 0) {
+    return { items: [], missing: [] };
+  }
 
-        const data = await handleResponse<AttractionListResponse>(response);
-        console.log('✅ 成功獲取景點資料:', data);
+  const { signal } = requestOptions;
+  const params = new URLSearchParams({
+    resource: endpoint,
+    ids: ids.join(','),
+  });
+  const url = `${BATCH_ENDPOINT}?${params.toString()}`;
 
-        return data;
-      } catch (error) {
-        console.error('獲取景點資料失敗:', error);
+  // 只緩存於記憶體：收藏變化時 ID 列表不同，自然使用新的緩存鍵
+  // 有找不到的 ID 時不緩存：可能是上游剛新增的項目，下次請求由服務器重新爬取後即可找到
+  const key = cacheKey(BATCH_ENDPOINT, {
+    resource: endpoint,
+    ids: ids.join(','),
+  });
 
-        if (error instanceof ApiError) {
-          throw error;
+  const load = (requestSignal: AbortSignal) =>
+    withRetry(
+      async () => {
+        try {
+          console.log(`正在批量獲取 ${ids.length} 個項目:`, endpoint);
+
+          const response = await fetch(url, { signal: requestSignal });
+          const data = await handleResponse(response, resourceBatchSchema);
+          console.log(
+            `✅ 成功批量獲取 ${data.items.length} 個項目` +
+              (data.missing.length > 0
+                ? `，找不到 ${data.missing.length} 個`
+                : '')
+          );
+
+          return data;
+        } catch (error) {
+          throwIfAborted(requestSignal);
+
+          console.error('批量獲取項目失敗:', error);
+
+          if (error instanceof ApiError) {
+            throw error;
+          }
+
+          throw new ApiError(
+            error instanceof Error ? error.message : '無法連接到伺服器'
+          );
         }
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        signal: requestSignal,
+      }
+    );
 
-        throw new ApiError(
-          error instanceof Error ? error.message : '無法連接到伺服器'
-        );
+  try {
+    return await cachedRequest(key, load, {
+      ttl: getConfig().cacheTtl * 1000,
+      signal,
+      cacheable: (data) => data.missing.length === 0,
+    });
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  }
+}
+
+/**
+ * 查詢服務器的目錄索引（可按上游 API 不支援的欄位篩選及排序，見 catalogue.ts）
+ * @param endpoint 資源端點，如 /courses、/attractions
+ * @param query 查詢條件
+ * @param requestOptions 請求選項（取消信號）
+ * @returns 當前頁的項目和分頁資訊
+ */
+export async function fetchCatalogue(
+  endpoint: string,
+  query: CatalogueQuery = {},
+  requestOptions: RequestOptions = {}
+): Promise<ResourceListResponse<ApiAttraction>> {
+  const { signal } = requestOptions;
+  const params = toCatalogueParams(query);
+  params.set('resource', endpoint);
+  params.sort();
+  const url = `${CATALOGUE_ENDPOINT}?${params.toString()}`;
+
+  const load = (requestSignal: AbortSignal) =>
+    withRetry(
+      async () => {
+        try {
+          console.log('正在查詢目錄:', url);
+
+          const response = await fetch(url, { signal: requestSignal });
+          const data = await handleResponse(response, resourceListSchema);
+          console.log('✅ 成功查詢目錄:', data);
+
+          return data;
+        } catch (error) {
+          throwIfAborted(requestSignal);
+
+          console.error('查詢目錄失敗:', error);
+
+          if (error instanceof ApiError) {
+            throw error;
+          }
+
+          throw new ApiError(
+            error instanceof Error ? error.message : '無法連接到伺服器'
+          );
+        }
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        signal: requestSignal,
       }
-    },
-    {
-      maxRetries: 15, // 最多重試 15 次（總共嘗試 16 次）
-      initialDelay: 500, // 每次重試等待 0.5 秒
-      maxDelay: 500, // 保持固定 0.5 秒（不使用指數退避）
-    }
-  );
+    );
+
+  try {
+    return await cachedRequest(url, load, {
+      ttl: getConfig().cacheTtl * 1000,
+      signal,
+    });
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  }
+}
+
+/**
+ * 查詢服務器目錄索引的分面統計（城市、國家、標籤及設施各個值的數量）
+ * @param endpoint 資源端點，如 /courses、/attractions
+ * @param query 查詢條件（忽略排序及分頁）
+ * @param requestOptions 請求選項（取消信號）
+ */
+export async function fetchCatalogueFacets(
+  endpoint: string,
+  query: CatalogueQuery = {},
+  requestOptions: RequestOptions = {}
+): Promise<CatalogueFacetsResponse> {
+  const { signal } = requestOptions;
+  const params = toCatalogueParams({
+    ...query,
+    sort: undefined,
+    page: undefined,
+    limit: undefined,
+  });
+  params.set('resource', endpoint);
+  params.sort();
+  const url = `${CATALOGUE_ENDPOINT}/facets?${params.toString()}`;
+
+  const load = (requestSignal: AbortSignal) =>
+    withRetry(
+      async () => {
+        try {
+          const response = await fetch(url, { signal: requestSignal });
+          return await handleResponse(response, catalogueFacetsSchema);
+        } catch (error) {
+          throwIfAborted(requestSignal);
+
+          console.error('查詢分面統計失敗:', error);
+
+          if (error instanceof ApiError) {
+            throw error;
+          }
+
+          throw new ApiError(
+            error instanceof Error ? error.message : '無法連接到伺服器'
+          );
+        }
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        signal: requestSignal,
+      }
+    );
+
+  try {
+    return await cachedRequest(url, load, {
+      ttl: getConfig().cacheTtl * 1000,
+      signal,
+    });
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  }
+}
+
+/**
+ * 使 API 回應緩存失效
+ * @param endpoint 只清除此端點的緩存（如 '/bookmarks'、'/attractions'）；省略時清除全部
+ */
+export function invalidateApiCache(endpoint?: string): Promise<void> {
+  return invalidateCache(endpoint ? apiUrl(endpoint) : undefined);
 }
 
 /**
@@ -253,7 +676,7 @@ export async function signup(
   return withRetry(
     async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/auth/signup`, {
+        const response = await fetch(apiUrl('/auth/signup'), {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -261,7 +684,7 @@ export async function signup(
           body: JSON.stringify({ username, password }),
         });
 
-        const data = await handleResponse<AuthResponse>(response);
+        const data = await handleResponse(response, authResponseSchema);
 
         // 自動儲存 token
         saveToken(data.token);
@@ -299,7 +722,7 @@ export async function login(
   return withRetry(
     async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/auth/login`, {
+        const response = await fetch(apiUrl('/auth/login'), {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -307,7 +730,7 @@ export async function login(
           body: JSON.stringify({ username, password }),
         });
 
-        const data = await handleResponse<AuthResponse>(response);
+        const data = await handleResponse(response, authResponseSchema);
 
         // 自動儲存 token
         saveToken(data.token);
@@ -346,14 +769,14 @@ export async function checkAuth(): Promise<{ user_id: number | null }> {
   return withRetry(
     async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/auth/check`, {
+        const response = await fetch(apiUrl('/auth/check'), {
           method: 'GET',
           headers: {
             Authorization: `Bearer ${token}`,
           },
         });
 
-        const data = await handleResponse<{ user_id: number | null }>(response);
+        const data = await handleResponse(response, authCheckSchema);
 
         console.log('✅ Token 驗證成功:', data);
         return data;
@@ -409,15 +832,16 @@ export async function addBookmark(itemId: number): Promise<BookmarkResponse> {
   return withRetry(
     async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/bookmarks/${itemId}`, {
+        const response = await fetch(apiUrl(`/bookmarks/${itemId}`), {
           method: 'POST',
           headers: {
             Authorization: `Bearer ${token}`,
           },
         });
 
-        const data = await handleResponse<BookmarkResponse>(response);
+        const data = await handleResponse(response, bookmarkResponseSchema);
         console.log('✅ 收藏成功:', data);
+        invalidateApiCache('/bookmarks');
 
         return data;
       } catch (error) {
@@ -454,15 +878,16 @@ export async function removeBookmark(
   return withRetry(
     async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/bookmarks/${itemId}`, {
+        const response = await fetch(apiUrl(`/bookmarks/${itemId}`), {
           method: 'DELETE',
           headers: {
             Authorization: `Bearer ${token}`,
           },
         });
 
-        const data = await handleResponse<BookmarkResponse>(response);
+        const data = await handleResponse(response, bookmarkResponseSchema);
         console.log('✅ 取消收藏成功:', data);
+        invalidateApiCache('/bookmarks');
 
         return data;
       } catch (error) {
@@ -489,43 +914,51 @@ export async function removeBookmark(
  * @returns 收藏的項目 ID 列表
  */
 export async function getBookmarks(): Promise<BookmarkListResponse> {
-  return withRetry(
-    async () => {
-      try {
-        const token = getToken();
+  // 按使用者緩存（只保存在記憶體），收藏變化或登入狀態變化時失效
+  const key = cacheKey(apiUrl('/bookmarks'), { user: getCurrentUserId() });
+
+  const load = (signal: AbortSignal) =>
+    withRetry(
+      async () => {
+        try {
+          const token = getToken();
+
+          if (!token) {
+            throw new ApiError('請先登入', 401);
+          }
+
+          const response = await fetch(apiUrl('/bookmarks'), {
+            method: 'GET',
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+            signal,
+          });
 
-        if (!token) {
-          throw new ApiError('請先登入', 401);
-        }
+          const data = await handleResponse(response, bookmarkListSchema);
+          console.log('✅ 成功獲取收藏列表:', data);
 
-        const response = await fetch(`${API_BASE_URL}/bookmarks`, {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-
-        const data = await handleResponse<BookmarkListResponse>(response);
-        console.log('✅ 成功獲取收藏列表:', data);
+          return data;
+        } catch (error) {
+          console.error('獲取收藏列表失敗:', error);
 
-        return data;
-      } catch (error) {
-        console.error('獲取收藏列表失敗:', error);
+          if (error instanceof ApiError) {
+            throw error;
+          }
 
-        if (error instanceof ApiError) {
-          throw error;
+          throw new ApiError(
+            error instanceof Error ? error.message : '獲取收藏列表失敗'
+          );
         }
-
-        throw new ApiError(
-          error instanceof Error ? error.message : '獲取收藏列表失敗'
-        );
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        signal,
       }
-    },
-    {
-      maxRetries: 3,
-      initialDelay: 1000,
-    }
-  );
+    );
+
+  return cachedRequest(key, load, { ttl: getConfig().cacheTtl * 1000 });
 }
 
 /**
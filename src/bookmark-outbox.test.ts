@@ -0,0 +1,249 @@
+/**
+ * 收藏操作發件匣測試（npm test）
+ * IndexedDB、localStorage、window 及 fetch 使用記憶體中的替代品
+ */
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BookmarkMutation,
+  applyPendingMutations,
+  enqueueBookmarkMutation,
+  flushOutbox,
+  getPendingMutations,
+  isTransientError,
+  loadOutbox,
+} from './bookmark-outbox';
+import { ApiError, ApiValidationError } from './api';
+
+// ==================== 瀏覽器環境替代品 ====================
+
+/**
+ * 記憶體中的 IndexedDB（只實現發件匣用到的操作）
+ */
+const records = new Map<string, BookmarkMutation>();
+
+function request<T>(result: T): IDBRequest<T> {
+  const req = { result } as { result: T; onsuccess?: () => void };
+  queueMicrotask(() => req.onsuccess?.());
+  return req as unknown as IDBRequest<T>;
+}
+
+const objectStore = {
+  put: (mutation: BookmarkMutation) => {
+    records.set(mutation.key, { ...mutation });
+    return request(mutation.key);
+  },
+  delete: (key: string) => {
+    records.delete(key);
+    return request(undefined);
+  },
+  index: () => ({
+    getAll: (userId: number) =>
+      request(
+        Array.from(records.values()).filter(
+          (mutation) => mutation.userId === userId
+        )
+      ),
+  }),
+};
+
+const database = { transaction: () => ({ objectStore: () => objectStore }) };
+
+const storage = new Map<string, string>();
+
+Object.assign(globalThis, {
+  indexedDB: { open: () => request(database) },
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+  window: new EventTarget(),
+});
+// 離線時 withRetry 不重試，暫時性錯誤立即返回
+Object.defineProperty(globalThis, 'navigator', {
+  value: { onLine: false },
+  configurable: true,
+});
+
+/**
+ * 模擬的 API 回應（按項目 ID 決定狀態碼），並記錄發送的請求
+ */
+let statusFor: (itemId: number) => number = () => 200;
+let sent: string[] = [];
+
+globalThis.fetch = (async (url: string, init?: RequestInit) => {
+  const itemId = Number(url.split('/').pop());
+  sent.push(`${init?.method} ${itemId}`);
+
+  const status = statusFor(itemId);
+  const body =
+    status === 200
+      ? {
+          message:
+            init?.method === 'POST' ? 'newly bookmarked' : 'newly deleted',
+        }
+      : { error: `HTTP ${status}` };
+  return new Response(JSON.stringify(body), { status });
+}) as typeof fetch;
+
+/**
+ * 以指定使用者登入並載入其發件匣
+ */
+async function loginAs(userId: number): Promise<void> {
+  storage.set('auth_token', `token-${userId}`);
+  storage.set('user_id', String(userId));
+  await loadOutbox();
+}
+
+function pendingActions(): string[] {
+  return getPendingMutations().map(
+    (mutation) => `${mutation.action} ${mutation.key}`
+  );
+}
+
+beforeEach(async () => {
+  records.clear();
+  statusFor = () => 200;
+  sent = [];
+  await loginAs(1);
+});
+
+// ==================== 測試 ====================
+
+describe('合併規則', () => {
+  it('收藏後取消收藏互相抵消', async () => {
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(7, 'remove');
+
+    assert.deepEqual(pendingActions(), []);
+    assert.equal(records.size, 0);
+  });
+
+  it('取消收藏後再收藏互相抵消', async () => {
+    await enqueueBookmarkMutation(7, 'remove');
+    await enqueueBookmarkMutation(7, 'add');
+
+    assert.deepEqual(pendingActions(), []);
+  });
+
+  it('重複相同操作只保留一個', async () => {
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(7, 'add');
+
+    assert.deepEqual(pendingActions(), ['add 1:7']);
+  });
+
+  it('不同項目的操作按加入順序保留', async () => {
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(3, 'remove');
+
+    assert.deepEqual(pendingActions(), ['add 1:7', 'remove 1:3']);
+  });
+
+  it('每個使用者的操作分開保存', async () => {
+    await enqueueBookmarkMutation(7, 'add');
+
+    await loginAs(2);
+    assert.deepEqual(pendingActions(), []);
+    await enqueueBookmarkMutation(7, 'remove');
+    assert.deepEqual(pendingActions(), ['remove 2:7']);
+
+    await loginAs(1);
+    assert.deepEqual(pendingActions(), ['add 1:7']);
+  });
+
+  it('未登入時拒絕加入', async () => {
+    storage.clear();
+
+    await assert.rejects(enqueueBookmarkMutation(7, 'add'), (error) => {
+      return error instanceof ApiError && error.statusCode === 401;
+    });
+  });
+});
+
+describe('applyPendingMutations', () => {
+  it('在服務器的收藏列表上套用待同步的操作', async () => {
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(3, 'remove');
+
+    assert.deepEqual(Array.from(applyPendingMutations([1, 3])).sort(), [1, 7]);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('按順序發送並移出發件匣', async () => {
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(3, 'remove');
+
+    const result = await flushOutbox();
+
+    assert.deepEqual(sent, ['POST 7', 'DELETE 3']);
+    assert.equal(result.synced.length, 2);
+    assert.equal(result.remaining, 0);
+    assert.equal(records.size, 0);
+  });
+
+  it('暫時性錯誤時停止並保留剩餘操作', async () => {
+    statusFor = (itemId) => (itemId === 7 ? 503 : 200);
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(3, 'add');
+
+    const result = await flushOutbox();
+
+    assert.deepEqual(sent, ['POST 7']);
+    assert.deepEqual(result.rejected, []);
+    assert.equal(result.needsLogin, false);
+    assert.equal(result.remaining, 2);
+    assert.deepEqual(pendingActions(), ['add 1:7', 'add 1:3']);
+  });
+
+  it('被拒絕的操作移出發件匣並繼續發送', async () => {
+    statusFor = (itemId) => (itemId === 7 ? 404 : 200);
+    await enqueueBookmarkMutation(7, 'add');
+    await enqueueBookmarkMutation(3, 'add');
+
+    const result = await flushOutbox();
+
+    assert.deepEqual(sent, ['POST 7', 'POST 3']);
+    assert.deepEqual(
+      result.rejected.map(({ mutation, error }) => [
+        mutation.key,
+        error.statusCode,
+      ]),
+      [['1:7', 404]]
+    );
+    assert.equal(result.synced.length, 1);
+    assert.equal(result.remaining, 0);
+  });
+
+  it('401 時需要重新登入並保留操作', async () => {
+    statusFor = () => 401;
+    await enqueueBookmarkMutation(7, 'add');
+
+    const result = await flushOutbox();
+
+    assert.equal(result.needsLogin, true);
+    assert.deepEqual(result.rejected, []);
+    assert.deepEqual(pendingActions(), ['add 1:7']);
+    assert.equal(records.size, 1);
+  });
+});
+
+describe('isTransientError', () => {
+  it('網絡錯誤及服務器故障為暫時性錯誤', () => {
+    assert.equal(isTransientError(new ApiError('offline')), true);
+    assert.equal(isTransientError(new ApiError('error', 500)), true);
+    assert.equal(isTransientError(new ApiError('timeout', 408)), true);
+    assert.equal(isTransientError(new ApiError('busy', 429)), true);
+  });
+
+  it('請求錯誤及資料格式錯誤不會重試', () => {
+    assert.equal(isTransientError(new ApiError('bad', 400)), false);
+    assert.equal(isTransientError(new ApiError('gone', 404)), false);
+    assert.equal(
+      isTransientError(new ApiValidationError('invalid', 'message')),
+      false
+    );
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * 收藏操作發件匣（離線收藏佇列）
+ * 收藏/取消收藏先寫入發件匣（IndexedDB），再按加入順序發送到 API；
+ * 網絡中斷或上游服務器故障時保留在發件匣中，恢復連線後重新發送
+ *
+ * 合併規則（每個使用者的每個項目最多只有一個待同步操作）：
+ * - 收藏後在同步前取消收藏（或相反）：兩個操作互相抵消
+ * - 重複相同操作：只保留一個
+ * - 操作正在發送時再次切換：新操作取代舊操作，發送完成後再同步
+ *
+ * 發件匣變化時觸發 window 的 'bookmark-outbox' 事件（detail.pending 為待同步數量）
+ */
+import { BookmarkResponse } from './types';
+import {
+  ApiError,
+  ApiValidationError,
+  addBookmark,
+  removeBookmark,
+  getCurrentUserId,
+} from './api';
+import { openStore } from './idb';
+
+/**
+ * 收藏操作類型
+ */
+export type BookmarkAction = 'add' | 'remove';
+
+/**
+ * 待同步的收藏操作
+ */
+export interface BookmarkMutation {
+  key: string; // `${userId}:${itemId}`
+  userId: number;
+  itemId: number;
+  action: BookmarkAction;
+  queuedAt: number; // 加入時間（決定發送順序）
+}
+
+/**
+ * 同步結果
+ */
+export interface OutboxFlushResult {
+  synced: { mutation: BookmarkMutation; response: BookmarkResponse }[];
+  rejected: { mutation: BookmarkMutation; error: ApiError }[]; // 被 API 拒絕的操作（已移出發件匣）
+  needsLogin: boolean; // token 已失效，需要重新登入後才能同步
+  remaining: number; // 仍待同步的數量
+}
+
+const DB_NAME = 'bookmark-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+// 當前使用者的待同步操作（IndexedDB 的記憶體副本；IndexedDB 不可用時只保存在記憶體）
+const pending = new Map<string, BookmarkMutation>();
+
+// 正在發送的操作
+let inFlight: BookmarkMutation | null = null;
+let flushPromise: Promise<OutboxFlushResult> | null = null;
+let lastQueuedAt = 0;
+
+// ==================== IndexedDB ====================
+
+const db = openStore(DB_NAME, DB_VERSION, STORE_NAME, (database) => {
+  const store = database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+  store.createIndex('userId', 'userId');
+});
+
+async function persist(mutation: BookmarkMutation): Promise<void> {
+  await db.run('readwrite', (store) => store.put(mutation));
+}
+
+async function unpersist(key: string): Promise<void> {
+  await db.run('readwrite', (store) => store.delete(key));
+}
+
+// ==================== 發件匣 ====================
+
+/**
+ * 通知 UI 待同步數量已變化
+ */
+function notifyChange(): void {
+  window.dispatchEvent(
+    new CustomEvent('bookmark-outbox', { detail: { pending: pending.size } })
+  );
+}
+
+/**
+ * 移除操作（記憶體和資料庫）
+ * 操作已被新操作取代時不處理（資料庫中保存的是新操作）
+ */
+async function dropMutation(mutation: BookmarkMutation): Promise<void> {
+  if (pending.get(mutation.key) !== mutation) return;
+
+  pending.delete(mutation.key);
+  await unpersist(mutation.key);
+}
+
+/**
+ * 載入當前使用者的待同步操作（登入、登出或切換使用者後調用）
+ */
+export async function loadOutbox(): Promise<void> {
+  pending.clear();
+
+  const userId = getCurrentUserId();
+  if (userId !== null) {
+    try {
+      const mutations = await db.run('readonly', (store) =>
+        store.index('userId').getAll(userId)
+      );
+      (mutations || []).forEach((mutation: BookmarkMutation) => {
+        pending.set(mutation.key, mutation);
+        lastQueuedAt = Math.max(lastQueuedAt, mutation.queuedAt);
+      });
+    } catch (error) {
+      console.warn('⚠️ 讀取收藏發件匣失敗:', error);
+    }
+  }
+
+  if (pending.size > 0) {
+    console.log(`📮 收藏發件匣中有 ${pending.size} 個待同步操作`);
+  }
+  notifyChange();
+}
+
+/**
+ * 待同步的操作（按加入順序）
+ */
+export function getPendingMutations(): BookmarkMutation[] {
+  return Array.from(pending.values()).sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * 項目是否有待同步的操作
+ */
+export function isPending(itemId: number): boolean {
+  return getPendingMutations().some((mutation) => mutation.itemId === itemId);
+}
+
+/**
+ * 將待同步的操作套用到服務器返回的收藏列表上
+ */
+export function applyPendingMutations(itemIds: Iterable<number>): Set<number> {
+  const result = new Set(itemIds);
+  getPendingMutations().forEach((mutation) => {
+    if (mutation.action === 'add') {
+      result.add(mutation.itemId);
+    } else {
+      result.delete(mutation.itemId);
+    }
+  });
+  return result;
+}
+
+/**
+ * 將收藏操作加入發件匣（按合併規則與現有操作合併）
+ */
+export async function enqueueBookmarkMutation(
+  itemId: number,
+  action: BookmarkAction
+): Promise<void> {
+  const userId = getCurrentUserId();
+  if (userId === null) {
+    throw new ApiError('請先登入', 401);
+  }
+
+  const key = `${userId}:${itemId}`;
+  const existing = pending.get(key);
+
+  if (existing && existing.action === action) {
+    return; // 重複操作
+  }
+
+  if (existing && existing !== inFlight) {
+    // 相反的操作尚未發送：互相抵消
+    console.log(`📮 收藏操作互相抵消: ${existing.action} → ${action}`, itemId);
+    await dropMutation(existing);
+    notifyChange();
+    return;
+  }
+
+  // 保證加入時間遞增（同一毫秒內的多個操作仍按順序發送）
+  lastQueuedAt = Math.max(Date.now(), lastQueuedAt + 1);
+  const mutation: BookmarkMutation = {
+    key,
+    userId,
+    itemId,
+    action,
+    queuedAt: lastQueuedAt,
+  };
+
+  pending.set(key, mutation);
+  await persist(mutation);
+  notifyChange();
+}
+
+/**
+ * 是否為暫時性錯誤（網絡中斷或上游服務器故障），暫時性錯誤保留在發件匣中稍後重試
+ */
+export function isTransientError(error: ApiError): boolean {
+  if (error instanceof ApiValidationError) return false; // 服務器已處理請求
+  const status = error.statusCode;
+  return !status || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * 發送一個操作
+ */
+function sendMutation(mutation: BookmarkMutation): Promise<BookmarkResponse> {
+  return mutation.action === 'add'
+    ? addBookmark(mutation.itemId)
+    : removeBookmark(mutation.itemId);
+}
+
+/**
+ * 按順序發送待同步的操作
+ * 遇到暫時性錯誤時停止（保留剩餘操作）；被拒絕的操作會移出發件匣
+ */
+async function runFlush(): Promise<OutboxFlushResult> {
+  const result: OutboxFlushResult = {
+    synced: [],
+    rejected: [],
+    needsLogin: false,
+    remaining: 0,
+  };
+
+  // 每次取下一個未發送過的操作（發送期間加入的取代操作也會在本次同步中發送）
+  const attempted = new Set<BookmarkMutation>();
+
+  for (;;) {
+    const mutation = getPendingMutations().find((m) => !attempted.has(m));
+    if (!mutation) break;
+    attempted.add(mutation);
+
+    inFlight = mutation;
+    try {
+      const response = await sendMutation(mutation);
+      await dropMutation(mutation);
+      result.synced.push({ mutation, response });
+    } catch (error) {
+      const apiError =
+        error instanceof ApiError
+          ? error
+          : new ApiError(error instanceof Error ? error.message : '同步失敗');
+
+      if (apiError.statusCode === 401) {
+        result.needsLogin = true;
+        break;
+      }
+
+      if (isTransientError(apiError)) {
+        const current = pending.get(mutation.key);
+        if (current && current !== mutation) {
+          // 發送期間用戶已切換回原狀態：兩個操作抵消
+          await dropMutation(current);
+        } else if (!current) {
+          // 發送期間用戶切換了兩次（取代操作已被抵消），仍需要此操作
+          pending.set(mutation.key, mutation);
+          await persist(mutation);
+        }
+        console.warn('📮 收藏同步暫停（稍後重試）:', apiError.message);
+        break;
+      }
+
+      await dropMutation(mutation);
+      result.rejected.push({ mutation, error: apiError });
+    } finally {
+      inFlight = null;
+    }
+  }
+
+  result.remaining = pending.size;
+  notifyChange();
+  return result;
+}
+
+/**
+ * 同步發件匣（同一時間只有一個同步在進行，重複調用返回同一個結果）
+ */
+export function flushOutbox(): Promise<OutboxFlushResult> {
+  if (!flushPromise) {
+    flushPromise = runFlush().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+}
@@ -0,0 +1,249 @@
+/**
+ * 目錄查詢測試（npm test）
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CatalogueQuery,
+  CatalogueQueryError,
+  catalogueFacets,
+  parseCatalogueQuery,
+  queryCatalogue,
+  toCatalogueParams,
+} from './catalogue';
+import { ApiAttraction, FacetCount } from './types';
+
+/**
+ * 建立測試項目
+ */
+function item(
+  id: number,
+  title: string,
+  fields: Partial<ApiAttraction> & { views?: number }
+): ApiAttraction {
+  return {
+    id,
+    title,
+    description: '',
+    category: '景點',
+    image_url: '',
+    video_url: '',
+    ...fields,
+  };
+}
+
+const items: ApiAttraction[] = [
+  item(1, '故宮', {
+    city: '北京',
+    country: '中國',
+    tags: ['世界遺產', '博物館'],
+    facilities: ['洗手間', '停車場'],
+    views: 300,
+  }),
+  item(2, '長城', {
+    city: '北京',
+    country: '中國',
+    tags: ['世界遺產'],
+    facilities: ['停車場'],
+    views: 500,
+  }),
+  item(3, '維多利亞港', {
+    city: '香港',
+    country: '中國',
+    tags: ['夜景'],
+    description: '香港的海港夜景',
+  }),
+  item(4, '大英博物館', {
+    city: '倫敦',
+    country: '英國',
+    tags: ['博物館'],
+    facilities: ['洗手間'],
+    views: 100,
+  }),
+];
+
+/**
+ * 查詢結果的項目 ID
+ */
+function ids(query: CatalogueQuery): number[] {
+  return queryCatalogue(items, query).items.map((found) => found.id);
+}
+
+/**
+ * 分面統計 → { 值: 數量 }
+ */
+function counts(facets: FacetCount[]): Record<string, number> {
+  return Object.fromEntries(facets.map(({ value, count }) => [value, count]));
+}
+
+describe('queryCatalogue 篩選', () => {
+  it('match=any 時多值欄位任一匹配', () => {
+    assert.deepEqual(
+      ids({ filters: { tags: ['世界遺產', '博物館'] } }),
+      [1, 2, 4]
+    );
+  });
+
+  it('match=all 時多值欄位必須包含所有值', () => {
+    assert.deepEqual(
+      ids({ filters: { tags: ['世界遺產', '博物館'] }, match: 'all' }),
+      [1]
+    );
+  });
+
+  it('match=all 時單值欄位仍為任一匹配', () => {
+    assert.deepEqual(
+      ids({ filters: { city: ['北京', '香港'] }, match: 'all' }),
+      [1, 2, 3]
+    );
+  });
+
+  it('不同欄位必須同時匹配', () => {
+    assert.deepEqual(
+      ids({ filters: { city: ['北京'], facilities: ['洗手間'] } }),
+      [1]
+    );
+  });
+
+  it('缺少篩選欄位的項目不匹配', () => {
+    assert.deepEqual(ids({ filters: { facilities: ['停車場'] } }), [1, 2]);
+    assert.deepEqual(
+      ids({ filters: { facilities: ['停車場'] }, match: 'all' }),
+      [1, 2]
+    );
+  });
+
+  it('空的篩選值不限制結果', () => {
+    assert.deepEqual(ids({ filters: { tags: [] } }), [1, 2, 3, 4]);
+  });
+});
+
+describe('queryCatalogue 搜索、排序及分頁', () => {
+  it('所有搜索詞都必須出現（可在不同欄位）', () => {
+    assert.deepEqual(ids({ search: '博物館' }), [1, 4]);
+    assert.deepEqual(ids({ search: '博物館 英國' }), [4]);
+    assert.deepEqual(ids({ search: '海港 香港' }), [3]);
+  });
+
+  it('按數字欄位排序，缺少該欄位的項目排在最後', () => {
+    assert.deepEqual(ids({ sort: 'views' }), [4, 1, 2, 3]);
+    assert.deepEqual(ids({ sort: 'views', order: 'desc' }), [2, 1, 4, 3]);
+  });
+
+  it('排序欄位不存在於任何項目時拋出錯誤', () => {
+    assert.throws(
+      () => queryCatalogue(items, { sort: 'rating' }),
+      CatalogueQueryError
+    );
+  });
+
+  it('分頁並返回符合條件的總數', () => {
+    const result = queryCatalogue(items, { sort: 'views', page: 2, limit: 3 });
+
+    assert.deepEqual(
+      result.items.map((found) => found.id),
+      [3]
+    );
+    assert.equal(result.total, 4);
+  });
+});
+
+describe('catalogueFacets', () => {
+  it('沒有篩選條件時統計所有項目（按數量降序）', () => {
+    const facets = catalogueFacets(items, {});
+
+    assert.deepEqual(facets.country, [
+      { value: '中國', count: 3 },
+      { value: '英國', count: 1 },
+    ]);
+    assert.deepEqual(counts(facets.tags), {
+      世界遺產: 2,
+      博物館: 2,
+      夜景: 1,
+    });
+  });
+
+  it('缺少欄位的項目不計入該欄位', () => {
+    const facets = catalogueFacets(items, {});
+
+    assert.deepEqual(counts(facets.facilities), { 洗手間: 2, 停車場: 2 });
+  });
+
+  it('match=any 時統計某欄位忽略該欄位本身的條件', () => {
+    const facets = catalogueFacets(items, { filters: { city: ['北京'] } });
+
+    assert.deepEqual(counts(facets.city), { 北京: 2, 香港: 1, 倫敦: 1 });
+    assert.deepEqual(counts(facets.tags), { 世界遺產: 2, 博物館: 1 });
+  });
+
+  it('match=all 時多值欄位保留本身的條件', () => {
+    const facets = catalogueFacets(items, {
+      filters: { tags: ['世界遺產'] },
+      match: 'all',
+    });
+
+    assert.deepEqual(counts(facets.tags), { 世界遺產: 2, 博物館: 1 });
+    assert.deepEqual(counts(facets.city), { 北京: 2 });
+  });
+
+  it('套用搜索詞', () => {
+    const facets = catalogueFacets(items, { search: '博物館' });
+
+    assert.deepEqual(counts(facets.country), { 中國: 1, 英國: 1 });
+  });
+});
+
+describe('查詢參數', () => {
+  it('解析逗號分隔的篩選值', () => {
+    assert.deepEqual(
+      parseCatalogueQuery({
+        search: ' 故宮 ',
+        tags: '世界遺產, 博物館',
+        city: '',
+        match: 'all',
+        sort: 'views',
+        order: 'desc',
+        page: '2',
+      }),
+      {
+        search: '故宮',
+        filters: { tags: ['世界遺產', '博物館'] },
+        match: 'all',
+        sort: 'views',
+        order: 'desc',
+        page: 2,
+        limit: undefined,
+      }
+    );
+  });
+
+  it('無效的參數拋出錯誤', () => {
+    assert.throws(
+      () => parseCatalogueQuery({ match: 'some' }),
+      CatalogueQueryError
+    );
+    assert.throws(
+      () => parseCatalogueQuery({ limit: '1000' }),
+      CatalogueQueryError
+    );
+    assert.throws(
+      () => parseCatalogueQuery({ page: '0' }),
+      CatalogueQueryError
+    );
+  });
+
+  it('查詢條件與查詢參數互相轉換', () => {
+    const query: CatalogueQuery = {
+      filters: { city: ['北京'], tags: ['世界遺產', '博物館'] },
+      match: 'all',
+      sort: 'views',
+    };
+    const params = Object.fromEntries(toCatalogueParams(query));
+
+    assert.deepEqual(parseCatalogueQuery(params), {
+      ...query,
+      page: undefined,
+      limit: undefined,
+    });
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * 目錄查詢（/api/catalogue）
+ * 上游 API 只能按 search / category 篩選，服務器的目錄索引保存了整個上游目錄，
+ * 因此可以按任意欄位篩選及排序：
+ * - 全文搜索：標題、描述、分類、地址、城市、國家、標籤及設施；
+ *   多個搜索詞（空格分隔）必須全部匹配，文字經 normalize 處理後比對（服務器轉為簡體，繁簡通用）
+ * - 篩選：category / city / country 為單值欄位，tags / facilities 為多值欄位；
+ *   同一欄位的多個值（逗號分隔）任一匹配即可（match=any），不同欄位必須同時匹配；
+ *   match=all 時多值欄位必須包含所有選擇的值（單值欄位不可能同時等於多個值，仍為任一匹配）
+ * - 分面統計：各篩選欄位每個值的項目數量（見 catalogueFacets）
+ * - 排序：任意欄位（數字按大小、其他按繁體中文排序），缺少該欄位的項目排在最後
+ *
+ * 此模組不依賴 DOM，客戶端和服務器共用
+ */
+import { ApiResourceItem, FacetCount } from './types';
+
+export const CATALOGUE_ENDPOINT = '/api/catalogue';
+
+/**
+ * 可篩選的欄位
+ */
+export const CATALOGUE_FILTER_FIELDS = [
+  'category',
+  'city',
+  'country',
+  'tags',
+  'facilities',
+] as const;
+
+export type CatalogueFilterField = (typeof CATALOGUE_FILTER_FIELDS)[number];
+
+/**
+ * 可分面統計的欄位（分類已有獨立的選單，不包括在內）
+ */
+export const FACET_FIELDS = ['city', 'country', 'tags', 'facilities'] as const;
+
+export type FacetField = (typeof FACET_FIELDS)[number];
+
+// 多值欄位（match=all 時必須包含所有選擇的值）
+const MULTI_VALUE_FIELDS: CatalogueFilterField[] = ['tags', 'facilities'];
+
+/**
+ * 篩選值的匹配方式：any 為任一匹配（OR），all 為全部匹配（AND）
+ */
+export type FacetMatch = 'any' | 'all';
+
+// 全文搜索的欄位
+const SEARCH_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'address',
+  'city',
+  'country',
+  'tags',
+  'facilities',
+];
+
+// 每頁數量上限
+export const CATALOGUE_MAX_LIMIT = 100;
+
+/**
+ * 篩選條件：欄位 → 選擇的值
+ */
+export type CatalogueFilters = Partial<Record<CatalogueFilterField, string[]>>;
+
+/**
+ * 目錄查詢條件
+ */
+export interface CatalogueQuery {
+  search?: string;
+  filters?: CatalogueFilters;
+  match?: FacetMatch;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 查詢參數格式錯誤（服務器返回 400）
+ */
+export class CatalogueQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogueQueryError';
+  }
+}
+
+/**
+ * 以逗號分隔的值 → 陣列（去除空白及空值）
+ */
+function splitValues(value: unknown): string[] {
+  const parts = Array.isArray(value) ? value : [value];
+  return parts
+    .flatMap((part) => (typeof part === 'string' ? part.split(',') : []))
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 解析正整數參數（省略時返回 undefined）
+ */
+function parsePositive(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const num = Number(value);
+  if (!Number.isInteger(num) || num <= 0) {
+    throw new CatalogueQueryError(`${name} 必須是正整數`);
+  }
+  return num;
+}
+
+/**
+ * 從查詢參數解析查詢條件（如 Express 的 req.query）
+ * @throws CatalogueQueryError 參數格式錯誤
+ */
+export function parseCatalogueQuery(
+  params: Record<string, unknown>
+): CatalogueQuery {
+  const query: CatalogueQuery = {};
+
+  if (typeof params.search === 'string' && params.search.trim()) {
+    query.search = params.search.trim();
+  }
+
+  CATALOGUE_FILTER_FIELDS.forEach((field) => {
+    const values = splitValues(params[field]);
+    if (values.length > 0) {
+      query.filters = { ...query.filters, [field]: values };
+    }
+  });
+
+  if (params.match !== undefined && params.match !== '') {
+    if (params.match !== 'any' && params.match !== 'all') {
+      throw new CatalogueQueryError('match 必須是 "any" 或 "all"');
+    }
+    query.match = params.match;
+  }
+
+  if (params.sort !== undefined && params.sort !== '') {
+    if (typeof params.sort !== 'string' || !/^[a-z_]+$/.test(params.sort)) {
+      throw new CatalogueQueryError(`無效的排序欄位: ${params.sort}`);
+    }
+    query.sort = params.sort;
+  }
+
+  if (params.order !== undefined && params.order !== '') {
+    if (params.order !== 'asc' && params.order !== 'desc') {
+      throw new CatalogueQueryError('order 必須是 "asc" 或 "desc"');
+    }
+    query.order = params.order;
+  }
+
+  query.page = parsePositive(params.page, 'page');
+  query.limit = parsePositive(params.limit, 'limit');
+  if (query.limit && query.limit > CATALOGUE_MAX_LIMIT) {
+    throw new CatalogueQueryError(`limit 最大為 ${CATALOGUE_MAX_LIMIT}`);
+  }
+
+  return query;
+}
+
+/**
+ * 查詢條件 → 查詢參數（客戶端請求 /api/catalogue 時使用）
+ */
+export function toCatalogueParams(query: CatalogueQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.search) params.set('search', query.search);
+  CATALOGUE_FILTER_FIELDS.forEach((field) => {
+    const values = query.filters?.[field];
+    if (values && values.length > 0) params.set(field, values.join(','));
+  });
+  if (query.match === 'all') params.set('match', 'all');
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+  if (query.page) params.set('page', String(query.page));
+  if (query.limit) params.set('limit', String(query.limit));
+
+  return params;
+}
+
+/**
+ * 讀取欄位的值（多值欄位返回陣列，單值欄位返回單元素陣列）
+ */
+function fieldValues(item: ApiResourceItem, field: string): string[] {
+  const value = item[field];
+  if (Array.isArray(value)) return value.map(String);
+  if (value === undefined || value === null || value === '') return [];
+  return [String(value)];
+}
+
+/**
+ * 項目的全文搜索文字（未經 normalize）
+ */
+export function catalogueSearchText(item: ApiResourceItem): string {
+  return SEARCH_FIELDS.flatMap((field) => fieldValues(item, field)).join(' ');
+}
+
+/**
+ * 是否符合所有篩選條件（客戶端篩選收藏列表時也使用）
+ */
+export function matchesCatalogueFilters(
+  item: ApiResourceItem,
+  filters: CatalogueFilters = {},
+  match: FacetMatch = 'any'
+): boolean {
+  return CATALOGUE_FILTER_FIELDS.every((field) => {
+    const wanted = filters[field];
+    if (!wanted || wanted.length === 0) return true;
+    const values = fieldValues(item, field);
+    return match === 'all' && MULTI_VALUE_FIELDS.includes(field)
+      ? wanted.every((value) => values.includes(value))
+      : wanted.some((value) => values.includes(value));
+  });
+}
+
+/**
+ * 全文搜索選項
+ */
+export interface CatalogueSearchOptions<T> {
+  searchText?: (item: T) => string; // 項目已 normalize 的搜索文字（服務器預先計算並緩存）
+  normalize?: (text: string) => string; // 搜索詞的 normalize 函數（須與 searchText 一致）
+}
+
+/**
+ * 全文搜索（所有搜索詞都必須出現）
+ */
+function searchCatalogue<T extends ApiResourceItem>(
+  items: T[],
+  search: string | undefined,
+  options: CatalogueSearchOptions<T>
+): T[] {
+  const normalize = options.normalize || ((text) => text.toLowerCase());
+  const searchText =
+    options.searchText || ((item: T) => normalize(catalogueSearchText(item)));
+  const terms = search ? normalize(search).split(/\s+/).filter(Boolean) : [];
+  if (terms.length === 0) return items;
+
+  return items.filter((item) => {
+    const text = searchText(item);
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+/**
+ * 分面統計：每個篩選欄位各個值的項目數量（按數量降序、值升序排列）
+ * 統計某欄位時忽略該欄位本身的任一匹配條件，顯示「加選此值後」的數量；
+ * match=all 的多值欄位則保留條件，顯示「在目前結果中再加上此值」的數量
+ * @param items 目錄中的所有項目
+ * @param query 查詢條件（忽略排序及分頁）
+ * @param options 全文搜索選項
+ */
+export function catalogueFacets<T extends ApiResourceItem>(
+  items: T[],
+  query: CatalogueQuery,
+  options: CatalogueSearchOptions<T> = {}
+): Record<FacetField, FacetCount[]> {
+  const searched = searchCatalogue(items, query.search, options);
+
+  const result = {} as Record<FacetField, FacetCount[]>;
+
+  FACET_FIELDS.forEach((field) => {
+    const keepOwn = query.match === 'all' && MULTI_VALUE_FIELDS.includes(field);
+    const filters = keepOwn ? query.filters : { ...query.filters, [field]: [] };
+    const counts = new Map<string, number>();
+
+    searched.forEach((item) => {
+      if (!matchesCatalogueFilters(item, filters, query.match)) return;
+      new Set(fieldValues(item, field)).forEach((value) => {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      });
+    });
+
+    result[field] = Array.from(counts, ([value, count]) => ({
+      value,
+      count,
+    })).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value, 'zh-Hant')
+    );
+  });
+
+  return result;
+}
+
+/**
+ * 比較兩個項目的排序欄位（規則與 sort.ts 的客戶端排序一致）
+ */
+function compareField(
+  a: ApiResourceItem,
+  b: ApiResourceItem,
+  field: string,
+  direction: number
+): number {
+  const av = Array.isArray(a[field]) ? fieldValues(a, field).join() : a[field];
+  const bv = Array.isArray(b[field]) ? fieldValues(b, field).join() : b[field];
+
+  const aMissing = av === undefined || av === null || av === '';
+  const bMissing = bv === undefined || bv === null || bv === '';
+  if (aMissing || bMissing) {
+    return Number(aMissing) - Number(bMissing);
+  }
+
+  if (typeof av === 'number' && typeof bv === 'number') {
+    return (av - bv) * direction;
+  }
+  return String(av).localeCompare(String(bv), 'zh-Hant') * direction;
+}
+
+/**
+ * 查詢目錄
+ * @param items 目錄中的所有項目（按上游順序）
+ * @param query 查詢條件
+ * @param options 全文搜索選項
+ * @returns 當前頁的項目及符合條件的總數
+ * @throws CatalogueQueryError 排序欄位不存在於任何項目
+ */
+export function queryCatalogue<T extends ApiResourceItem>(
+  items: T[],
+  query: CatalogueQuery,
+  options: CatalogueSearchOptions<T> = {}
+): { items: T[]; total: number } {
+  let result = searchCatalogue(items, query.search, options).filter((item) =>
+    matchesCatalogueFilters(item, query.filters, query.match)
+  );
+
+  const { sort } = query;
+  if (sort) {
+    if (!items.some((item) => sort in item)) {
+      throw new CatalogueQueryError(`無效的排序欄位: ${sort}`);
+    }
+    const direction = query.order === 'desc' ? -1 : 1;
+    result = [...result].sort((a, b) => compareField(a, b, sort, direction));
+  }
+
+  const page = query.page || 1;
+  const limit = query.limit || result.length;
+  const start = (page - 1) * limit;
+
+  return { items: result.slice(start, start + limit), total: result.length };
+}
@@ -0,0 +1,178 @@
+/**
+ * 執行時配置
+ * 同一份編譯結果可指向正式 API、本地模擬 API 或測試環境，無需重新編譯
+ *
+ * 伺服器端：由環境變數設定（見 server.ts）
+ * 客戶端：依次讀取預設值 → 伺服器提供的配置文件（/api/config）→ <meta> 標籤
+ */
+import { AppConfig } from './types';
+
+/**
+ * 預設配置（主題編號 9：公眾景點）
+ */
+export const DEFAULT_CONFIG: AppConfig = {
+  apiBaseUrl: 'https://dae-mobile-assignment.hkit.cc/api',
+  resourceEndpoint: '/attractions',
+  pageLimit: 20,
+  previewLimit: 3,
+  validationMode: 'lenient',
+  cacheTtl: 300,
+  cachePersistent: false,
+  zhConvertBackend: 'local',
+  devTools: false,
+};
+
+// 伺服器提供的配置文件路徑
+export const CONFIG_ENDPOINT = '/api/config';
+
+// <meta> 標籤名稱與配置欄位的對應
+const META_KEYS: Record<string, keyof AppConfig> = {
+  'api-base-url': 'apiBaseUrl',
+  'api-resource-endpoint': 'resourceEndpoint',
+  'api-page-limit': 'pageLimit',
+  'api-preview-limit': 'previewLimit',
+  'api-validation-mode': 'validationMode',
+  'api-cache-ttl': 'cacheTtl',
+  'api-cache-persistent': 'cachePersistent',
+  'zh-convert-backend': 'zhConvertBackend',
+  'dev-tools': 'devTools',
+};
+
+let currentConfig: AppConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * 解析布林值：可來自 JSON（true/false）或環境變數和 <meta> 標籤（'true'/'false'）
+ * @returns 無法解析時返回 undefined
+ */
+function parseBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * 合併部分配置（忽略空值和無效的數字）
+ */
+export function mergeConfig(
+  base: AppConfig,
+  overrides: Partial<Record<keyof AppConfig, unknown>>
+): AppConfig {
+  const merged = { ...base };
+
+  if (typeof overrides.apiBaseUrl === 'string' && overrides.apiBaseUrl) {
+    // 移除結尾的斜線，避免拼接出 //attractions
+    merged.apiBaseUrl = overrides.apiBaseUrl.replace(/\/+$/, '');
+  }
+
+  if (
+    typeof overrides.resourceEndpoint === 'string' &&
+    overrides.resourceEndpoint
+  ) {
+    const endpoint = overrides.resourceEndpoint;
+    merged.resourceEndpoint = endpoint.startsWith('/')
+      ? endpoint
+      : '/' + endpoint;
+  }
+
+  const pageLimit = Number(overrides.pageLimit);
+  if (Number.isInteger(pageLimit) && pageLimit > 0) {
+    merged.pageLimit = pageLimit;
+  }
+
+  const previewLimit = Number(overrides.previewLimit);
+  if (Number.isInteger(previewLimit) && previewLimit > 0) {
+    merged.previewLimit = previewLimit;
+  }
+
+  // strict：格式不符即報錯；lenient：修復或略過有問題的項目
+  if (
+    overrides.validationMode === 'strict' ||
+    overrides.validationMode === 'lenient'
+  ) {
+    merged.validationMode = overrides.validationMode;
+  }
+
+  // 緩存有效期可為 0（停用緩存）
+  if (overrides.cacheTtl !== undefined && overrides.cacheTtl !== '') {
+    const cacheTtl = Number(overrides.cacheTtl);
+    if (Number.isInteger(cacheTtl) && cacheTtl >= 0) {
+      merged.cacheTtl = cacheTtl;
+    }
+  }
+
+  const cachePersistent = parseBoolean(overrides.cachePersistent);
+  if (cachePersistent !== undefined) {
+    merged.cachePersistent = cachePersistent;
+  }
+
+  const devTools = parseBoolean(overrides.devTools);
+  if (devTools !== undefined) {
+    merged.devTools = devTools;
+  }
+
+  if (
+    overrides.zhConvertBackend === 'local' ||
+    overrides.zhConvertBackend === 'zhconvert'
+  ) {
+    merged.zhConvertBackend = overrides.zhConvertBackend;
+  }
+
+  return merged;
+}
+
+/**
+ * 讀取頁面上的 <meta> 配置標籤
+ * 例如：<meta name="api-base-url" content="/mock/api" />
+ */
+function readMetaConfig(): Partial<Record<keyof AppConfig, string>> {
+  const result: Partial<Record<keyof AppConfig, string>> = {};
+
+  if (typeof document === 'undefined') return result;
+
+  Object.entries(META_KEYS).forEach(([metaName, key]) => {
+    const meta = document.querySelector(`meta[name="${metaName}"]`);
+    const content = meta?.getAttribute('content')?.trim();
+    if (content) {
+      result[key] = content;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 載入客戶端配置（應用程式初始化時調用一次）
+ * 配置文件載入失敗時使用預設值，不會阻止應用程式啟動
+ */
+export async function loadConfig(): Promise<AppConfig> {
+  let config = { ...DEFAULT_CONFIG };
+
+  try {
+    const response = await fetch(CONFIG_ENDPOINT, {
+      headers: { Accept: 'application/json' },
+    });
+
+    if (response.ok) {
+      config = mergeConfig(config, await response.json());
+    } else {
+      console.warn(`⚠️ 無法載入配置文件（${response.status}），使用預設配置`);
+    }
+  } catch (error) {
+    console.warn('⚠️ 無法載入配置文件，使用預設配置:', error);
+  }
+
+  // <meta> 標籤優先於配置文件
+  config = mergeConfig(config, readMetaConfig());
+
+  currentConfig = config;
+  console.log('⚙️ 應用程式配置:', currentConfig);
+
+  return currentConfig;
+}
+
+/**
+ * 獲取當前配置
+ */
+export function getConfig(): AppConfig {
+  return currentConfig;
+}
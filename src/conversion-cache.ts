@@ -0,0 +1,243 @@
+/**
+ * 繁簡轉換結果緩存
+ * - 記憶體 LRU 緩存（最多 MAX_MEMORY_ENTRIES 項）
+ * - 持久緩存：同時寫入 IndexedDB（最多 MAX_PERSISTENT_ENTRIES 項，按最後使用時間淘汰），
+ *   重新打開頁面後不需要重新轉換
+ * - 按轉換模式分版本：轉換引擎或對照表更新後，舊版本的結果不再使用並會被清除
+ *
+ * 命中率等統計可通過 getConversionCacheStats() 查看（瀏覽器控制台：conversionCacheStats()），
+ * clearConversionCache() 清除緩存（瀏覽器控制台：clearConversionCache()）
+ */
+import { ConvertMode, tryConvertTextBatch } from './zhconvert';
+import { getConfig } from './config';
+import { openStore } from './idb';
+
+/**
+ * 緩存項目
+ */
+interface ConversionEntry {
+  key: string; // `${mode}|${version}|${text}`
+  result: string;
+  usedAt: number; // 最後使用時間（毫秒時間戳），用於 LRU 淘汰
+}
+
+/**
+ * 緩存統計
+ */
+export interface ConversionCacheStats {
+  memoryHits: number; // 記憶體命中次數
+  persistentHits: number; // IndexedDB 命中次數
+  misses: number; // 需要轉換的次數
+  hitRate: number; // 命中率（0～1）
+  memoryEntries: number; // 記憶體中的項目數
+}
+
+// 轉換結果格式的版本（轉換規則改變時遞增，使所有舊結果失效）
+const CONVERSION_CACHE_VERSION = 1;
+
+const MAX_MEMORY_ENTRIES = 2000;
+const MAX_PERSISTENT_ENTRIES = 5000;
+
+const memory = new Map<string, string>();
+const stats = { memoryHits: 0, persistentHits: 0, misses: 0 };
+
+// 已清除過舊版本的轉換模式（每次打開頁面只清除一次）
+const purgedModes = new Set<ConvertMode>();
+
+const db = openStore('conversion-cache', 1, 'entries', (database) => {
+  const store = database.createObjectStore('entries', { keyPath: 'key' });
+  store.createIndex('usedAt', 'usedAt');
+});
+
+/**
+ * 轉換模式的當前版本（包含轉換引擎，本地和繁化姬的結果分開緩存）
+ */
+function versionOf(mode: ConvertMode): string {
+  return `${mode}|${getConfig().zhConvertBackend}-v${CONVERSION_CACHE_VERSION}`;
+}
+
+/**
+ * 寫入記憶體緩存（最近使用的項目移到最後）
+ */
+function remember(key: string, result: string): void {
+  memory.delete(key);
+  memory.set(key, result);
+
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) break;
+    memory.delete(oldest);
+  }
+}
+
+// ==================== 持久緩存 ====================
+
+/**
+ * 清除轉換模式的舊版本結果
+ */
+async function purgeStaleVersions(mode: ConvertMode): Promise<void> {
+  if (purgedModes.has(mode)) return;
+  purgedModes.add(mode);
+
+  const current = `${versionOf(mode)}|`;
+  const keys = await db.run('readonly', (store) =>
+    store.getAllKeys(IDBKeyRange.bound(`${mode}|`, `${mode}|\uffff`))
+  );
+  const stale = (keys || []).filter(
+    (key) => typeof key === 'string' && !key.startsWith(current)
+  );
+
+  for (const key of stale) {
+    await db.run('readwrite', (store) => store.delete(key));
+  }
+
+  if (stale.length > 0) {
+    console.log(`🗑️ 已清除 ${stale.length} 個舊版本的繁簡轉換緩存（${mode}）`);
+  }
+}
+
+/**
+ * 從 IndexedDB 讀取多個項目（不存在的項目為 undefined）
+ */
+async function readPersistent(
+  keys: string[]
+): Promise<(ConversionEntry | undefined)[]> {
+  return Promise.all(
+    keys.map((key) =>
+      db.run<ConversionEntry | undefined>('readonly', (store) => store.get(key))
+    )
+  );
+}
+
+/**
+ * 寫入 IndexedDB（命中的項目也重新寫入，更新最後使用時間）
+ */
+async function writePersistent(entries: ConversionEntry[]): Promise<void> {
+  for (const entry of entries) {
+    await db.run('readwrite', (store) => store.put(entry));
+  }
+  await trimPersistent();
+}
+
+/**
+ * 刪除超出數量上限的最久未使用項目
+ */
+async function trimPersistent(): Promise<void> {
+  const count = await db.run('readonly', (store) => store.count());
+  if (!count || count <= MAX_PERSISTENT_ENTRIES) return;
+
+  const keys = await db.run('readonly', (store) =>
+    store.index('usedAt').getAllKeys(null, count - MAX_PERSISTENT_ENTRIES)
+  );
+  for (const key of keys || []) {
+    await db.run('readwrite', (store) => store.delete(key));
+  }
+}
+
+// ==================== 公開接口 ====================
+
+/**
+ * 帶緩存的批量轉換（先查記憶體，再查 IndexedDB，剩餘的文字一次轉換）
+ * @returns 轉換後的文字陣列（與輸入順序一致，空白文字返回空字串）
+ */
+export async function convertCached(
+  texts: string[],
+  mode: ConvertMode
+): Promise<string[]> {
+  const prefix = `${versionOf(mode)}|`;
+  const results = new Map<string, string>();
+  const unique = Array.from(new Set(texts.filter((text) => text)));
+
+  // 1. 記憶體緩存
+  let missing: string[] = [];
+  unique.forEach((text) => {
+    const result = memory.get(prefix + text);
+    if (result !== undefined) {
+      remember(prefix + text, result);
+      results.set(text, result);
+      stats.memoryHits++;
+    } else {
+      missing.push(text);
+    }
+  });
+
+  const touched: ConversionEntry[] = [];
+
+  // 2. 持久緩存
+  if (missing.length > 0) {
+    try {
+      await purgeStaleVersions(mode);
+      const stored = await readPersistent(missing.map((text) => prefix + text));
+      missing = missing.filter((text, index) => {
+        const entry = stored[index];
+        if (!entry) return true;
+
+        remember(entry.key, entry.result);
+        results.set(text, entry.result);
+        touched.push({ ...entry, usedAt: Date.now() });
+        stats.persistentHits++;
+        return false;
+      });
+    } catch (error) {
+      console.warn('⚠️ 讀取繁簡轉換緩存失敗:', error);
+    }
+  }
+
+  // 3. 轉換剩餘的文字（轉換失敗時使用原文，但不寫入緩存）
+  if (missing.length > 0) {
+    stats.misses += missing.length;
+    const converted = await tryConvertTextBatch(missing, mode);
+    missing.forEach((text, index) => {
+      if (!converted) {
+        results.set(text, text);
+        return;
+      }
+
+      results.set(text, converted[index]);
+      remember(prefix + text, converted[index]);
+      touched.push({
+        key: prefix + text,
+        result: converted[index],
+        usedAt: Date.now(),
+      });
+    });
+  }
+
+  if (touched.length > 0) {
+    writePersistent(touched).catch((error) =>
+      console.warn('⚠️ 寫入繁簡轉換緩存失敗:', error)
+    );
+  }
+
+  return texts.map((text) => (text ? results.get(text)! : ''));
+}
+
+/**
+ * 獲取緩存統計
+ */
+export function getConversionCacheStats(): ConversionCacheStats {
+  const hits = stats.memoryHits + stats.persistentHits;
+  const total = hits + stats.misses;
+
+  return {
+    ...stats,
+    hitRate: total === 0 ? 0 : hits / total,
+    memoryEntries: memory.size,
+  };
+}
+
+/**
+ * 清除所有轉換緩存並重設統計
+ */
+export async function clearConversionCache(): Promise<void> {
+  memory.clear();
+  stats.memoryHits = 0;
+  stats.persistentHits = 0;
+  stats.misses = 0;
+
+  try {
+    await db.run('readwrite', (store) => store.clear());
+  } catch (error) {
+    console.warn('⚠️ 清除繁簡轉換緩存失敗:', error);
+  }
+}
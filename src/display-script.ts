@@ -0,0 +1,288 @@
+/**
+ * 顯示文字設定（原文 / 繁體 / 香港 / 台灣 / 简体）
+ * 選擇轉換模式後，頁面上所有中文文字（景點標題、描述、分類及介面文字）
+ * 經由 zhconvert.ts 即時轉換並顯示；資料本身（搜索、收藏等）仍使用原文
+ *
+ * - 文字節點及 placeholder / label 等屬性在轉換前保存原文，切換回原文時還原
+ * - 以 MutationObserver 轉換之後新增或更新的內容（如列表重新渲染）
+ * - 轉換結果經 conversion-cache.ts 緩存；轉換失敗時顯示原文
+ * - 不在 DOM 中的文字（toast 訊息、圖表標籤）使用 displayText() / displayTexts() 轉換
+ * - 加上 data-no-convert 屬性的元素（如使用者名稱）不轉換
+ *
+ * 設定按使用者保存於 localStorage，切換時觸發 window 的 'display-script-change' 事件
+ */
+import { ConvertMode } from './zhconvert';
+import { convertCached } from './conversion-cache';
+import { getCurrentUserId } from './api';
+
+/**
+ * 顯示文字：Original 為不轉換
+ */
+export type DisplayScript = 'Original' | ConvertMode;
+
+/**
+ * 顯示文字選項
+ */
+export const DISPLAY_SCRIPTS: { value: DisplayScript; label: string }[] = [
+  { value: 'Original', label: '原文' },
+  { value: 'Traditional', label: '繁體' },
+  { value: 'Hongkong', label: '香港' },
+  { value: 'Taiwan', label: '台灣' },
+  { value: 'China', label: '简体' },
+];
+
+// 需要轉換的屬性（Ionic 元件的標籤和提示文字在 Shadow DOM 中顯示，只能經由屬性轉換）
+const CONVERTED_ATTRIBUTES = ['placeholder', 'label', 'title', 'aria-label'];
+
+// 不轉換內容的元素
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEXTAREA', 'CODE', 'PRE']);
+
+// 包含中文字的文字才需要轉換
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/**
+ * 轉換記錄：原文及最後寫入的轉換結果
+ */
+interface ConversionRecord {
+  original: string;
+  converted: string;
+}
+
+/**
+ * 可轉換的文字（文字節點或元素屬性）
+ */
+interface TextTarget {
+  original: string;
+  write(converted: string): void; // 收集後內容已被修改時不寫入
+}
+
+let currentScript: DisplayScript = 'Original';
+let observer: MutationObserver | null = null;
+let pendingNodes = new Set<Node>();
+let flushScheduled = false;
+
+const textRecords = new WeakMap<Text, ConversionRecord>();
+const attributeRecords = new WeakMap<Element, Map<string, ConversionRecord>>();
+
+/**
+ * 是否為有效的顯示文字
+ */
+export function isDisplayScript(value: unknown): value is DisplayScript {
+  return DISPLAY_SCRIPTS.some((script) => script.value === value);
+}
+
+/**
+ * 當前使用者的設定鍵（未登入時使用 guest）
+ */
+function storageKey(): string {
+  return `display_script:${getCurrentUserId() ?? 'guest'}`;
+}
+
+/**
+ * 獲取當前顯示文字
+ */
+export function getDisplayScript(): DisplayScript {
+  return currentScript;
+}
+
+// ==================== 文字轉換 ====================
+
+/**
+ * 將多個文字轉換為當前顯示文字（轉換失敗時返回原文）
+ */
+export async function displayTexts(texts: string[]): Promise<string[]> {
+  if (currentScript === 'Original') return texts;
+
+  try {
+    return await convertCached(texts, currentScript);
+  } catch (error) {
+    console.warn('⚠️ 顯示文字轉換失敗，使用原文:', error);
+    return texts;
+  }
+}
+
+/**
+ * 將文字轉換為當前顯示文字（用於 toast 訊息、圖表等不在 DOM 中的文字）
+ */
+export async function displayText(text: string): Promise<string> {
+  const [converted] = await displayTexts([text]);
+  return converted;
+}
+
+// ==================== DOM 轉換 ====================
+
+/**
+ * 取得文字節點的原文（節點內容已被應用程式更新時，新內容即為原文）
+ */
+function originalOf(record: ConversionRecord | undefined, value: string) {
+  return record && record.converted === value ? record.original : value;
+}
+
+/**
+ * 收集節點（及其子孫）中需要轉換的文字
+ */
+function collectTargets(root: Node, targets: TextTarget[]): void {
+  if (root.nodeType === Node.TEXT_NODE) {
+    const node = root as Text;
+    const parent = node.parentElement;
+    if (
+      parent &&
+      (SKIPPED_TAGS.has(parent.tagName) || parent.closest('[data-no-convert]'))
+    ) {
+      return;
+    }
+
+    const value = node.nodeValue || '';
+    const original = originalOf(textRecords.get(node), value);
+    if (!CJK_PATTERN.test(original)) return;
+
+    targets.push({
+      original,
+      write(converted) {
+        if (node.nodeValue !== value) return;
+        textRecords.set(node, { original, converted });
+        if (value !== converted) node.nodeValue = converted;
+      },
+    });
+    return;
+  }
+
+  if (root.nodeType !== Node.ELEMENT_NODE) return;
+
+  const element = root as Element;
+  if (
+    SKIPPED_TAGS.has(element.tagName) ||
+    element.closest('[data-no-convert]')
+  ) {
+    return;
+  }
+
+  CONVERTED_ATTRIBUTES.forEach((name) => {
+    const value = element.getAttribute(name);
+    if (value === null) return;
+
+    let records = attributeRecords.get(element);
+    const original = originalOf(records?.get(name), value);
+    if (!CJK_PATTERN.test(original)) return;
+
+    targets.push({
+      original,
+      write(converted) {
+        if (element.getAttribute(name) !== value) return;
+        if (!records) {
+          records = new Map();
+          attributeRecords.set(element, records);
+        }
+        records.set(name, { original, converted });
+        if (value !== converted) element.setAttribute(name, converted);
+      },
+    });
+  });
+
+  element.childNodes.forEach((child) => collectTargets(child, targets));
+}
+
+/**
+ * 轉換節點中的文字
+ * 轉換期間文字被應用程式更新或顯示文字已切換時不寫入（稍後會重新處理）
+ */
+async function convertNodes(nodes: Node[]): Promise<void> {
+  const targets: TextTarget[] = [];
+  nodes.forEach((node) => {
+    if (node.isConnected) collectTargets(node, targets);
+  });
+  if (targets.length === 0) return;
+
+  const script = currentScript;
+  const converted = await displayTexts(
+    targets.map((target) => target.original)
+  );
+  if (script !== currentScript) return;
+
+  targets.forEach((target, index) => target.write(converted[index]));
+}
+
+/**
+ * 批量處理 MutationObserver 記錄的節點
+ */
+function scheduleFlush(): void {
+  if (flushScheduled) return;
+  flushScheduled = true;
+
+  setTimeout(() => {
+    flushScheduled = false;
+    const nodes = Array.from(pendingNodes);
+    pendingNodes = new Set();
+    convertNodes(nodes).catch((error) => {
+      console.warn('⚠️ 轉換頁面文字失敗:', error);
+    });
+  }, 0);
+}
+
+/**
+ * 開始監聽頁面變化（顯示原文時停止）
+ */
+function updateObserver(): void {
+  if (currentScript === 'Original') {
+    observer?.disconnect();
+    observer = null;
+    return;
+  }
+
+  if (observer || typeof MutationObserver === 'undefined') return;
+
+  observer = new MutationObserver((mutations) => {
+    mutations.forEach((mutation) => {
+      if (mutation.type === 'childList') {
+        mutation.addedNodes.forEach((node) => pendingNodes.add(node));
+      } else {
+        pendingNodes.add(mutation.target);
+      }
+    });
+    scheduleFlush();
+  });
+
+  observer.observe(document.body, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: CONVERTED_ATTRIBUTES,
+  });
+}
+
+// ==================== 設定 ====================
+
+/**
+ * 切換顯示文字並轉換整個頁面
+ * @param persist 是否保存為當前使用者的設定
+ */
+export async function setDisplayScript(
+  script: DisplayScript,
+  persist = true
+): Promise<void> {
+  if (persist) {
+    localStorage.setItem(storageKey(), script);
+  }
+
+  if (script === currentScript) return;
+
+  console.log(`🈶 切換顯示文字: ${currentScript} → ${script}`);
+  currentScript = script;
+  updateObserver();
+
+  // 切換回原文時 displayTexts 直接返回原文，等同還原
+  await convertNodes([document.body]);
+
+  window.dispatchEvent(
+    new CustomEvent('display-script-change', { detail: { script } })
+  );
+}
+
+/**
+ * 套用當前使用者保存的顯示文字（初始化、登入及登出後調用）
+ */
+export async function restoreDisplayScript(): Promise<void> {
+  const stored = localStorage.getItem(storageKey());
+  await setDisplayScript(isDisplayScript(stored) ? stored : 'Original', false);
+}
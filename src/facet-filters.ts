@@ -0,0 +1,431 @@
+/**
+ * 分面篩選（城市、國家、標籤及設施）
+ * - 篩選面板列出各欄位的值及符合當前條件的項目數量（由服務器的 /api/catalogue/facets 統計）
+ * - 可選擇多個值；標籤及設施可切換「符合任一」（OR）或「符合全部」（AND），見 catalogue.ts
+ * - 已選擇的值以可移除的標籤（chip）顯示在清單上方
+ * - 篩選條件保存在 store.ts 的 facets，並同步到網址的查詢參數（如 ?city=北京市&tags=世界遺產,博物館&match=all），可分享或重新整理
+ *
+ * 篩選條件變化時觸發 window 的 'facet-change' 事件，由 main.ts 重新載入清單
+ */
+import {
+  CatalogueFilters,
+  CatalogueQuery,
+  FACET_FIELDS,
+  FacetField,
+  FacetMatch,
+} from './catalogue';
+import { FacetCount } from './types';
+import { t } from './i18n';
+import { AppState, dispatch, getState, getViewState, subscribe } from './store';
+
+/**
+ * 各欄位的分面統計
+ */
+export type FacetCounts = Record<FacetField, FacetCount[]>;
+
+/**
+ * 載入分面統計的函數（由 main.ts 提供，按當前搜索條件查詢）
+ */
+export type FacetCountLoader = (
+  query: Pick<CatalogueQuery, 'filters' | 'match'>
+) => Promise<FacetCounts>;
+
+// 每個欄位預設顯示的值數量（其餘值點擊「顯示全部」後顯示）
+const VISIBLE_VALUES = 12;
+
+// 篩選條件保存在 store，此模組只保存面板本身的狀態
+let counts: FacetCounts | null = null;
+let countsFailed = false;
+let countLoader: FacetCountLoader | null = null;
+let countGeneration = 0;
+let panelOpen = false;
+const expandedFields = new Set<FacetField>();
+
+// ==================== 篩選條件 ====================
+
+/**
+ * 某欄位已選擇的值
+ */
+function selectedValues(
+  facets: AppState['facets'],
+  field: FacetField
+): string[] {
+  return facets.filters[field] || [];
+}
+
+/**
+ * 是否有已選擇的篩選值
+ */
+export function hasActiveFacets(): boolean {
+  const { facets } = getState();
+  return FACET_FIELDS.some((field) => selectedValues(facets, field).length > 0);
+}
+
+/**
+ * 當前篩選條件（用於 /api/catalogue 查詢）
+ */
+export function getFacetQuery(): AppState['facets'] {
+  return getState().facets;
+}
+
+/**
+ * 更新 store 中的篩選條件（省略沒有選擇值的欄位）
+ * 訂閱的篩選面板及已選擇的值隨之重新渲染
+ */
+function setFacets(selected: CatalogueFilters, match: FacetMatch): void {
+  const filters: CatalogueFilters = {};
+  FACET_FIELDS.forEach((field) => {
+    const values = selected[field];
+    if (values && values.length > 0) filters[field] = values;
+  });
+  dispatch({ type: 'facets/changed', facets: { filters, match } });
+}
+
+/**
+ * 篩選條件變化：更新網址及分面統計，並通知 main.ts
+ */
+function notifyChange(): void {
+  syncFacetUrl();
+  refreshFacetCounts();
+
+  window.dispatchEvent(
+    new CustomEvent('facet-change', { detail: getFacetQuery() })
+  );
+}
+
+/**
+ * 選擇或取消選擇一個值
+ */
+function toggleFacetValue(field: FacetField, value: string): void {
+  const { facets } = getState();
+  const values = selectedValues(facets, field);
+  setFacets(
+    {
+      ...facets.filters,
+      [field]: values.includes(value)
+        ? values.filter((item) => item !== value)
+        : [...values, value],
+    },
+    facets.match
+  );
+  notifyChange();
+}
+
+/**
+ * 清除所有篩選條件
+ * @param notify 是否觸發 'facet-change' 事件（切換主題時由調用者負責重新載入）
+ */
+export function clearFacets(notify = true): void {
+  if (!hasActiveFacets()) return;
+
+  setFacets({}, getState().facets.match);
+  if (notify) {
+    notifyChange();
+  } else {
+    syncFacetUrl();
+  }
+}
+
+// ==================== 網址 ====================
+
+/**
+ * 從網址的查詢參數讀取篩選條件並寫入 store
+ */
+function readFacetsFromUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+
+  const selected: CatalogueFilters = {};
+  FACET_FIELDS.forEach((field) => {
+    const values = (params.get(field) || '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    selected[field] = Array.from(new Set(values));
+  });
+  setFacets(selected, params.get('match') === 'all' ? 'all' : 'any');
+}
+
+/**
+ * 將篩選條件寫入當前網址（取代當前歷史記錄，保留其他查詢參數）
+ * 路由切換回清單頁時也需調用，因為導航會清除查詢參數
+ */
+export function syncFacetUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+  const { facets } = getState();
+
+  FACET_FIELDS.forEach((field) => {
+    const values = selectedValues(facets, field);
+    if (values.length > 0) {
+      params.set(field, values.join(','));
+    } else {
+      params.delete(field);
+    }
+  });
+  if (facets.match === 'all' && hasActiveFacets()) {
+    params.set('match', 'all');
+  } else {
+    params.delete('match');
+  }
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  if (
+    url !==
+    `${window.location.pathname}${window.location.search}${window.location.hash}`
+  ) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
+// ==================== 分面統計 ====================
+
+/**
+ * 重新載入分面統計（面板關閉時不載入，打開時再載入）
+ * 由 main.ts 在搜索條件變化時調用
+ */
+export async function refreshFacetCounts(): Promise<void> {
+  if (!panelOpen || !countLoader) return;
+
+  const generation = ++countGeneration;
+  try {
+    const result = await countLoader(getFacetQuery());
+    if (generation !== countGeneration) return; // 已被新的請求取代
+    counts = result;
+    countsFailed = false;
+  } catch (error) {
+    if (generation !== countGeneration) return;
+    console.warn('⚠️ 載入分面統計失敗:', error);
+    counts = null;
+    countsFailed = true;
+  }
+  renderFacetPanel();
+}
+
+/**
+ * 某欄位要顯示的值：統計結果加上已選擇但數量為 0 的值（讓使用者可以取消選擇）
+ */
+function facetValues(field: FacetField): FacetCount[] {
+  const values = counts ? [...counts[field]] : [];
+  selectedValues(getViewState().facets, field).forEach((value) => {
+    if (!values.some((item) => item.value === value)) {
+      values.push({ value, count: 0 });
+    }
+  });
+  return values;
+}
+
+// ==================== 畫面 ====================
+
+/**
+ * 建立值的標籤（chip）
+ */
+function createChip(
+  label: string,
+  options: { selected?: boolean; removable?: boolean } = {}
+): HTMLElement {
+  const chip = document.createElement('ion-chip');
+  if (options.selected) {
+    chip.setAttribute('color', 'primary');
+    chip.classList.add('color-primary');
+  } else {
+    chip.setAttribute('outline', 'true');
+  }
+
+  const text = document.createElement('ion-label');
+  text.textContent = label;
+  chip.appendChild(text);
+
+  if (options.removable) {
+    const icon = document.createElement('ion-icon');
+    icon.setAttribute('name', 'close-circle');
+    chip.appendChild(icon);
+  }
+
+  return chip;
+}
+
+/**
+ * 渲染篩選面板（各欄位的值及數量、匹配方式）
+ */
+function renderFacetPanel(): void {
+  const panel = document.getElementById('facetPanel');
+  if (!panel) return;
+
+  panel.hidden = !panelOpen;
+  if (!panelOpen) return;
+
+  panel.replaceChildren();
+  const { facets } = getViewState();
+
+  if (!counts) {
+    const loading = document.createElement('p');
+    loading.className = 'facet-empty';
+    loading.textContent = t(
+      countsFailed ? 'facets.loadFailed' : 'common.loading'
+    );
+    panel.appendChild(loading);
+    return;
+  }
+
+  // 匹配方式（只影響標籤及設施）
+  const matchRow = document.createElement('div');
+  matchRow.className = 'facet-match';
+  (['any', 'all'] as FacetMatch[]).forEach((value) => {
+    const chip = createChip(
+      t(value === 'all' ? 'facets.matchAll' : 'facets.matchAny'),
+      { selected: facets.match === value }
+    );
+    chip.addEventListener('click', () => {
+      const current = getState().facets;
+      if (current.match === value) return;
+      setFacets(current.filters, value);
+      notifyChange();
+    });
+    matchRow.appendChild(chip);
+  });
+  panel.appendChild(matchRow);
+
+  FACET_FIELDS.forEach((field) => {
+    const values = facetValues(field);
+    if (values.length === 0) return;
+
+    const section = document.createElement('section');
+    section.className = 'facet-section';
+
+    const heading = document.createElement('h3');
+    heading.textContent = t(`facets.${field}`);
+    section.appendChild(heading);
+
+    const expanded = expandedFields.has(field);
+    const chosen = selectedValues(facets, field);
+    values
+      .filter(
+        (item, index) =>
+          expanded || index < VISIBLE_VALUES || chosen.includes(item.value)
+      )
+      .forEach((item) => {
+        const chip = createChip(
+          t('facets.valueCount', { value: item.value, count: item.count }),
+          { selected: chosen.includes(item.value) }
+        );
+        chip.addEventListener('click', () =>
+          toggleFacetValue(field, item.value)
+        );
+        section.appendChild(chip);
+      });
+
+    if (values.length > VISIBLE_VALUES) {
+      const more = document.createElement('ion-button');
+      more.setAttribute('fill', 'clear');
+      more.setAttribute('size', 'small');
+      more.textContent = expanded
+        ? t('facets.showLess')
+        : t('facets.showAll', { count: values.length });
+      more.addEventListener('click', () => {
+        if (expanded) {
+          expandedFields.delete(field);
+        } else {
+          expandedFields.add(field);
+        }
+        renderFacetPanel();
+      });
+      section.appendChild(more);
+    }
+
+    panel.appendChild(section);
+  });
+
+  if (!panel.querySelector('.facet-section')) {
+    const empty = document.createElement('p');
+    empty.className = 'facet-empty';
+    empty.textContent = t('facets.empty');
+    panel.appendChild(empty);
+  }
+}
+
+/**
+ * 渲染已選擇的篩選值（可移除的標籤）及面板按鈕上的數量
+ */
+function renderFacetChips(): void {
+  const container = document.getElementById('facetChips');
+  const badge = document.getElementById('facetBadge');
+  const { facets } = getViewState();
+  const active = FACET_FIELDS.flatMap((field) =>
+    selectedValues(facets, field).map((value) => ({ field, value }))
+  );
+
+  if (badge) {
+    badge.textContent = String(active.length);
+    badge.hidden = active.length === 0;
+  }
+  if (!container) return;
+
+  container.hidden = active.length === 0;
+  container.replaceChildren();
+
+  active.forEach(({ field, value }) => {
+    const chip = createChip(`${t(`facets.${field}`)}：${value}`, {
+      selected: true,
+      removable: true,
+    });
+    chip.setAttribute('aria-label', t('facets.remove', { value }));
+    chip.addEventListener('click', () => toggleFacetValue(field, value));
+    container.appendChild(chip);
+  });
+
+  if (active.length > 1) {
+    const clear = createChip(t('facets.clear'));
+    clear.addEventListener('click', () => clearFacets());
+    container.appendChild(clear);
+  }
+}
+
+/**
+ * 重新渲染篩選面板及已選擇的值（切換語言時也需調用）
+ */
+export function renderFacetControls(): void {
+  renderFacetPanel();
+  renderFacetChips();
+}
+
+/**
+ * 打開或關閉篩選面板
+ */
+function toggleFacetPanel(): void {
+  panelOpen = !panelOpen;
+  document
+    .getElementById('facetToggleBtn')
+    ?.setAttribute('aria-expanded', String(panelOpen));
+
+  renderFacetPanel();
+  refreshFacetCounts();
+}
+
+/**
+ * 初始化分面篩選（從網址恢復篩選條件，綁定面板按鈕）
+ * @param loader 載入分面統計的函數
+ */
+export function initFacetFilters(loader: FacetCountLoader): void {
+  countLoader = loader;
+  subscribe((state) => state.facets, renderFacetControls);
+  readFacetsFromUrl();
+
+  document
+    .getElementById('facetToggleBtn')
+    ?.addEventListener('click', toggleFacetPanel);
+
+  // 瀏覽器上一頁/下一頁回到清單頁：網址中的篩選條件可能已改變（詳細頁的網址不含篩選條件）
+  window.addEventListener('popstate', () => {
+    if (window.location.pathname !== '/') return;
+    const before = JSON.stringify(getState().facets);
+    readFacetsFromUrl();
+    if (JSON.stringify(getState().facets) !== before) {
+      notifyChange();
+    }
+  });
+
+  if (hasActiveFacets()) {
+    console.log('🏷️ 從網址恢復篩選條件:', getFacetQuery());
+  }
+  renderFacetControls();
+}
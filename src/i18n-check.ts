@@ -0,0 +1,27 @@
+/**
+ * 訊息目錄檢查（npm run check:i18n）
+ * 列出每個語言缺少的鍵、多餘的鍵及參數與 zh-HK 不一致的鍵，有問題時以非零狀態結束
+ */
+import { checkCatalogs, DEFAULT_LOCALE } from './i18n';
+
+let problems = 0;
+
+Object.entries(checkCatalogs()).forEach(([locale, result]) => {
+  const count =
+    result.missing.length + result.extra.length + result.mismatched.length;
+  problems += count;
+
+  if (count === 0) {
+    console.log(`✅ ${locale}: 訊息完整`);
+    return;
+  }
+
+  console.error(`❌ ${locale}: ${count} 個問題`);
+  result.missing.forEach((key) => console.error(`   缺少: ${key}`));
+  result.extra.forEach((key) =>
+    console.error(`   多餘（${DEFAULT_LOCALE} 沒有此鍵）: ${key}`)
+  );
+  result.mismatched.forEach((key) => console.error(`   參數不一致: ${key}`));
+});
+
+process.exit(problems > 0 ? 1 : 0);
@@ -0,0 +1,353 @@
+/**
+ * 介面文字國際化
+ * - 訊息目錄：src/locales/ 下每個語言一個文件，zh-HK 為參考語言（包含所有訊息鍵）
+ * - 訊息格式（ICU 子集）：
+ *   - 插值：'歡迎回來，{name}！'
+ *   - 複數：'{count, plural, =0 {沒有景點} one {# attraction} other {# attractions}}'，# 為格式化後的數字
+ *   - 選擇：'{mode, select, login {登入} other {註冊}}'
+ * - 語言偵測：localStorage 保存的設定 → 瀏覽器語言 → zh-HK
+ * - 靜態 HTML 以 data-i18n（文字）及 data-i18n-<屬性名稱>（如 data-i18n-placeholder）標記訊息鍵
+ *
+ * 切換語言時觸發 window 的 'locale-change' 事件；景點資料本身不翻譯
+ */
+import zhHK, { MessageKey } from './locales/zh-HK';
+import en from './locales/en';
+
+export type { MessageKey } from './locales/zh-HK';
+
+/**
+ * 支援的語言
+ */
+export type Locale = 'zh-HK' | 'en';
+
+/**
+ * 訊息目錄（每個語言必須包含參考語言的所有訊息鍵）
+ */
+export type MessageCatalog = Record<MessageKey, string>;
+
+/**
+ * 插值參數
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 語言選項（名稱以該語言顯示，不隨介面語言變化）
+ */
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'zh-HK', label: '繁體中文' },
+  { value: 'en', label: 'English' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'zh-HK';
+
+const CATALOGS: Record<Locale, MessageCatalog> = { 'zh-HK': zhHK, en };
+
+// 需要翻譯的屬性（對應 data-i18n-<屬性名稱>）
+const TRANSLATED_ATTRIBUTES = [
+  'placeholder',
+  'label',
+  'title',
+  'aria-label',
+  'loading-text',
+];
+
+const STORAGE_KEY = 'locale';
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * 是否為支援的語言
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.value === value);
+}
+
+/**
+ * 獲取當前語言
+ */
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * 偵測語言：已保存的設定 → 瀏覽器語言（en-* → en，zh-* → zh-HK）→ 預設語言
+ */
+export function detectLocale(): Locale {
+  const stored =
+    typeof localStorage !== 'undefined'
+      ? localStorage.getItem(STORAGE_KEY)
+      : null;
+  if (isLocale(stored)) return stored;
+
+  const languages =
+    typeof navigator !== 'undefined'
+      ? navigator.languages || [navigator.language]
+      : [];
+  for (const language of languages) {
+    const lower = (language || '').toLowerCase();
+    if (lower.startsWith('zh')) return 'zh-HK';
+    if (lower.startsWith('en')) return 'en';
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+// ==================== 訊息格式 ====================
+
+/**
+ * 找出與 start 位置的 '{' 配對的 '}'
+ */
+function findClosingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    if (message[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`訊息格式錯誤（括號不配對）: ${message}`);
+}
+
+/**
+ * 解析複數或選擇的選項：'=0 {...} one {...} other {...}'
+ */
+function parseOptions(source: string): Map<string, string> {
+  const options = new Map<string, string>();
+  let i = 0;
+
+  while (i < source.length) {
+    const open = source.indexOf('{', i);
+    if (open === -1) break;
+
+    const selector = source.slice(i, open).trim();
+    const close = findClosingBrace(source, open);
+    options.set(selector, source.slice(open + 1, close));
+    i = close + 1;
+  }
+
+  return options;
+}
+
+/**
+ * 將第一層的 # 替換為數字（巢狀參數中的 # 不替換）
+ */
+function replaceHash(message: string, value: string): string {
+  let result = '';
+  let depth = 0;
+  for (const char of message) {
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    result += char === '#' && depth === 0 ? value : char;
+  }
+  return result;
+}
+
+/**
+ * 格式化一個參數：{name}、{name, plural, ...} 或 {name, select, ...}
+ */
+function formatArgument(
+  source: string,
+  params: MessageParams,
+  locale: Locale
+): string {
+  const firstComma = source.indexOf(',');
+  const name = (
+    firstComma === -1 ? source : source.slice(0, firstComma)
+  ).trim();
+  const value = params[name];
+
+  if (firstComma === -1) {
+    return value === undefined ? `{${name}}` : String(value);
+  }
+
+  const secondComma = source.indexOf(',', firstComma + 1);
+  const type = source.slice(firstComma + 1, secondComma).trim();
+  const options = parseOptions(source.slice(secondComma + 1));
+
+  if (type === 'plural') {
+    const count = Number(value);
+    const category = new Intl.PluralRules(locale).select(count);
+    const selected =
+      options.get(`=${count}`) ?? options.get(category) ?? options.get('other');
+    if (selected === undefined) return '';
+
+    const formatted = new Intl.NumberFormat(locale).format(count);
+    return formatMessage(replaceHash(selected, formatted), params, locale);
+  }
+
+  if (type === 'select') {
+    const selected = options.get(String(value)) ?? options.get('other');
+    return selected === undefined
+      ? ''
+      : formatMessage(selected, params, locale);
+  }
+
+  throw new Error(`不支援的訊息參數類型: ${type}`);
+}
+
+/**
+ * 格式化訊息（插值、複數及選擇）
+ */
+export function formatMessage(
+  message: string,
+  params: MessageParams = {},
+  locale: Locale = currentLocale
+): string {
+  let result = '';
+  let i = 0;
+
+  while (i < message.length) {
+    if (message[i] === '{') {
+      const close = findClosingBrace(message, i);
+      result += formatArgument(message.slice(i + 1, close), params, locale);
+      i = close + 1;
+    } else {
+      result += message[i];
+      i++;
+    }
+  }
+
+  return result;
+}
+
+// ==================== 翻譯 ====================
+
+/**
+ * 是否存在訊息鍵（用於動態組合的鍵，如 topic.9.name）
+ */
+export function hasMessage(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(CATALOGS[DEFAULT_LOCALE], key);
+}
+
+/**
+ * 翻譯訊息（當前語言缺少時使用參考語言，都缺少時返回訊息鍵）
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const message = CATALOGS[currentLocale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  if (message === undefined) {
+    console.warn(`⚠️ 缺少訊息: ${key}`);
+    return key;
+  }
+
+  try {
+    return formatMessage(message, params);
+  } catch (error) {
+    console.error(`❌ 訊息格式錯誤（${key}）:`, error);
+    return message;
+  }
+}
+
+/**
+ * 翻譯靜態 HTML 中標記了 data-i18n 的元素
+ */
+export function applyTranslations(root: ParentNode = document): void {
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach((element) => {
+    const key = element.dataset.i18n;
+    if (key && hasMessage(key)) {
+      element.textContent = t(key);
+    }
+  });
+
+  TRANSLATED_ATTRIBUTES.forEach((attribute) => {
+    root
+      .querySelectorAll<HTMLElement>(`[data-i18n-${attribute}]`)
+      .forEach((element) => {
+        const key = element.getAttribute(`data-i18n-${attribute}`);
+        if (key && hasMessage(key)) {
+          element.setAttribute(attribute, t(key));
+        }
+      });
+  });
+}
+
+/**
+ * 切換語言（保存設定、翻譯頁面並通知其他模組重新渲染）
+ */
+export function setLocale(locale: Locale, persist = true): void {
+  if (persist) {
+    localStorage.setItem(STORAGE_KEY, locale);
+  }
+
+  currentLocale = locale;
+  document.documentElement.lang = locale;
+  applyTranslations();
+
+  window.dispatchEvent(
+    new CustomEvent('locale-change', { detail: { locale } })
+  );
+}
+
+/**
+ * 初始化語言（偵測語言並翻譯靜態 HTML）
+ */
+export function initI18n(): Locale {
+  const locale = detectLocale();
+  console.log(`🌐 介面語言: ${locale}`);
+  setLocale(locale, false);
+  return locale;
+}
+
+// ==================== 檢查 ====================
+
+/**
+ * 找出訊息中的參數名稱（包括複數及選擇選項中的參數，用於檢查翻譯是否使用了相同的參數）
+ */
+function argumentNames(message: string, names = new Set<string>()): string[] {
+  let i = message.indexOf('{');
+
+  while (i !== -1) {
+    const close = findClosingBrace(message, i);
+    const source = message.slice(i + 1, close);
+    const firstComma = source.indexOf(',');
+    names.add(
+      (firstComma === -1 ? source : source.slice(0, firstComma)).trim()
+    );
+
+    if (firstComma !== -1) {
+      const secondComma = source.indexOf(',', firstComma + 1);
+      parseOptions(source.slice(secondComma + 1)).forEach((option) =>
+        argumentNames(option, names)
+      );
+    }
+
+    i = message.indexOf('{', close + 1);
+  }
+
+  return Array.from(names).sort();
+}
+
+/**
+ * 檢查所有語言的訊息目錄
+ * @returns 每個語言的問題：缺少的鍵、多餘的鍵及參數不一致的鍵
+ */
+export function checkCatalogs(): Record<
+  Locale,
+  { missing: string[]; extra: string[]; mismatched: string[] }
+> {
+  const reference = CATALOGS[DEFAULT_LOCALE];
+  const referenceKeys = Object.keys(reference) as MessageKey[];
+  const result = {} as ReturnType<typeof checkCatalogs>;
+
+  LOCALES.forEach(({ value: locale }) => {
+    const catalog = CATALOGS[locale] as Partial<Record<string, string>>;
+
+    result[locale] = {
+      missing: referenceKeys.filter(
+        (key) => typeof catalog[key] !== 'string' || catalog[key] === ''
+      ),
+      extra: Object.keys(catalog).filter((key) => !(key in reference)),
+      mismatched: referenceKeys.filter((key) => {
+        const message = catalog[key];
+        if (typeof message !== 'string') return false;
+        try {
+          return (
+            argumentNames(message).join() !==
+            argumentNames(reference[key]).join()
+          );
+        } catch {
+          return true; // 格式錯誤（括號不配對）
+        }
+      }),
+    };
+  });
+
+  return result;
+}
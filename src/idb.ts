@@ -0,0 +1,68 @@
+/**
+ * IndexedDB 輔助函數
+ * 每個功能使用獨立的資料庫（如收藏發件匣、API 回應緩存），只包含一個物件倉庫
+ *
+ * 不支援 IndexedDB（如部分瀏覽器的私密模式）時操作返回 undefined，
+ * 調用者應退回只使用記憶體
+ */
+
+/**
+ * 物件倉庫
+ */
+export interface IdbStore {
+  /**
+   * 在新的交易中執行一個請求（資料庫不可用時返回 undefined）
+   */
+  run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined>;
+}
+
+/**
+ * 建立物件倉庫的存取器（首次使用時才打開資料庫）
+ * @param upgrade 建立或升級資料庫結構（版本號變化時調用）
+ */
+export function openStore(
+  dbName: string,
+  version: number,
+  storeName: string,
+  upgrade: (db: IDBDatabase) => void
+): IdbStore {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  const open = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(dbName, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn(`⚠️ 無法打開資料庫 ${dbName}:`, request.error);
+          resolve(null);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async run(mode, operation) {
+      const db = await open();
+      if (!db) return undefined;
+
+      return new Promise((resolve, reject) => {
+        const request = operation(
+          db.transaction(storeName, mode).objectStore(storeName)
+        );
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    },
+  };
+}
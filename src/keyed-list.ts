@@ -0,0 +1,100 @@
+/**
+ * 鍵控清單渲染
+ * 按鍵比對容器中現有的節點：只新增缺少的、更新內容有變化的、移除多餘的節點，
+ * 內容未變的節點保持不動（保留圖片載入狀態、收藏按鈕狀態和捲動位置）
+ *
+ * 事件請使用事件委派綁定在容器上，節點本身不綁定監聽器
+ */
+
+/**
+ * 渲染選項
+ */
+export interface KeyedListOptions<T> {
+  key: (item: T) => string; // 項目的唯一鍵
+  create: (item: T) => HTMLElement; // 建立空節點（設定標籤和 class）
+  render: (item: T) => string; // 節點內容（innerHTML），內容相同時不會更新節點
+  mount?: (element: HTMLElement, item: T) => void; // 節點新增或內容更新後調用
+}
+
+/**
+ * 渲染統計（用於調試）
+ */
+export interface KeyedListStats {
+  added: number;
+  updated: number;
+  moved: number;
+  removed: number;
+}
+
+// 節點上次渲染的內容（用於判斷是否需要更新）
+const renderedHtml = new WeakMap<Element, string>();
+
+/**
+ * 將項目列表渲染到容器中
+ * 容器中沒有鍵的節點（載入提示、空狀態等）會被移除
+ * 重複的鍵只渲染第一個項目
+ */
+export function renderKeyedList<T>(
+  container: Element,
+  items: T[],
+  options: KeyedListOptions<T>
+): KeyedListStats {
+  const stats: KeyedListStats = { added: 0, updated: 0, moved: 0, removed: 0 };
+
+  const keys = new Set(items.map(options.key));
+
+  // 收集現有的鍵控節點，先移除不再存在的項目和沒有鍵的節點，
+  // 避免它們擋在游標位置導致後面的節點全部被移動
+  const existing = new Map<string, HTMLElement>();
+  Array.from(container.children).forEach((child) => {
+    const key = (child as HTMLElement).dataset?.key;
+    if (key === undefined || !renderedHtml.has(child)) {
+      child.remove();
+    } else if (keys.has(key) && !existing.has(key)) {
+      existing.set(key, child as HTMLElement);
+    } else {
+      child.remove();
+      stats.removed++;
+    }
+  });
+
+  const seen = new Set<string>();
+  let cursor: Element | null = container.firstElementChild;
+
+  items.forEach((item) => {
+    const key = options.key(item);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const html = options.render(item);
+    let element = existing.get(key);
+
+    if (element) {
+      // 內容有變化才更新
+      if (renderedHtml.get(element) !== html) {
+        element.innerHTML = html;
+        renderedHtml.set(element, html);
+        options.mount?.(element, item);
+        stats.updated++;
+      }
+
+      if (element !== cursor) stats.moved++;
+    } else {
+      element = options.create(item);
+      element.dataset.key = key;
+      element.innerHTML = html;
+      renderedHtml.set(element, html);
+      options.mount?.(element, item);
+      stats.added++;
+    }
+
+    // 確保節點位於正確位置（已在正確位置時不移動）
+    if (element === cursor) {
+      cursor = cursor.nextElementSibling;
+    } else {
+      container.insertBefore(element, cursor);
+    }
+  });
+
+  return stats;
+}
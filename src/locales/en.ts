@@ -0,0 +1,246 @@
+/**
+ * English message catalog
+ * 必須包含 zh-HK.ts 的所有訊息鍵（npm run check:i18n 檢查缺少的鍵）
+ */
+import type { MessageCatalog } from '../i18n';
+
+const en: MessageCatalog = {
+  // 通用
+  'common.loading': 'Loading...',
+  'common.close': 'Close',
+  'common.retry': 'Retry',
+  'common.tryLater': 'Please try again later',
+  'common.networkError': 'Network error, please check your connection',
+  'common.labelled': '{label}: ',
+  'common.listSeparator': ', ',
+
+  // 語言及顯示文字
+  'locale.label': 'Language',
+  'script.label': 'Chinese script',
+  'script.Original': 'Original',
+  'script.Traditional': 'Traditional',
+  'script.Hongkong': 'Hong Kong',
+  'script.Taiwan': 'Taiwan',
+  'script.China': 'Simplified',
+
+  // 全屏載入器
+  'loader.config': 'Loading configuration...',
+  'loader.init': 'Starting the app...',
+  'loader.data': 'Loading {unit}...',
+  'loader.featured': 'Loading featured {unit}...',
+  'loader.retrying': 'Retrying...',
+  'loader.retry':
+    'Attempt {attempt}/{max} failed, retrying in {seconds} seconds...',
+
+  // 離線提示
+  'offline.title': 'Offline data',
+  'offline.banner': 'You are offline. Showing cached data.',
+  'offline.cached': 'Offline data: showing cached results',
+  'offline.cachedAt': 'Offline data: showing results cached at {time}',
+
+  // 主題
+  'topic.listTitle': '{topic}',
+  'topic.documentTitle': 'Topics - {topic}',
+  'topic.1.name': 'Programming Courses',
+  'topic.1.unit': '{count, plural, one {course} other {courses}}',
+  'topic.2.name': 'Exercises',
+  'topic.2.unit': '{count, plural, one {exercise} other {exercises}}',
+  'topic.3.name': 'Yoga Poses',
+  'topic.3.unit': '{count, plural, one {pose} other {poses}}',
+  'topic.4.name': 'Open Source Software',
+  'topic.4.unit': '{count, plural, one {project} other {projects}}',
+  'topic.5.name': 'Open Source Hardware',
+  'topic.5.unit': '{count, plural, one {device} other {devices}}',
+  'topic.6.name': 'Free Fonts',
+  'topic.6.unit': '{count, plural, one {font} other {fonts}}',
+  'topic.7.name': 'Classical Music',
+  'topic.7.unit': '{count, plural, one {piece} other {pieces}}',
+  'topic.8.name': 'Wikipedia',
+  'topic.8.unit': '{count, plural, one {article} other {articles}}',
+  'topic.9.name': 'Public Attractions',
+  'topic.9.unit': '{count, plural, one {attraction} other {attractions}}',
+  'topic.9.field.description.label': 'Highlights',
+  'topic.10.name': 'Pet Breeds',
+  'topic.10.unit': '{count, plural, one {breed} other {breeds}}',
+
+  // 主題欄位
+  'field.description.label': 'About',
+  'field.description.fallback': 'No description',
+  'field.language.label': 'Language',
+  'field.level.label': 'Level',
+  'field.opening_hours.label': 'Opening hours',
+  'field.opening_hours.fallback': 'Please check the official website',
+  'field.facilities.label': 'Facilities',
+  'field.country.label': 'Country',
+  'field.published_at.label': 'Published',
+  'field.updated_at.label': 'Updated',
+
+  // 搜索及篩選
+  'filters.searchPlaceholder': 'Search...',
+  'filters.topic': 'Topic',
+  'filters.category': 'Category',
+  'filters.all': 'All',
+  'filters.bookmarkedOnly': 'Bookmarks only',
+  'filters.copyLink': 'Copy link to these results',
+  'filters.linkCopied': 'Link copied — it opens these same results',
+  'search.conversionFailed':
+    'Could not convert between Traditional and Simplified Chinese, please try again later',
+
+  // 分面篩選
+  'facets.title': 'Filters',
+  'facets.city': 'City',
+  'facets.country': 'Country',
+  'facets.tags': 'Tags',
+  'facets.facilities': 'Facilities',
+  'facets.matchAny': 'Tags & facilities: match any',
+  'facets.matchAll': 'Tags & facilities: match all',
+  'facets.valueCount': '{value} ({count})',
+  'facets.showAll': 'Show all {count}',
+  'facets.showLess': 'Show less',
+  'facets.clear': 'Clear filters',
+  'facets.remove': 'Remove filter: {value}',
+  'facets.empty': 'Nothing to filter by',
+  'facets.loadFailed': 'Could not load filter options',
+
+  // 排序
+  'sort.label': 'Sort',
+  'sort.toggle': 'Toggle sort direction',
+  'sort.ascending': 'Ascending (click for descending)',
+  'sort.descending': 'Descending (click for ascending)',
+  'sort.default': 'Default',
+  'sort.title': 'Name',
+  'sort.category': 'Category',
+  'sort.id': 'ID',
+  'sort.published_at': 'Published',
+  'sort.updated_at': 'Updated',
+
+  // 搜索提示及精選項目
+  'prompt.title': 'Start exploring {unit}',
+  'prompt.description':
+    'Enter keywords in the search box above, or choose a category to browse {unit}',
+  'prompt.loadingFeatured': 'Loading featured {unit}...',
+  'prompt.hint': 'Search by {unit} name, category or keyword',
+  'prompt.featuredTitle': 'Featured {unit}',
+  'prompt.featuredHint':
+    'Changes every {seconds} seconds • Tap a card to view its category',
+
+  // 清單
+  'list.searching': 'Searching...',
+  'list.loadingMore': 'Loading more...',
+  'list.loadFailed': 'Could not load data: {message}',
+  'list.loadMoreFailed': 'Could not load more: {message}',
+  'list.allLoaded': 'All {count} {unit} loaded',
+  'list.empty': 'No matching {unit} found',
+  'list.emptyBookmarkedResults': 'None of these {unit} are bookmarked',
+  'list.emptyBookmarkedResultsHint': 'Try turning off “Bookmarks only”',
+  'list.noBookmarks': 'You have not bookmarked any {unit} yet',
+  'list.noBookmarksHint': 'Search for {unit} and tap the bookmark button',
+
+  // 項目卡片
+  'item.untitled': 'Untitled',
+  'item.unknown': 'Unknown',
+  'item.noDescription': 'No description',
+  'item.imageLoading': 'Loading image',
+  'item.imageFailed': 'Image failed to load',
+  'item.area': 'Area',
+  'item.category': 'Category',
+  'item.video': 'Video guide',
+  'item.videoTitle': '{name} video guide',
+
+  // 詳細頁
+  'detail.back': 'Back to list',
+  'detail.share': 'Share',
+  'detail.linkCopied': 'Link copied',
+  'detail.shareFailed':
+    'Could not share the link, please copy the URL manually',
+  'detail.loading': 'Loading {unit}...',
+  'detail.notFound': 'This {unit} was not found (#{id})',
+  'detail.loadFailed': 'Failed to load: {message}',
+
+  // 圖表
+  'chart.defaultTitle': 'Categories (in no particular order)',
+  'chart.title': 'Categories ({count} {unit})',
+  'chart.datasetLabel': 'Number of {unit}',
+  'chart.tooltip': '{label}: {value} ({percentage}%)',
+  'chart.loadFailed': 'Could not load chart data',
+
+  // 收藏
+  'bookmarks.bookmark': 'Bookmark',
+  'bookmarks.bookmarked': 'Bookmarked',
+  'bookmarks.added': 'Bookmarked {name}',
+  'bookmarks.removed': 'Removed {name} from bookmarks',
+  'bookmarks.alreadyAdded': '{name} is already bookmarked',
+  'bookmarks.queued':
+    '{action, select, remove {Removed {name} from bookmarks} other {Bookmarked {name}}} (offline, will sync when you are back online)',
+  'bookmarks.failed': 'Something went wrong, please try again later',
+  'bookmarks.rejected': 'Bookmark update failed: {message}',
+  'bookmarks.sessionExpired':
+    'Your session has expired, please log in again to sync bookmarks',
+  'bookmarks.loginRequired': 'Please log in to use bookmarks',
+  'bookmarks.loginToView': 'Please log in to view your bookmarks',
+  'bookmarks.loadFailed': 'Could not load bookmarks, please try again later',
+  'bookmarks.missing':
+    '{count, plural, one {# bookmark is} other {# bookmarks are}} unavailable right now. They may have been removed or not indexed yet; please try again later',
+  'bookmarks.searchNoMatch': 'No bookmarks match “{search}”',
+  'sync.remaining':
+    '{count, plural, one {# bookmark change} other {# bookmark changes}} could not be synced and will be retried automatically',
+  'sync.done': 'Bookmarks synced',
+
+  // 登入及註冊
+  'auth.title': 'Member login',
+  'auth.subtitle': 'Log in to use bookmarks',
+  'auth.login': 'Log in',
+  'auth.signup': 'Sign up',
+  'auth.username': 'Username',
+  'auth.password': 'Password',
+  'auth.confirmPassword': 'Confirm password',
+  'auth.usernamePlaceholder': 'Enter your username',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.signupUsernamePlaceholder': 'Letters, numbers and _, 3-20 characters',
+  'auth.signupPasswordPlaceholder':
+    'At least 6 characters of 2 different types',
+  'auth.confirmPasswordPlaceholder': 'Enter your password again',
+  'auth.passwordHint': 'Passwords need at least 6 characters and must match',
+  'auth.loginRequired': 'Please enter your username and password',
+  'auth.fieldsRequired': 'Please fill in all fields',
+  'auth.passwordMismatch': 'The passwords do not match',
+  'auth.loggingIn': 'Logging in...',
+  'auth.signingUp': 'Signing up...',
+  'auth.loginSuccess': 'Welcome back, {username}!',
+  'auth.signupSuccess': 'Signed up! Welcome, {username}!',
+  'auth.logoutSuccess': 'Logged out',
+  'auth.invalidCredentials':
+    'Incorrect username or password, please check and try again',
+  'auth.usernameTaken': 'This username is already taken, please try another',
+  'auth.networkError': 'Network connection failed, please click retry',
+  'auth.loginFailed':
+    'Login failed, please check your network connection and try again',
+  'auth.signupFailed':
+    'Sign up failed, please check your network connection and try again',
+
+  // 輸入驗證
+  'validation.usernameTooShort': 'Username must be at least {min} characters',
+  'validation.usernameTooLong': 'Username must be at most {max} characters',
+  'validation.usernameInvalid':
+    'Username may only contain letters, numbers and underscores',
+  'validation.usernameValid': 'Username looks good',
+  'validation.passwordTooShort': 'Password must be at least {min} characters',
+  'validation.passwordTooLong': 'Password must be at most {max} characters',
+  'validation.passwordTooSimple':
+    'Password must contain at least two of: uppercase, lowercase, numbers, symbols',
+  'validation.passwordStrength': 'Password strength: {strength}',
+  'validation.strengthStrong': 'strong',
+  'validation.strengthMedium': 'medium',
+  'validation.recordsDropped':
+    '{count, plural, one {# record was} other {# records were}} malformed and skipped',
+
+  // State inspector (dev mode)
+  'inspector.title': 'State inspector',
+  'inspector.live':
+    'Live state ({count, plural, one {# entry} other {# entries}})',
+  'inspector.travelling': 'Viewing entry {index} of {count}',
+  'inspector.resume': 'Back to live',
+  'inspector.export': 'Export log',
+};
+
+export default en;
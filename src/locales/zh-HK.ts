@@ -0,0 +1,233 @@
+/**
+ * 繁體中文（香港）訊息目錄
+ * 參考語言：包含所有訊息鍵，其他語言的目錄以此檢查（npm run check:i18n）
+ */
+const zhHK = {
+  // 通用
+  'common.loading': '載入中...',
+  'common.close': '關閉',
+  'common.retry': '重試',
+  'common.tryLater': '請稍後再試',
+  'common.networkError': '網路連接錯誤，請檢查您的網路連接',
+  'common.labelled': '{label}：',
+  'common.listSeparator': '、',
+
+  // 語言及顯示文字
+  'locale.label': '語言',
+  'script.label': '顯示文字',
+  'script.Original': '原文',
+  'script.Traditional': '繁體',
+  'script.Hongkong': '香港',
+  'script.Taiwan': '台灣',
+  'script.China': '简体',
+
+  // 全屏載入器
+  'loader.config': '正在載入配置...',
+  'loader.init': '正在初始化應用程式...',
+  'loader.data': '正在載入{unit}資料...',
+  'loader.featured': '正在載入精選{unit}...',
+  'loader.retrying': '正在重試...',
+  'loader.retry': '第 {attempt}/{max} 次嘗試失敗，{seconds} 秒後重試...',
+
+  // 離線提示
+  'offline.title': '離線資料',
+  'offline.banner': '目前處於離線狀態，將顯示已緩存的資料',
+  'offline.cached': '離線資料：顯示的是緩存的結果',
+  'offline.cachedAt': '離線資料：顯示的是 {time} 緩存的結果',
+
+  // 主題
+  'topic.listTitle': '{topic}清單',
+  'topic.documentTitle': '主題清單 - {topic}',
+  'topic.1.name': '程式教學',
+  'topic.1.unit': '{count, plural, other {課程}}',
+  'topic.2.name': '運動教學',
+  'topic.2.unit': '{count, plural, other {運動}}',
+  'topic.3.name': '瑜伽動作',
+  'topic.3.unit': '{count, plural, other {動作}}',
+  'topic.4.name': '開源軟體',
+  'topic.4.unit': '{count, plural, other {軟體}}',
+  'topic.5.name': '開源硬體',
+  'topic.5.unit': '{count, plural, other {硬體}}',
+  'topic.6.name': '免費字體',
+  'topic.6.unit': '{count, plural, other {字體}}',
+  'topic.7.name': '古典音樂',
+  'topic.7.unit': '{count, plural, other {樂曲}}',
+  'topic.8.name': '維基百科',
+  'topic.8.unit': '{count, plural, other {條目}}',
+  'topic.9.name': '公眾景點',
+  'topic.9.unit': '{count, plural, other {景點}}',
+  'topic.9.field.description.label': '特色',
+  'topic.10.name': '寵物品種',
+  'topic.10.unit': '{count, plural, other {品種}}',
+
+  // 主題欄位
+  'field.description.label': '簡介',
+  'field.description.fallback': '暫無描述',
+  'field.language.label': '語言',
+  'field.level.label': '程度',
+  'field.opening_hours.label': '開放時間',
+  'field.opening_hours.fallback': '請查詢官方資訊',
+  'field.facilities.label': '設施',
+  'field.country.label': '國家',
+  'field.published_at.label': '發佈日期',
+  'field.updated_at.label': '更新日期',
+
+  // 搜索及篩選
+  'filters.searchPlaceholder': '搜尋...',
+  'filters.topic': '主題',
+  'filters.category': '分類',
+  'filters.all': '全部',
+  'filters.bookmarkedOnly': '只看收藏',
+  'filters.copyLink': '複製搜索結果連結',
+  'filters.linkCopied': '已複製連結，打開後會顯示相同的搜索結果',
+  'search.conversionFailed': '繁簡轉換失敗，請稍後再試',
+
+  // 分面篩選
+  'facets.title': '篩選',
+  'facets.city': '城市',
+  'facets.country': '國家',
+  'facets.tags': '標籤',
+  'facets.facilities': '設施',
+  'facets.matchAny': '標籤及設施：符合任一',
+  'facets.matchAll': '標籤及設施：符合全部',
+  'facets.valueCount': '{value}（{count}）',
+  'facets.showAll': '顯示全部 {count} 項',
+  'facets.showLess': '收起',
+  'facets.clear': '清除篩選',
+  'facets.remove': '移除篩選：{value}',
+  'facets.empty': '沒有可篩選的值',
+  'facets.loadFailed': '無法載入篩選選項',
+
+  // 排序
+  'sort.label': '排序',
+  'sort.toggle': '切換排序方向',
+  'sort.ascending': '升序（點擊切換為降序）',
+  'sort.descending': '降序（點擊切換為升序）',
+  'sort.default': '預設',
+  'sort.title': '名稱',
+  'sort.category': '分類',
+  'sort.id': '編號',
+  'sort.published_at': '發佈日期',
+  'sort.updated_at': '更新日期',
+
+  // 搜索提示及精選項目
+  'prompt.title': '開始探索{unit}',
+  'prompt.description':
+    '使用上方的搜尋框輸入關鍵字，或選擇分類來查看{unit}資料',
+  'prompt.loadingFeatured': '正在載入精選{unit}...',
+  'prompt.hint': '輸入{unit}名稱、分類或關鍵字開始搜尋',
+  'prompt.featuredTitle': '精選{unit}推薦',
+  'prompt.featuredHint': '每 {seconds} 秒自動更換 • 點擊卡片查看分類',
+
+  // 清單
+  'list.searching': '正在搜尋...',
+  'list.loadingMore': '正在載入更多...',
+  'list.loadFailed': '無法載入資料：{message}',
+  'list.loadMoreFailed': '載入更多失敗：{message}',
+  'list.allLoaded': '已載入全部資料（共 {count} 個{unit}）',
+  'list.empty': '沒有找到符合條件的{unit}',
+  'list.emptyBookmarkedResults': '當前搜索結果中沒有已收藏的{unit}',
+  'list.emptyBookmarkedResultsHint': '試試關閉「只看收藏」開關',
+  'list.noBookmarks': '您還沒有收藏任何{unit}',
+  'list.noBookmarksHint': '試試搜索{unit}並點擊收藏按鈕',
+
+  // 項目卡片
+  'item.untitled': '未命名',
+  'item.unknown': '未知',
+  'item.noDescription': '暫無描述',
+  'item.imageLoading': '圖片載入中',
+  'item.imageFailed': '圖片載入失敗',
+  'item.area': '地區',
+  'item.category': '分類',
+  'item.video': '導覽影片',
+  'item.videoTitle': '{name} 導覽影片',
+
+  // 詳細頁
+  'detail.back': '返回清單',
+  'detail.share': '分享',
+  'detail.linkCopied': '已複製連結',
+  'detail.shareFailed': '無法分享連結，請手動複製網址',
+  'detail.loading': '正在載入{unit}資料...',
+  'detail.notFound': '找不到此{unit}（#{id}）',
+  'detail.loadFailed': '載入失敗：{message}',
+
+  // 圖表
+  'chart.defaultTitle': '景點類型（排名不分先後）',
+  'chart.title': '{unit}分類分佈（共 {count} 個{unit}）',
+  'chart.datasetLabel': '{unit}數量',
+  'chart.tooltip': '{label}: {value}個 ({percentage}%)',
+  'chart.loadFailed': '無法載入圖表數據',
+
+  // 收藏
+  'bookmarks.bookmark': '收藏',
+  'bookmarks.bookmarked': '已收藏',
+  'bookmarks.added': '已收藏 {name}',
+  'bookmarks.removed': '已取消收藏 {name}',
+  'bookmarks.alreadyAdded': '{name} 已在收藏清單中',
+  'bookmarks.queued':
+    '{action, select, remove {已取消收藏} other {已收藏}} {name}（離線，將在恢復連線後同步）',
+  'bookmarks.failed': '操作失敗，請稍後再試',
+  'bookmarks.rejected': '收藏操作失敗：{message}',
+  'bookmarks.sessionExpired': '登入狀態已過期，請重新登入後同步收藏',
+  'bookmarks.loginRequired': '請先登入才能使用收藏功能',
+  'bookmarks.loginToView': '請先登入才能查看收藏',
+  'bookmarks.loadFailed': '載入收藏失敗，請稍後再試',
+  'bookmarks.missing':
+    '有 {count} 個收藏暫時找不到，可能已被刪除或尚未更新，請稍後再試',
+  'bookmarks.searchNoMatch': '沒有找到包含「{search}」的收藏',
+  'sync.remaining': '仍有 {count} 項收藏操作未能同步，稍後會自動重試',
+  'sync.done': '收藏已同步',
+
+  // 登入及註冊
+  'auth.title': '會員登入',
+  'auth.subtitle': '請登入以使用收藏功能',
+  'auth.login': '登入',
+  'auth.signup': '註冊',
+  'auth.username': '使用者名稱',
+  'auth.password': '密碼',
+  'auth.confirmPassword': '確認密碼',
+  'auth.usernamePlaceholder': '請輸入使用者名稱',
+  'auth.passwordPlaceholder': '請輸入密碼',
+  'auth.signupUsernamePlaceholder': '字母、數字、底線，3-20 字元',
+  'auth.signupPasswordPlaceholder': '至少 6 個字元，需包含 2 種字符類型',
+  'auth.confirmPasswordPlaceholder': '請再次輸入密碼',
+  'auth.passwordHint': '密碼至少需要 6 個字元，請確保兩次輸入一致',
+  'auth.loginRequired': '請輸入使用者名稱和密碼',
+  'auth.fieldsRequired': '請填寫所有欄位',
+  'auth.passwordMismatch': '兩次輸入的密碼不一致',
+  'auth.loggingIn': '登入中...',
+  'auth.signingUp': '註冊中...',
+  'auth.loginSuccess': '歡迎回來，{username}！',
+  'auth.signupSuccess': '註冊成功！歡迎，{username}！',
+  'auth.logoutSuccess': '已成功登出',
+  'auth.invalidCredentials': '使用者名稱或密碼錯誤，請檢查後重試',
+  'auth.usernameTaken': '此使用者名稱已被註冊，請換一個試試',
+  'auth.networkError': '網路連接失敗，請點擊重試按鈕',
+  'auth.loginFailed': '登入失敗，請檢查網路連接後重試',
+  'auth.signupFailed': '註冊失敗，請檢查網路連接後重試',
+
+  // 輸入驗證
+  'validation.usernameTooShort': '使用者名稱至少需要 {min} 個字元',
+  'validation.usernameTooLong': '使用者名稱最多 {max} 個字元',
+  'validation.usernameInvalid': '使用者名稱只能包含字母、數字和底線',
+  'validation.usernameValid': '使用者名稱格式正確',
+  'validation.passwordTooShort': '密碼至少需要 {min} 個字元',
+  'validation.passwordTooLong': '密碼最多 {max} 個字元',
+  'validation.passwordTooSimple':
+    '密碼需要包含至少兩種字符類型（大寫、小寫、數字、特殊字符）',
+  'validation.passwordStrength': '密碼強度：{strength}',
+  'validation.strengthStrong': '強',
+  'validation.strengthMedium': '中等',
+  'validation.recordsDropped': '有 {count} 筆資料格式異常，已略過',
+
+  // 狀態檢查器（開發模式）
+  'inspector.title': '狀態檢查器',
+  'inspector.live': '最新狀態（共 {count} 條記錄）',
+  'inspector.travelling': '正在查看第 {index} 條記錄（共 {count} 條）',
+  'inspector.resume': '回到最新',
+  'inspector.export': '匯出記錄',
+};
+
+export type MessageKey = keyof typeof zhHK;
+
+export default zhHK;
@@ -2,37 +2,139 @@
  * 主要應用程式邏輯
  * 整合 API 服務層
  */
-import { LocalAttraction, Attraction } from './types';
-import { localAttractions } from './data';
 import {
-  fetchAttractions,
+  Attraction,
+  ApiAttraction,
+  ChartDataResponse,
+  ResourceListResponse,
+} from './types';
+import { toAttraction, toApiAttraction } from './mapper';
+import {
+  fetchResource,
+  fetchResourceByIds,
+  fetchCatalogue,
+  fetchCatalogueFacets,
+  ResourceQuery,
   ApiError,
+  ApiAbortError,
   login,
   signup,
   logout,
   isLoggedIn,
   checkAuth,
-  addBookmark,
-  removeBookmark,
   getBookmarks,
 } from './api';
-import { convertText } from './zhconvert';
-
-// 當前狀態
-let items: (LocalAttraction | Attraction)[] = localAttractions;
-let isLoading = false;
-let useLocalData = true; // 控制使用本地數據還是 API 數據
-let currentPage = 1;
-let hasMoreData = true;
-let isLoadingMore = false;
+import {
+  OutboxFlushResult,
+  loadOutbox,
+  isPending,
+  applyPendingMutations,
+  enqueueBookmarkMutation,
+  flushOutbox,
+  isTransientError,
+} from './bookmark-outbox';
+import { preloadConverter } from './zhconvert';
+import {
+  DISPLAY_SCRIPTS,
+  displayText,
+  displayTexts,
+  getDisplayScript,
+  isDisplayScript,
+  restoreDisplayScript,
+  setDisplayScript,
+} from './display-script';
+import {
+  LOCALES,
+  formatMessage,
+  getLocale,
+  hasMessage,
+  initI18n,
+  isLocale,
+  setLocale,
+  t,
+} from './i18n';
+import {
+  clearConversionCache,
+  getConversionCacheStats,
+} from './conversion-cache';
+import {
+  HighlightRange,
+  MatchHighlights,
+  SearchResult,
+  highlightItems,
+  indexItems,
+  mergeRanges,
+  searchItems,
+} from './search-index';
+import { loadConfig, getConfig } from './config';
+import { ValidationIssue } from './validation';
+import { renderKeyedList } from './keyed-list';
+import { SORT_OPTIONS, SortField, SortOrder, isSortField } from './sort';
+import {
+  TOPICS,
+  TopicDefinition,
+  TopicField,
+  BASE_FIELD_KEYS,
+  getTopic,
+  findTopicByEndpoint,
+} from './topics';
+import {
+  RouteMatch,
+  addRoute,
+  setFallbackRoute,
+  navigate,
+  canGoBack,
+  startRouter,
+} from './router';
+import { registerServiceWorker, initOfflineBanner, isOffline } from './pwa';
+import { CatalogueQuery, catalogueFacets } from './catalogue';
+import {
+  FacetCounts,
+  clearFacets,
+  getFacetQuery,
+  hasActiveFacets,
+  initFacetFilters,
+  refreshFacetCounts,
+  renderFacetControls,
+  syncFacetUrl,
+} from './facet-filters';
+import { SearchState, readSearchState, writeSearchState } from './search-state';
+import {
+  AppState,
+  SearchHighlights,
+  dispatch,
+  enableActionLog,
+  getState,
+  getViewState,
+  selectHighlights,
+  selectShowsListTail,
+  selectTopic,
+  selectVisibleItems,
+  shallowEqual,
+  subscribe,
+} from './store';
+import { initStoreInspector } from './store-inspector';
+
+// 清單、搜索條件、收藏及登入狀態保存在 store.ts，以下只有 DOM 及請求相關的狀態
+
+// 無限捲動
+let listScrollElement: HTMLElement | null = null; // ion-content 的捲動容器
+let usingIonInfinite = false; // 是否使用 ion-infinite-scroll（否則使用 IntersectionObserver）
+let sentinelObserver: IntersectionObserver | null = null;
 
-// 搜索和篩選狀態（用於載入更多時保持條件）
-let currentSearch = '';
-let currentCategory = '';
+/**
+ * 預先載入的下一頁（用戶捲動到底部時直接使用）
+ */
+interface PrefetchedPage {
+  key: string;
+  response: Promise<ResourceListResponse<ApiAttraction>>;
+}
+let prefetchedPage: PrefetchedPage | null = null;
 
-// 收藏篩選狀態
-let showOnlyBookmarked = false; // 是否只顯示已收藏的項目
-let fullBookmarkedItems: (LocalAttraction | Attraction)[] = []; // 完整的收藏列表（用於繁簡搜索）
+// 清單請求世代：每次更新清單（新搜尋、切換分類/排序/主題）時遞增並取消舊請求，
+// 回應返回時世代已改變則丟棄，避免較慢的舊搜尋覆蓋新結果
+let listGeneration = 0;
+let listController = new AbortController();
 
 // 全屏載入器元素
 let appLoader: HTMLElement | null = null;
@@ -40,140 +142,162 @@ let loaderMessage: HTMLElement | null = null;
 let retryInfo: HTMLElement | null = null;
 let retryText: HTMLElement | null = null;
 
-// 認證狀態
-let currentUsername: string | null = null;
-
-// 收藏狀態
-let bookmarkedItems: Set<number> = new Set(); // 存儲已收藏的項目 ID
-
-// 預覽景點狀態
-let previewItems: Attraction[] = []; // 存儲預覽景點
-let previewRotationTimer: number | null = null; // 預覽景點輪換計時器
-
-// 繁簡轉換緩存（符合老師建議：統一轉簡體匹配）
-const simplifiedCache = new Map<string, string>();
+// 預覽景點輪換計時器
+let previewRotationTimer: number | null = null;
 
 /**
- * 將文字轉換為簡體（帶緩存）
- * 符合老師建議：繁體/簡體/台灣繁體/香港繁體統一轉為簡體進行匹配
+ * 當前主題
  */
-async function toSimplified(text: string): Promise<string> {
-  if (!text) return '';
-
-  // 檢查緩存
-  if (simplifiedCache.has(text)) {
-    return simplifiedCache.get(text)!;
-  }
-
-  try {
-    // 調用繁化姬 API 轉換為簡體
-    const simplified = await convertText(text, 'China');
-
-    // 存入緩存
-    simplifiedCache.set(text, simplified);
-
-    return simplified;
-  } catch (error) {
-    console.warn('⚠️ 繁簡轉換失敗，使用原文:', error);
-    // 轉換失敗時使用原文
-    simplifiedCache.set(text, text);
-    return text;
-  }
+function currentTopic(): TopicDefinition {
+  return selectTopic(getState());
 }
 
 /**
- * 獲取景點的可搜索文本（合併所有可搜索字段）
+ * 畫面顯示的主題（只供渲染函數使用，回到過去時可能與 currentTopic 不同）
  */
-function getSearchableText(item: LocalAttraction | Attraction): string {
-  const attraction = item as Attraction;
-  return [
-    attraction.title || item.name || '',
-    attraction.category || item.area || '',
-    attraction.description || item.feature || '',
-    attraction.city || '',
-    attraction.address || '',
-  ].join(' ');
+function viewTopic(): TopicDefinition {
+  return selectTopic(getViewState());
 }
 
 /**
  * 執行繁簡通用搜索（通用版本）
  * 符合老師建議：將輸入內容和檢索內容都轉為簡體進行匹配
+ * 使用 search-index.ts 的搜索索引：支援拼音/粵拼、錯字容忍及多個搜索詞，結果按相關度排序
  * @param searchTerm 搜索詞
  * @param sourceItems 要搜索的源數據列表
- * @returns 匹配的項目列表
+ * @returns 匹配的項目列表及高亮範圍（搜索失敗時返回所有項目）
  */
 async function performSimplifiedSearch(
   searchTerm: string,
-  sourceItems: (LocalAttraction | Attraction)[]
-): Promise<(LocalAttraction | Attraction)[]> {
+  sourceItems: Attraction[]
+): Promise<RankedItems> {
   if (!searchTerm || sourceItems.length === 0) {
-    return sourceItems;
+    return { items: sourceItems };
   }
 
   try {
     console.log(`🔍 開始繁簡通用搜索：「${searchTerm}」`);
     console.log(`📊 待搜索項目數量：${sourceItems.length}`);
 
-    // 1. 將搜索詞轉為簡體
-    const searchSimplified = (await toSimplified(searchTerm)).toLowerCase();
-    console.log(`   ✅ 搜索詞簡體：「${searchSimplified}」`);
+    const results = await searchItems(searchTerm, sourceItems);
+    results.slice(0, 3).forEach((result) => {
+      console.log(
+        `   ✅ 匹配: ${result.item.title}（${result.score.toFixed(2)}）`
+      );
+    });
 
-    // 2. 遍歷所有項目，將可搜索字段轉為簡體並匹配
-    const matchedItems: (LocalAttraction | Attraction)[] = [];
-    let processedCount = 0;
+    console.log(
+      `   🎯 找到 ${results.length} 個匹配項（共 ${sourceItems.length} 項）`
+    );
 
-    for (const item of sourceItems) {
-      processedCount++;
+    const stats = getConversionCacheStats();
+    console.log(
+      `   📦 轉換緩存命中率 ${(stats.hitRate * 100).toFixed(1)}%（未命中 ${stats.misses} 次）`
+    );
 
-      // 獲取可搜索文本
-      const searchableText = getSearchableText(item);
+    return rankSearchResults(searchTerm, results);
+  } catch (error) {
+    console.error('❌ 繁簡搜索失敗:', error);
+    // 降級：返回所有項目
+    return { items: sourceItems };
+  }
+}
 
-      // 轉為簡體
-      const itemSimplified = (await toSimplified(searchableText)).toLowerCase();
+/**
+ * 按相關度排序的項目及高亮範圍
+ */
+interface RankedItems {
+  items: Attraction[];
+  highlights?: SearchHighlights;
+}
 
-      // 調試：顯示前3個項目的轉換結果
-      if (processedCount <= 3) {
-        console.log(
-          `   📝 [${processedCount}] 原文：${searchableText.substring(0, 50)}...`
-        );
-        console.log(
-          `   📝 [${processedCount}] 簡體：${itemSimplified.substring(0, 50)}...`
-        );
-      }
+/**
+ * 搜索結果 → 按相關度排序的項目及高亮範圍
+ */
+function rankSearchResults(
+  query: string,
+  results: SearchResult[]
+): RankedItems {
+  return {
+    items: results.map((result) => result.item),
+    highlights: {
+      query,
+      byId: new Map(
+        results.map((result) => [result.item.id, result.highlights])
+      ),
+    },
+  };
+}
 
-      // 簡體匹配簡體
-      if (itemSimplified.includes(searchSimplified)) {
-        matchedItems.push(item);
-        const attraction = item as Attraction;
-        console.log(`   ✅ 匹配: ${attraction.title || attraction.name}`);
-      }
+/**
+ * 伺服器沒有搜索結果時，在已載入的項目（精選及收藏）中搜索
+ * 伺服器的搜索不支援拼音及錯字，例如輸入「gg」仍可找到已載入的「故宮」
+ */
+async function searchLoadedItems(generation: number): Promise<void> {
+  const { previewItems, fullBookmarkedItems, category, search } = getState();
+  const candidates = new Map<number, Attraction>();
+  [...previewItems, ...fullBookmarkedItems].forEach((item) => {
+    if (!category || item.category === category) {
+      candidates.set(item.id, item);
     }
+  });
+  if (candidates.size === 0) return;
+
+  try {
+    const results = await searchItems(search, Array.from(candidates.values()));
+    if (generation !== listGeneration || results.length === 0) return;
 
     console.log(
-      `   🎯 找到 ${matchedItems.length} 個匹配項（共 ${sourceItems.length} 項）`
+      `🔎 伺服器沒有結果，在已載入的 ${candidates.size} 個項目中找到 ${results.length} 個`
     );
-
-    return matchedItems;
+    dispatch({
+      type: 'list/replaced',
+      ...rankSearchResults(search, results),
+      hasMoreData: false,
+    });
   } catch (error) {
-    console.error('❌ 繁簡搜索失敗:', error);
-    // 降級：返回所有項目
-    return sourceItems;
+    console.warn('⚠️ 搜索已載入的項目失敗:', error);
   }
 }
 
+/**
+ * 項目的高亮範圍（只在搜索詞未改變時使用）
+ */
+function getHighlights(item: Attraction): MatchHighlights | undefined {
+  return selectHighlights(getViewState(), item.id);
+}
+
+/**
+ * 計算清單項目的高亮範圍（伺服器返回的搜索結果），完成後重新渲染
+ * 已計算的項目略過，沒有需要計算的項目時不重新渲染
+ */
+function refreshHighlights(): void {
+  const { search: query, items, highlights } = getState();
+  if (!query) return;
+
+  const missing = items.filter(
+    (item) => highlights.query !== query || !highlights.byId.has(item.id)
+  );
+  if (missing.length === 0) return;
+
+  highlightItems(query, missing)
+    .then((result) => {
+      if (query !== getState().search) return;
+      dispatch({ type: 'highlights/merged', query, highlights: result });
+    })
+    .catch((error) => console.warn('⚠️ 計算搜索高亮失敗:', error));
+}
+
 /**
  * 在收藏模式下執行繁簡通用搜索（異步）
  * 符合老師建議：將輸入內容和檢索內容都轉為簡體進行匹配
  */
 async function performSimplifiedSearchInBookmarks(): Promise<void> {
-  if (
-    !showOnlyBookmarked ||
-    !currentSearch ||
-    fullBookmarkedItems.length === 0
-  ) {
+  const { showOnlyBookmarked, search, fullBookmarkedItems } = getState();
+  if (!showOnlyBookmarked || !search || fullBookmarkedItems.length === 0) {
     console.warn('⚠️ 繁簡搜索條件不滿足:', {
       showOnlyBookmarked,
-      currentSearch,
+      search,
       fullBookmarkedItemsCount: fullBookmarkedItems.length,
     });
     return;
@@ -184,28 +308,23 @@ async function performSimplifiedSearchInBookmarks(): Promise<void> {
     showListLoading();
 
     // 調用通用繁簡搜索函數
-    const matchedItems = await performSimplifiedSearch(
-      currentSearch,
-      fullBookmarkedItems
-    );
+    const matched = await performSimplifiedSearch(search, fullBookmarkedItems);
 
     hideListLoading();
 
-    // 更新列表並重新渲染
-    items = matchedItems;
-    renderList();
+    // 更新列表（訂閱的 renderList 重新渲染）
+    dispatch({ type: 'list/replaced', ...matched });
 
     // 如果沒有結果，提示用戶
-    if (matchedItems.length === 0) {
-      await showError(`沒有找到包含「${currentSearch}」的收藏景點`);
+    if (matched.items.length === 0) {
+      await showError(t('bookmarks.searchNoMatch', { search }));
     }
   } catch (error) {
     hideListLoading();
     console.error('❌ 繁簡搜索失敗:', error);
-    await showError('繁簡轉換失敗，請稍後再試');
+    await showError(t('search.conversionFailed'));
     // 降級：直接顯示所有收藏
-    items = fullBookmarkedItems;
-    renderList();
+    dispatch({ type: 'list/replaced', items: fullBookmarkedItems });
   }
 }
 
@@ -223,6 +342,23 @@ function escapeHtml(unsafe: string): string {
     .replace(/'/g, '&#039;');
 }
 
+/**
+ * 轉義文字並以 <mark> 標記搜索匹配的部分
+ */
+function highlightText(text: string, ranges: HighlightRange[] = []): string {
+  if (ranges.length === 0) return escapeHtml(text);
+
+  let html = '';
+  let position = 0;
+  mergeRanges(ranges).forEach(({ start, end }) => {
+    html += escapeHtml(text.slice(position, start));
+    html += `<mark class="search-highlight">${escapeHtml(text.slice(start, end))}</mark>`;
+    position = end;
+  });
+
+  return html + escapeHtml(text.slice(position));
+}
+
 /**
  * 驗證 URL 是否安全（僅允許 https 和合法域名）
  */
@@ -257,16 +393,22 @@ function validateUsername(username: string): {
   message: string;
 } {
   if (!username || username.length < 3) {
-    return { valid: false, message: '使用者名稱至少需要 3 個字元' };
+    return {
+      valid: false,
+      message: t('validation.usernameTooShort', { min: 3 }),
+    };
   }
 
   if (username.length > 20) {
-    return { valid: false, message: '使用者名稱最多 20 個字元' };
+    return {
+      valid: false,
+      message: t('validation.usernameTooLong', { max: 20 }),
+    };
   }
 
   // 只允許字母、數字和底線
   if (!/^[a-zA-Z0-9_]+$/.test(username)) {
-    return { valid: false, message: '使用者名稱只能包含字母、數字和底線' };
+    return { valid: false, message: t('validation.usernameInvalid') };
   }
 
   return { valid: true, message: '' };
@@ -281,11 +423,19 @@ function validatePassword(password: string): {
   strength: 'weak' | 'medium' | 'strong';
 } {
   if (!password || password.length < 6) {
-    return { valid: false, message: '密碼至少需要 6 個字元', strength: 'weak' };
+    return {
+      valid: false,
+      message: t('validation.passwordTooShort', { min: 6 }),
+      strength: 'weak',
+    };
   }
 
   if (password.length > 50) {
-    return { valid: false, message: '密碼最多 50 個字元', strength: 'weak' };
+    return {
+      valid: false,
+      message: t('validation.passwordTooLong', { max: 50 }),
+      strength: 'weak',
+    };
   }
 
   let strength: 'weak' | 'medium' | 'strong' = 'weak';
@@ -301,7 +451,7 @@ function validatePassword(password: string): {
   if (criteriaCount < 2) {
     return {
       valid: false,
-      message: '密碼需要包含至少兩種字符類型（大寫、小寫、數字、特殊字符）',
+      message: t('validation.passwordTooSimple'),
       strength: 'weak',
     };
   }
@@ -414,11 +564,11 @@ function switchAuthTab(tab: 'login' | 'signup'): void {
   const signupForm = document.getElementById('signupForm');
   const tabs = document.querySelectorAll('.auth-tab');
 
-  tabs.forEach((t) => {
-    if (t.getAttribute('data-tab') === tab) {
-      t.classList.add('active');
+  tabs.forEach((button) => {
+    if (button.getAttribute('data-tab') === tab) {
+      button.classList.add('active');
     } else {
-      t.classList.remove('active');
+      button.classList.remove('active');
     }
   });
 
@@ -448,7 +598,7 @@ async function handleLogin(event: Event): Promise<void> {
   hideFormError('loginError');
 
   if (!username || !password) {
-    showFormError('loginError', '請輸入使用者名稱和密碼');
+    showFormError('loginError', t('auth.loginRequired'));
     return;
   }
 
@@ -456,18 +606,16 @@ async function handleLogin(event: Event): Promise<void> {
     // 禁用按鈕並顯示載入狀態
     if (loginBtn) {
       loginBtn.disabled = true;
-      loginBtn.innerHTML =
-        '<ion-spinner name="crescent"></ion-spinner> 登入中...';
+      loginBtn.innerHTML = `<ion-spinner name="crescent"></ion-spinner> ${t('auth.loggingIn')}`;
     }
 
     await login(username, password);
 
-    currentUsername = username;
+    dispatch({ type: 'auth/changed', username });
     localStorage.setItem('username', username); // 保存用戶名
 
-    await showSuccess(`歡迎回來，${username}！`);
+    await showSuccess(t('auth.loginSuccess', { username }));
     closeAuthModal();
-    updateAuthUI();
 
     // 載入用戶的收藏列表
     await loadUserBookmarks();
@@ -481,7 +629,7 @@ async function handleLogin(event: Event): Promise<void> {
         errorMsg.includes('Invalid credentials') ||
         errorMsg.includes('not found')
       ) {
-        errorMsg = '使用者名稱或密碼錯誤，請檢查後重試';
+        errorMsg = t('auth.invalidCredentials');
       } else if (errorMsg.includes('Error:')) {
         errorMsg = errorMsg.replace('Error: ', '');
       }
@@ -489,7 +637,7 @@ async function handleLogin(event: Event): Promise<void> {
       // 判斷是否為網路錯誤（可重試）
       if (errorMsg.includes('testing purposes') || errorMsg.includes('網路')) {
         isNetworkError = true;
-        errorMsg = '網路連接失敗，請點擊重試按鈕';
+        errorMsg = t('auth.networkError');
       }
 
       showFormError('loginError', errorMsg, isNetworkError, () => {
@@ -497,22 +645,16 @@ async function handleLogin(event: Event): Promise<void> {
         handleLogin(event);
       });
     } else {
-      showFormError(
-        'loginError',
-        '登入失敗，請檢查網路連接後重試',
-        true,
-        () => {
-          hideFormError('loginError');
-          handleLogin(event);
-        }
-      );
+      showFormError('loginError', t('auth.loginFailed'), true, () => {
+        hideFormError('loginError');
+        handleLogin(event);
+      });
     }
   } finally {
     // 恢復按鈕狀態
     if (loginBtn) {
       loginBtn.disabled = false;
-      loginBtn.innerHTML =
-        '<ion-icon name="log-in-outline" slot="start"></ion-icon> 登入';
+      loginBtn.innerHTML = `<ion-icon name="log-in-outline" slot="start"></ion-icon> <span data-i18n="auth.login">${t('auth.login')}</span>`;
     }
   }
 }
@@ -537,7 +679,7 @@ async function handleSignup(event: Event): Promise<void> {
 
   // 表單驗證（用戶輸入錯誤，不可重試）
   if (!username || !password || !confirm) {
-    showFormError('signupError', '請填寫所有欄位');
+    showFormError('signupError', t('auth.fieldsRequired'));
     return;
   }
 
@@ -556,7 +698,7 @@ async function handleSignup(event: Event): Promise<void> {
   }
 
   if (password !== confirm) {
-    showFormError('signupError', '兩次輸入的密碼不一致');
+    showFormError('signupError', t('auth.passwordMismatch'));
     return;
   }
 
@@ -564,18 +706,16 @@ async function handleSignup(event: Event): Promise<void> {
     // 禁用按鈕並顯示載入狀態
     if (signupBtn) {
       signupBtn.disabled = true;
-      signupBtn.innerHTML =
-        '<ion-spinner name="crescent"></ion-spinner> 註冊中...';
+      signupBtn.innerHTML = `<ion-spinner name="crescent"></ion-spinner> ${t('auth.signingUp')}`;
     }
 
     await signup(username, password);
 
-    currentUsername = username;
+    dispatch({ type: 'auth/changed', username });
     localStorage.setItem('username', username); // 保存用戶名
 
-    await showSuccess(`註冊成功！歡迎，${username}！`);
+    await showSuccess(t('auth.signupSuccess', { username }));
     closeAuthModal();
-    updateAuthUI();
 
     // 載入用戶的收藏列表（新用戶應該是空的）
     await loadUserBookmarks();
@@ -586,7 +726,7 @@ async function handleSignup(event: Event): Promise<void> {
       let isNetworkError = false;
 
       if (errorMsg.includes('already registered')) {
-        errorMsg = '此使用者名稱已被註冊，請換一個試試';
+        errorMsg = t('auth.usernameTaken');
       } else if (errorMsg.includes('Error:')) {
         errorMsg = errorMsg.replace('Error: ', '');
       }
@@ -594,7 +734,7 @@ async function handleSignup(event: Event): Promise<void> {
       // 判斷是否為網路錯誤（可重試）
       if (errorMsg.includes('testing purposes') || errorMsg.includes('網路')) {
         isNetworkError = true;
-        errorMsg = '網路連接失敗，請點擊重試按鈕';
+        errorMsg = t('auth.networkError');
       }
 
       showFormError('signupError', errorMsg, isNetworkError, () => {
@@ -602,22 +742,16 @@ async function handleSignup(event: Event): Promise<void> {
         handleSignup(event);
       });
     } else {
-      showFormError(
-        'signupError',
-        '註冊失敗，請檢查網路連接後重試',
-        true,
-        () => {
-          hideFormError('signupError');
-          handleSignup(event);
-        }
-      );
+      showFormError('signupError', t('auth.signupFailed'), true, () => {
+        hideFormError('signupError');
+        handleSignup(event);
+      });
     }
   } finally {
     // 恢復按鈕狀態
     if (signupBtn) {
       signupBtn.disabled = false;
-      signupBtn.innerHTML =
-        '<ion-icon name="person-add-outline" slot="start"></ion-icon> 註冊';
+      signupBtn.innerHTML = `<ion-icon name="person-add-outline" slot="start"></ion-icon> <span data-i18n="auth.signup">${t('auth.signup')}</span>`;
     }
   }
 }
@@ -627,32 +761,25 @@ async function handleSignup(event: Event): Promise<void> {
  */
 async function handleLogout(): Promise<void> {
   logout();
-  currentUsername = null;
+  dispatch({ type: 'auth/changed', username: null });
   localStorage.removeItem('username'); // 清除用戶名
 
-  // 清除收藏狀態
-  bookmarkedItems.clear();
-
-  updateAuthUI();
-
-  // 更新所有收藏按鈕為未收藏狀態
-  updateAllBookmarkButtons();
+  // 清除收藏狀態（發件匣保留在本機，下次登入後繼續同步），訂閱的收藏按鈕更新為未收藏
+  dispatch({ type: 'bookmarks/loaded', ids: new Set() });
+  await loadOutbox();
 
-  await showSuccess('已成功登出');
+  await showSuccess(t('auth.logoutSuccess'));
 }
 
 /**
  * 處理收藏/取消收藏功能（步驟 17）
+ * 樂觀更新收藏狀態，操作經發件匣發送；網絡或上游故障時保留到恢復連線後同步
  */
-async function handleBookmark(
-  itemId: number,
-  itemName: string,
-  buttonElement: HTMLElement
-): Promise<void> {
+async function handleBookmark(itemId: number, itemName: string): Promise<void> {
   // 檢查是否已登入
   if (!isLoggedIn()) {
     // 先顯示提示訊息（縮短時間到 2 秒）
-    showError('請先登入才能使用收藏功能', 2000);
+    showError(t('bookmarks.loginRequired'), 2000);
 
     // 延遲 1.2 秒後打開登入視窗，讓用戶有時間看到提示
     setTimeout(() => {
@@ -662,68 +789,104 @@ async function handleBookmark(
     return;
   }
 
-  const isBookmarked = bookmarkedItems.has(itemId);
+  const isBookmarked = getState().bookmarkedIds.has(itemId);
 
   try {
-    // 禁用按鈕，顯示載入狀態
-    buttonElement.style.pointerEvents = 'none';
-    buttonElement.style.opacity = '0.6';
+    // 樂觀更新：立即切換收藏狀態（「只看收藏」模式下取消收藏的項目由 selectVisibleItems 移除）
+    dispatch({
+      type: 'bookmarks/toggled',
+      id: itemId,
+      bookmarked: !isBookmarked,
+    });
+    await enqueueBookmarkMutation(itemId, isBookmarked ? 'remove' : 'add');
+    updateAllBookmarkButtons(); // 待同步的虛線邊框
 
-    if (isBookmarked) {
-      // 取消收藏
-      const result = await removeBookmark(itemId);
-      bookmarkedItems.delete(itemId);
+    const result = await syncBookmarkOutbox();
+    const synced = result.synced.find(
+      (entry) => entry.mutation.itemId === itemId
+    );
 
-      if (result.message === 'newly deleted') {
-        await showSuccess(`已取消收藏 ${itemName}`);
+    if (synced) {
+      const { message } = synced.response;
+      if (message === 'newly deleted') {
+        await showSuccess(t('bookmarks.removed', { name: itemName }));
+      } else if (message === 'newly bookmarked') {
+        await showSuccess(t('bookmarks.added', { name: itemName }));
+      } else if (message === 'already bookmarked') {
+        await showSuccess(t('bookmarks.alreadyAdded', { name: itemName }));
       }
+      console.log('✅ 收藏操作已同步:', synced);
+    } else if (isPending(itemId) && !result.needsLogin) {
+      await showSuccess(
+        t('bookmarks.queued', {
+          action: isBookmarked ? 'remove' : 'add',
+          name: itemName,
+        })
+      );
+    }
+  } catch (error) {
+    await showError(t('bookmarks.failed'));
+    console.error('收藏操作錯誤:', error);
+  }
+}
 
-      // 更新按鈕為未收藏狀態
-      updateBookmarkButton(buttonElement, false);
-      console.log('✅ 取消收藏成功:', result);
-
-      // 重新載入收藏列表以確保數據同步
-      await loadUserBookmarks();
+// 發件匣有待同步操作時的重試計時器（上游故障但瀏覽器仍在線時使用）
+let outboxRetryTimer: number | null = null;
+const OUTBOX_RETRY_INTERVAL = 30000;
 
-      // 如果開啟了「只看收藏」模式，重新渲染列表
-      if (showOnlyBookmarked) {
-        renderList();
-      }
-    } else {
-      // 添加收藏
-      const result = await addBookmark(itemId);
-      bookmarkedItems.add(itemId);
-
-      if (result.message === 'newly bookmarked') {
-        await showSuccess(`已收藏 ${itemName}`);
-      } else if (result.message === 'already bookmarked') {
-        await showSuccess(`${itemName} 已在收藏清單中`);
-      }
+/**
+ * 同步收藏發件匣，並處理被拒絕的操作
+ */
+async function syncBookmarkOutbox(): Promise<OutboxFlushResult> {
+  if (outboxRetryTimer !== null) {
+    window.clearTimeout(outboxRetryTimer);
+    outboxRetryTimer = null;
+  }
+
+  const result = await flushOutbox();
+
+  if (result.needsLogin) {
+    await showError(t('bookmarks.sessionExpired'));
+    openAuthModal('login');
+  } else if (result.remaining > 0) {
+    // 瀏覽器離線時等待 online 事件，否則定時重試
+    if (navigator.onLine) {
+      outboxRetryTimer = window.setTimeout(() => {
+        outboxRetryTimer = null;
+        syncBookmarkOutbox().catch((error) => {
+          console.warn('⚠️ 同步收藏發件匣失敗:', error);
+        });
+      }, OUTBOX_RETRY_INTERVAL);
+    }
+  }
 
-      // 更新按鈕為已收藏狀態
-      updateBookmarkButton(buttonElement, true);
-      console.log('✅ 收藏成功:', result);
+  if (result.rejected.length > 0) {
+    console.error('❌ 收藏操作被拒絕:', result.rejected);
+    await showError(
+      t('bookmarks.rejected', { message: result.rejected[0].error.message })
+    );
+  }
 
-      // 重新載入收藏列表以確保數據同步
-      await loadUserBookmarks();
-    }
-  } catch (error) {
-    if (error instanceof ApiError) {
-      if (error.message.includes('請先登入')) {
-        await showError('登入狀態已過期，請重新登入');
-        openAuthModal('login');
-      } else {
-        await showError(`操作失敗：${error.message}`);
-      }
-    } else {
-      await showError('操作失敗，請稍後再試');
-    }
-    console.error('收藏操作錯誤:', error);
-  } finally {
-    // 恢復按鈕狀態
-    buttonElement.style.pointerEvents = '';
-    buttonElement.style.opacity = '';
+  // 重新載入收藏列表以確保數據同步（被拒絕的操作會在此還原）
+  if (result.synced.length > 0 || result.rejected.length > 0) {
+    await loadUserBookmarks(false);
   }
+
+  return result;
+}
+
+/**
+ * 更新待同步提示（標題列的同步按鈕）
+ */
+function updateSyncIndicator(pendingCount: number): void {
+  const indicator = document.getElementById('syncIndicator');
+  const count = document.getElementById('syncIndicatorCount');
+  if (!indicator || !count) return;
+
+  indicator.style.display = pendingCount > 0 ? '' : 'none';
+  count.textContent = String(pendingCount);
+
+  updateAllBookmarkButtons();
 }
 
 /**
@@ -733,6 +896,15 @@ function updateBookmarkButton(
   buttonElement: HTMLElement,
   isBookmarked: boolean
 ): void {
+  // 狀態未變時不修改 DOM（重新載入收藏列表後只更新有變化的按鈕）
+  // 有待同步操作的按鈕顯示為虛線邊框
+  const itemId = parseInt(buttonElement.dataset.itemId || '', 10);
+  buttonElement.classList.toggle('pending-sync', isPending(itemId));
+
+  const state = String(isBookmarked);
+  if (buttonElement.dataset.bookmarked === state) return;
+  buttonElement.dataset.bookmarked = state;
+
   const icon = buttonElement.querySelector('ion-icon');
   const textNode = Array.from(buttonElement.childNodes).find(
     (node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
@@ -741,13 +913,13 @@ function updateBookmarkButton(
   if (isBookmarked) {
     // 已收藏狀態：實心紅心
     if (icon) icon.setAttribute('name', 'heart');
-    if (textNode) textNode.textContent = ' 已收藏';
+    if (textNode) textNode.textContent = ` ${t('bookmarks.bookmarked')}`;
     buttonElement.style.setProperty('--background', '#eb445a');
     buttonElement.style.setProperty('--color', 'white');
   } else {
     // 未收藏狀態：空心紅心
     if (icon) icon.setAttribute('name', 'heart-outline');
-    if (textNode) textNode.textContent = ' 收藏';
+    if (textNode) textNode.textContent = ` ${t('bookmarks.bookmark')}`;
     buttonElement.style.setProperty('--background', 'transparent');
     buttonElement.style.setProperty('--color', '#eb445a');
   }
@@ -755,28 +927,55 @@ function updateBookmarkButton(
 
 /**
  * 載入用戶的收藏列表（步驟 19）
+ * 服務器的收藏列表會套用發件匣中待同步的操作
+ * @param sync 載入後同步發件匣（登入和初始化時）
  */
-async function loadUserBookmarks(): Promise<void> {
+async function loadUserBookmarks(sync = true): Promise<void> {
   if (!isLoggedIn()) {
     console.log('用戶未登入，跳過載入收藏列表');
-    bookmarkedItems.clear();
+    dispatch({ type: 'bookmarks/loaded', ids: new Set() });
     return;
   }
 
+  if (sync) {
+    await loadOutbox();
+  }
+
   try {
     console.log('正在載入用戶收藏列表...');
     const response = await getBookmarks();
 
-    // 更新收藏狀態
-    bookmarkedItems = new Set(response.item_ids);
-    console.log(`✅ 成功載入收藏列表，共 ${bookmarkedItems.size} 個項目`);
-
-    // 更新所有收藏按鈕的視覺狀態
-    updateAllBookmarkButtons();
+    // 更新收藏狀態（訂閱的收藏按鈕隨之更新）
+    const ids = applyPendingMutations(response.item_ids);
+    dispatch({ type: 'bookmarks/loaded', ids });
+    console.log(`✅ 成功載入收藏列表，共 ${ids.size} 個項目`);
   } catch (error) {
     console.error('❌ 載入收藏列表失敗:', error);
-    // 載入失敗時清空收藏狀態
-    bookmarkedItems.clear();
+    // 載入失敗時只保留待同步的收藏
+    dispatch({ type: 'bookmarks/loaded', ids: applyPendingMutations([]) });
+  }
+
+  if (sync) {
+    syncBookmarkOutbox().catch((error) => {
+      console.warn('⚠️ 同步收藏發件匣失敗:', error);
+    });
+  }
+}
+
+/**
+ * 獲取收藏的項目 ID（套用發件匣中待同步的操作）
+ * 網絡中斷或服務器故障時改用上次載入的收藏列表
+ */
+async function loadBookmarkedIds(): Promise<Set<number>> {
+  try {
+    const response = await getBookmarks();
+    return applyPendingMutations(response.item_ids);
+  } catch (error) {
+    if (!(error instanceof ApiError) || !isTransientError(error)) {
+      throw error;
+    }
+    console.warn('⚠️ 無法獲取收藏列表，使用上次載入的收藏:', error.message);
+    return applyPendingMutations(getState().bookmarkedIds);
   }
 }
 
@@ -784,10 +983,11 @@ async function loadUserBookmarks(): Promise<void> {
  * 更新所有收藏按鈕的視覺狀態
  */
 function updateAllBookmarkButtons(): void {
+  const { bookmarkedIds } = getViewState();
   document.querySelectorAll('.bookmark-btn').forEach((button) => {
     const itemId = button.getAttribute('data-item-id');
     if (itemId) {
-      const isBookmarked = bookmarkedItems.has(parseInt(itemId));
+      const isBookmarked = bookmarkedIds.has(parseInt(itemId));
       updateBookmarkButton(button as HTMLElement, isBookmarked);
     }
   });
@@ -797,7 +997,8 @@ function updateAllBookmarkButtons(): void {
  * 切換收藏篩選模式
  */
 async function toggleBookmarkFilter(enabled: boolean): Promise<void> {
-  showOnlyBookmarked = enabled;
+  dispatch({ type: 'bookmarkFilter/changed', enabled });
+  syncSearchUrl();
 
   // 更新容器的 active 狀態
   const container = document.getElementById('bookmarkFilterContainer');
@@ -817,13 +1018,14 @@ async function toggleBookmarkFilter(enabled: boolean): Promise<void> {
     stopPreviewRotation();
 
     if (!isLoggedIn()) {
-      await showError('請先登入才能查看收藏');
+      await showError(t('bookmarks.loginToView'));
       // 重置 toggle
       const toggle = document.getElementById('bookmarkFilterToggle') as any;
       if (toggle) {
         toggle.checked = false;
       }
-      showOnlyBookmarked = false;
+      dispatch({ type: 'bookmarkFilter/changed', enabled: false });
+      syncSearchUrl();
       if (container) {
         container.classList.remove('active');
       }
@@ -835,121 +1037,74 @@ async function toggleBookmarkFilter(enabled: boolean): Promise<void> {
       showLoadingBar();
       showListLoading();
 
-      // 1. 從 API 獲取收藏列表
-      const bookmarkResponse = await getBookmarks();
-      const bookmarkedIds = bookmarkResponse.item_ids;
+      // 1. 從 API 獲取收藏列表（套用發件匣中待同步的操作）
+      const bookmarkedIds = Array.from(await loadBookmarkedIds());
 
       console.log(`📋 用戶收藏了 ${bookmarkedIds.length} 個景點`);
 
       if (bookmarkedIds.length === 0) {
         // 沒有收藏任何景點
-        items = [];
         hideListLoading();
         hideLoadingBar();
-        renderList();
+        dispatch({ type: 'bookmarkFilter/loaded', items: [] });
         return;
       }
 
-      // 2. 獲取所有收藏的景點詳細資料
-      // 由於 API 不支持批量 ID 查詢，需要分頁獲取直到找齊所有收藏的景點
-      const foundItems = new Map<number, any>(); // 使用 Map 避免重複
-      let page = 1;
-      const maxPages = 10; // 最多查詢 10 頁
-
+      // 2. 一次獲取所有收藏的景點詳細資料（由服務器的目錄索引按 ID 查找）
       console.log(`🔍 開始查詢 ${bookmarkedIds.length} 個收藏景點...`);
 
-      // 持續分頁獲取，直到找齊所有收藏的景點
-      while (foundItems.size < bookmarkedIds.length && page <= maxPages) {
-        console.log(`📄 獲取第 ${page} 頁...`);
-
-        const pageResponse = await fetchAttractions({
-          page: page,
-          limit: 20,
-        });
-
-        // 檢查這一頁中有哪些是收藏的景點
-        pageResponse.items.forEach((item) => {
-          if (bookmarkedIds.includes(item.id) && !foundItems.has(item.id)) {
-            foundItems.set(item.id, item);
-            console.log(`✅ 找到收藏 #${item.id}: ${item.title}`);
-          }
-        });
-
-        console.log(`📊 進度: ${foundItems.size}/${bookmarkedIds.length}`);
-
-        // 如果找齊了所有收藏的景點，停止查詢
-        if (foundItems.size >= bookmarkedIds.length) {
-          break;
-        }
-
-        // 如果這一頁沒有數據了，停止
-        if (pageResponse.items.length === 0) {
-          break;
-        }
-
-        page++;
-      }
+      const batch = await fetchResourceByIds(
+        currentTopic().endpoint,
+        bookmarkedIds
+      );
 
-      if (foundItems.size < bookmarkedIds.length) {
-        console.warn(`⚠️ 只找到 ${foundItems.size}/${bookmarkedIds.length} 個`);
+      if (batch.missing.length > 0) {
+        console.warn(
+          `⚠️ 有 ${batch.missing.length} 個收藏在目錄中找不到:`,
+          batch.missing
+        );
+        // 不阻塞列表渲染
+        showError(
+          t('bookmarks.missing', { count: batch.missing.length }),
+          5000
+        ).catch(() => undefined);
       }
 
       // 轉換為統一格式
-      const bookmarkedAttractions = Array.from(foundItems.values()).map(
-        (item) =>
-          ({
-            id: item.id,
-            title: item.title,
-            description: item.description,
-            category: item.category,
-            imageUrl: item.image_url,
-            videoUrl: item.video_url,
-            openingHours: item.opening_hours,
-            address: item.address,
-            city: item.city,
-            country: item.country,
-            tags: item.tags,
-            facilities: item.facilities,
-            name: item.title,
-            area: item.category,
-            openTime: item.opening_hours || '請查詢官方資訊',
-            feature: item.description,
-            image: item.image_url,
-            video: item.video_url,
-          }) as Attraction
-      );
+      const bookmarkedAttractions = batch.items.map(toAttraction);
 
-      // 保存完整收藏列表（用於繁簡搜索）
-      fullBookmarkedItems = bookmarkedAttractions;
-      items = bookmarkedAttractions;
+      // 預先建立收藏的搜索索引
+      indexItems(bookmarkedAttractions).catch((error) => {
+        console.warn('⚠️ 建立搜索索引失敗:', error);
+      });
 
-      console.log(
-        `✅ 成功載入 ${items.length} 個收藏景點（查詢了 ${page} 頁）`
-      );
+      console.log(`✅ 成功載入 ${bookmarkedAttractions.length} 個收藏景點`);
 
       hideListLoading();
       hideLoadingBar();
-      renderList();
+
+      // 保存完整收藏列表（用於繁簡搜索），訂閱的 renderList 重新渲染
+      dispatch({ type: 'bookmarkFilter/loaded', items: bookmarkedAttractions });
+      refreshFacetCounts(); // 改為統計收藏列表
     } catch (error) {
       hideListLoading();
       hideLoadingBar();
       console.error('❌ 載入收藏景點失敗:', error);
-      await showError('載入收藏景點失敗，請稍後再試');
+      await showError(t('bookmarks.loadFailed'));
     }
   } else {
     // 關閉「只看收藏」：返回正常搜索模式
     console.log('✅ 返回顯示所有項目');
 
-    // 清空當前列表和收藏緩存
-    items = [];
-    fullBookmarkedItems = [];
+    // 清空當前列表（收藏緩存已在 bookmarkFilter/changed 清空），顯示搜索提示
+    dispatch({ type: 'list/cleared' });
 
     // 重新啟動預覽輪換（如果有預覽項目）
-    if (previewItems.length > 0) {
+    if (getState().previewItems.length > 0) {
       startPreviewRotation();
     }
 
-    showSearchPrompt();
+    refreshFacetCounts();
   }
 }
 
@@ -962,25 +1117,141 @@ function updateAuthUI(): void {
   const logoutBtn = document.getElementById('logoutHeaderBtn');
   const usernameDisplay = document.getElementById('usernameDisplay');
 
-  if (isLoggedIn() && currentUsername) {
+  const { username } = getViewState();
+  if (isLoggedIn() && username) {
     // 已登入狀態
     if (loginBtn) loginBtn.style.display = 'none';
     if (userBtn) userBtn.style.display = 'block';
     if (logoutBtn) logoutBtn.style.display = 'block';
-    if (usernameDisplay) usernameDisplay.textContent = currentUsername;
+    if (usernameDisplay) usernameDisplay.textContent = username;
   } else {
     // 未登入狀態
     if (loginBtn) loginBtn.style.display = 'block';
     if (userBtn) userBtn.style.display = 'none';
     if (logoutBtn) logoutBtn.style.display = 'none';
   }
+
+  // 顯示文字按使用者保存，登入狀態改變時切換
+  restoreDisplayScript().then(updateScriptSelector);
+}
+
+/**
+ * 初始化顯示文字選單
+ */
+function initScriptSelector(): void {
+  const scriptSelect = document.getElementById('scriptSelect') as any;
+  if (!scriptSelect) return;
+
+  DISPLAY_SCRIPTS.forEach((script) => {
+    const option = document.createElement('ion-select-option');
+    (option as any).value = script.value;
+    option.textContent = scriptLabel(script.value, script.label);
+    scriptSelect.appendChild(option);
+  });
+
+  updateScriptSelector();
+}
+
+/**
+ * 顯示文字選項的名稱（當前語言）
+ */
+function scriptLabel(value: string, fallback: string): string {
+  const key = `script.${value}`;
+  return hasMessage(key) ? t(key) : fallback;
+}
+
+/**
+ * 同步顯示文字選單的值
+ */
+function updateScriptSelector(): void {
+  const scriptSelect = document.getElementById('scriptSelect') as any;
+  if (scriptSelect) {
+    scriptSelect.value = getDisplayScript();
+  }
+}
+
+/**
+ * 初始化語言選單（語言名稱以該語言顯示）
+ */
+function initLocaleSelector(): void {
+  const localeSelect = document.getElementById('localeSelect') as any;
+  if (!localeSelect) return;
+
+  LOCALES.forEach((locale) => {
+    const option = document.createElement('ion-select-option');
+    (option as any).value = locale.value;
+    option.textContent = locale.label;
+    localeSelect.appendChild(option);
+  });
+
+  localeSelect.value = getLocale();
+}
+
+/**
+ * 更新動態產生的選項名稱（主題、排序及顯示文字）
+ */
+function updateOptionLabels(): void {
+  document
+    .querySelectorAll<HTMLElement>('#topicSelect ion-select-option')
+    .forEach((option) => {
+      const topic = findTopicByEndpoint((option as any).value);
+      if (topic) option.textContent = `${topic.id}. ${topicName(topic)}`;
+    });
+
+  document
+    .querySelectorAll<HTMLElement>('#sortSelect ion-select-option')
+    .forEach((option) => {
+      const value = (option as any).value;
+      const sort = SORT_OPTIONS.find((item) => item.value === value);
+      if (sort) option.textContent = sortLabel(sort.value, sort.label);
+    });
+
+  document
+    .querySelectorAll<HTMLElement>('#scriptSelect ion-select-option')
+    .forEach((option) => {
+      const value = (option as any).value;
+      const script = DISPLAY_SCRIPTS.find((item) => item.value === value);
+      if (script) option.textContent = scriptLabel(script.value, script.label);
+    });
+}
+
+/**
+ * 切換語言後重新渲染動態內容（靜態 HTML 已由 i18n.ts 翻譯）
+ */
+function handleLocaleChange(): void {
+  updateTopicUI();
+  updateOptionLabels();
+  renderSortControls();
+  updateAuthUI();
+  renderFacetControls();
+
+  // 收藏按鈕只在狀態改變時更新文字，清除記錄的狀態使其重新渲染
+  document.querySelectorAll<HTMLElement>('.bookmark-btn').forEach((button) => {
+    delete button.dataset.bookmarked;
+    updateBookmarkButton(
+      button,
+      getViewState().bookmarkedIds.has(
+        parseInt(button.dataset.itemId || '', 10)
+      )
+    );
+  });
+
+  // 使用已載入的資料重新渲染，不重新請求
+  if (document.body.classList.contains('detail-mode')) {
+    navigate(window.location.pathname, { replace: true });
+  } else {
+    renderListView();
+    renderListTail();
+  }
+
+  if (chartInstance) initAreaChart();
 }
 
 /**
  * 顯示載入狀態
  */
 function showLoading(): void {
-  isLoading = true;
+  dispatch({ type: 'list/loading', isLoading: true });
   const list = document.querySelector('ion-list');
   if (!list) return;
 
@@ -989,7 +1260,7 @@ function showLoading(): void {
   loadingItem.innerHTML = `
     <div class="item-content" style="text-align:center; padding:2rem;">
       <ion-spinner name="crescent"></ion-spinner>
-      <p style="margin-top:1rem;">載入中...</p>
+      <p style="margin-top:1rem;">${t('common.loading')}</p>
     </div>
   `;
   list.appendChild(loadingItem);
@@ -999,7 +1270,7 @@ function showLoading(): void {
  * 隱藏載入狀態
  */
 function hideLoading(): void {
-  isLoading = false;
+  dispatch({ type: 'list/loading', isLoading: false });
   const loadingIndicator = document.getElementById('loading-indicator');
   if (loadingIndicator) {
     loadingIndicator.remove();
@@ -1014,13 +1285,14 @@ async function showError(
   duration: number = 3000
 ): Promise<void> {
   const toast = document.createElement('ion-toast') as any;
-  toast.message = message;
+  // toast 訊息不在頁面 DOM 中，需要另外轉換為顯示文字
+  toast.message = await displayText(message);
   toast.duration = duration;
   toast.color = 'danger';
   toast.position = 'top';
   toast.buttons = [
     {
-      text: '關閉',
+      text: await displayText(t('common.close')),
       role: 'cancel',
     },
   ];
@@ -1046,7 +1318,7 @@ function showFormError(
     <ion-icon name="alert-circle"></ion-icon>
     <div class="error-content">
       <div class="error-message">${message}</div>
-      ${canRetry && retryCallback ? '<button type="button" class="retry-btn">🔄 重試</button>' : ''}
+      ${canRetry && retryCallback ? `<button type="button" class="retry-btn">🔄 ${t('common.retry')}</button>` : ''}
     </div>
   `;
 
@@ -1078,7 +1350,7 @@ async function showSuccess(
   duration: number = 2000
 ): Promise<void> {
   const toast = document.createElement('ion-toast') as any;
-  toast.message = message;
+  toast.message = await displayText(message);
   toast.duration = duration;
   toast.color = 'success';
   toast.position = 'top';
@@ -1094,81 +1366,69 @@ async function showSuccess(
  * @param append 是否追加資料（用於分頁載入更多）
  */
 async function loadAttractionsFromAPI(
-  options?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    category?: string;
-  },
+  options?: ResourceQuery,
   showErrorUI: boolean = true,
   append: boolean = false
 ): Promise<void> {
+  // 記錄發出請求時的世代，回應返回時世代已改變代表已被新請求取代
+  const generation = listGeneration;
+
   try {
     if (!append) {
       showLoading();
     }
 
-    const response = await fetchAttractions(options);
+    const response = await fetchListPage(options || {});
+    if (generation !== listGeneration) {
+      throw new ApiAbortError('回應已過期');
+    }
 
     // 將 API 資料轉換為統一格式（蛇形命名 → 駝峰命名）
-    const newItems = response.items.map(
-      (item) =>
-        ({
-          // API 原始欄位（駝峰命名）
-          id: item.id,
-          title: item.title,
-          description: item.description,
-          category: item.category,
-          imageUrl: item.image_url, // 蛇形 → 駝峰
-          videoUrl: item.video_url, // 蛇形 → 駝峰
-          openingHours: item.opening_hours,
-          address: item.address,
-          city: item.city,
-          country: item.country,
-          tags: item.tags,
-          facilities: item.facilities,
-          // 兼容本地資料欄位
-          name: item.title,
-          area: item.category,
-          openTime: item.opening_hours || '請查詢官方資訊',
-          feature: item.description,
-          image: item.image_url,
-          video: item.video_url,
-        }) as Attraction
-    );
+    const newItems = response.items.map(toAttraction);
+    const pageLimit = options?.limit || getConfig().pageLimit;
 
     if (append) {
-      // 追加模式：合併新舊資料
-      items = [...items, ...newItems];
       console.log('成功載入更多景點:', newItems.length, '個');
-
-      // 檢查是否還有更多資料
-      hasMoreData =
-        newItems.length > 0 && newItems.length === (options?.limit || 20);
     } else {
-      // 替換模式：完全替換資料
-      items = newItems;
-      console.log('成功從 API 載入景點:', items.length, '個');
-      currentPage = options?.page || 1;
-      hasMoreData = true;
+      console.log('成功從 API 載入景點:', newItems.length, '個');
     }
 
-    useLocalData = false; // 標記為使用 API 數據
     hideLoading();
 
+    // 追加模式合併新舊資料，替換模式完全替換；標記為使用 API 數據，訂閱的 renderList 重新渲染
     // 不需要在這裡填充分類，因為已在 initAreaChart() 中從圖表API獲取
+    dispatch({
+      type: 'list/pageLoaded',
+      items: newItems,
+      page: options?.page || 1,
+      hasMoreData: append
+        ? newItems.length > 0 && newItems.length === pageLimit
+        : newItems.length === pageLimit,
+      append,
+    });
+    syncSearchUrl();
 
-    renderList(); // 渲染列表而不是調用 updateList
+    // 預先載入下一頁，捲動到底部時可立即顯示
+    const { hasMoreData, page } = getState();
+    if (hasMoreData) {
+      prefetchNextPage({ ...options, page });
+    }
   } catch (error) {
+    // 已被新請求取代：不修改 UI（由新請求負責），只通知調用者
+    if (error instanceof ApiAbortError || generation !== listGeneration) {
+      console.log(`⏭️ 丟棄已取代的清單請求（世代 ${generation}）`);
+      throw error instanceof ApiAbortError ? error : new ApiAbortError();
+    }
+
     hideLoading();
     console.error('載入 API 資料失敗:', error);
 
     // 根據參數決定是否顯示錯誤 UI
     if (showErrorUI) {
       if (error instanceof ApiError) {
-        await showError(`無法載入景點資料：${error.message}`);
+        await showError(t('list.loadFailed', { message: error.message }));
       } else {
-        await showError('網路連接錯誤，請檢查您的網路連接');
+        await showError(t('common.networkError'));
       }
     }
 
@@ -1178,57 +1438,554 @@ async function loadAttractionsFromAPI(
 }
 
 /**
- * 載入更多資料（分頁）
+ * 當前搜索條件的查詢參數（不含頁碼）
  */
-async function loadMoreAttractions(): Promise<void> {
-  if (isLoadingMore || !hasMoreData || useLocalData) {
-    return;
-  }
+function getListQuery(): ResourceQuery {
+  const { search, category } = getState();
+  return {
+    limit: getConfig().pageLimit,
+    search: search || undefined,
+    category: category || undefined,
+    ...getSortQuery(),
+  };
+}
 
-  try {
-    isLoadingMore = true;
-    currentPage++;
+/**
+ * 查詢參數的唯一鍵（用於比對預先載入的頁面）
+ */
+function getQueryKey(query: ResourceQuery): string {
+  return JSON.stringify([
+    currentTopic().endpoint,
+    query.page || 1,
+    query.limit,
+    query.search,
+    query.category,
+    query.sort,
+    query.order,
+    getFacetQuery(),
+  ]);
+}
 
-    // 顯示頂部加載進度條
-    showLoadingBar();
+/**
+ * 請求一頁清單資料
+ * 有分面篩選條件時改用服務器的目錄查詢（上游 API 不支援按城市、標籤等欄位篩選）
+ */
+function requestListPage(
+  query: ResourceQuery
+): Promise<ResourceListResponse<ApiAttraction>> {
+  const requestOptions = { signal: listController.signal };
+  if (!hasActiveFacets()) {
+    return fetchResource(currentTopic().endpoint, query, requestOptions);
+  }
 
-    // 顯示載入按鈕的載入狀態
-    const loadMoreBtn = document.getElementById('loadMoreBtn') as any;
-    if (loadMoreBtn) {
-      loadMoreBtn.disabled = true;
-      const originalText = loadMoreBtn.textContent;
-      loadMoreBtn.innerHTML =
-        '<ion-spinner name="crescent"></ion-spinner> 載入中...';
+  const { filters, match } = getFacetQuery();
+  return fetchCatalogue(
+    currentTopic().endpoint,
+    {
+      ...query,
+      filters: {
+        ...filters,
+        category: query.category ? [query.category] : undefined,
+      },
+      match,
+    },
+    requestOptions
+  );
+}
 
-      // 使用保存的搜索和分類條件（修復 bug：保持篩選條件）
-      await loadAttractionsFromAPI(
-        {
-          page: currentPage,
-          limit: 20,
-          search: currentSearch || undefined,
-          category: currentCategory || undefined,
-        },
-        true, // 顯示錯誤 UI
-        true // 追加模式
-      );
+/**
+ * 載入分面統計（按當前搜索、分類及篩選條件）
+ * 「只看收藏」模式在客戶端統計收藏列表，否則由服務器的目錄索引統計
+ */
+async function loadFacetCounts(
+  facetQuery: Pick<CatalogueQuery, 'filters' | 'match'>
+): Promise<FacetCounts> {
+  const { search, category, showOnlyBookmarked, fullBookmarkedItems } =
+    getState();
+  const query: CatalogueQuery = {
+    search: search || undefined,
+    filters: {
+      ...facetQuery.filters,
+      category: category ? [category] : undefined,
+    },
+    match: facetQuery.match,
+  };
 
-      loadMoreBtn.textContent = originalText;
-      loadMoreBtn.disabled = false;
+  if (showOnlyBookmarked && isLoggedIn()) {
+    return catalogueFacets(fullBookmarkedItems.map(toApiAttraction), query);
+  }
 
-      // 隱藏頂部加載進度條
-      hideLoadingBar();
+  const response = await fetchCatalogueFacets(currentTopic().endpoint, query);
+  return response.facets as FacetCounts;
+}
+
+/**
+ * 開始新的清單請求世代：取消進行中的搜尋、載入更多和預先載入（包括等待中的重試）
+ * @returns 新的世代編號
+ */
+function beginListRequest(): number {
+  listController.abort();
+  listController = new AbortController();
+  prefetchedPage = null;
+  return ++listGeneration;
+}
 
-      // 提示成功載入（不顯示技術細節的頁碼）
-      await showSuccess(`成功載入更多景點`);
+/**
+ * 預先載入下一頁
+ * @param query 當前頁的查詢參數
+ */
+function prefetchNextPage(query: ResourceQuery): void {
+  const nextQuery = { ...query, page: (query.page || 1) + 1 };
+  const response = requestListPage(nextQuery);
+
+  // 預先載入失敗時丟棄，實際載入時重新請求
+  response.catch(() => {
+    if (prefetchedPage?.response === response) {
+      prefetchedPage = null;
     }
+  });
+
+  prefetchedPage = { key: getQueryKey(nextQuery), response };
+  console.log(`⏩ 預先載入第 ${nextQuery.page} 頁`);
+}
+
+/**
+ * 獲取一頁清單資料（條件相同時使用預先載入的結果）
+ */
+function fetchListPage(
+  query: ResourceQuery
+): Promise<ResourceListResponse<ApiAttraction>> {
+  const prefetched = prefetchedPage;
+  prefetchedPage = null;
+
+  if (prefetched && prefetched.key === getQueryKey(query)) {
+    console.log(`⚡ 使用預先載入的第 ${query.page || 1} 頁`);
+    return prefetched.response;
+  }
+
+  return requestListPage(query);
+}
+
+/**
+ * 是否可以載入下一頁（清單頁顯示 API 搜索結果且還有更多資料）
+ */
+function canLoadMore(): boolean {
+  const state = getState();
+  return (
+    selectShowsListTail(state) &&
+    state.hasMoreData &&
+    !state.loadMoreError &&
+    !document.body.classList.contains('detail-mode')
+  );
+}
+
+/**
+ * 載入更多資料（分頁，由無限捲動觸發）
+ * 失敗時在清單尾部顯示錯誤訊息和重試按鈕，而不是彈出提示
+ */
+async function loadMoreAttractions(): Promise<void> {
+  if (getState().isLoadingMore || !canLoadMore()) {
+    return;
+  }
+
+  const generation = listGeneration;
+
+  try {
+    // 遞增頁碼，訂閱的 renderListTail 顯示載入中
+    dispatch({ type: 'loadMore/started' });
+
+    // 顯示頂部加載進度條
+    showLoadingBar();
+
+    // 使用保存的搜索、分類和排序條件
+    await loadAttractionsFromAPI(
+      { ...getListQuery(), page: getState().page },
+      false, // 錯誤顯示在清單尾部
+      true // 追加模式
+    );
   } catch (error) {
-    // 隱藏頂部加載進度條
-    hideLoadingBar();
-    // 錯誤已在 loadAttractionsFromAPI 中處理
-    currentPage--; // 恢復頁碼
+    // 已被新搜尋取代（頁碼已由新搜尋重置）
+    if (error instanceof ApiAbortError) return;
+
+    // 恢復頁碼，錯誤訊息顯示在清單尾部
+    dispatch({
+      type: 'loadMore/failed',
+      error:
+        error instanceof ApiError ? error.message : t('common.networkError'),
+    });
     console.error('載入更多資料失敗:', error);
   } finally {
-    isLoadingMore = false;
+    dispatch({ type: 'loadMore/finished' });
+    // 被取代時進度條由新請求負責
+    if (generation === listGeneration) {
+      hideLoadingBar();
+    }
+  }
+}
+
+/**
+ * 重試載入下一頁
+ */
+function retryLoadMore(): void {
+  dispatch({ type: 'loadMore/retried' });
+  loadMoreAttractions();
+}
+
+/**
+ * 渲染清單尾部狀態（載入中、錯誤重試、已載入全部），並更新無限捲動的啟用狀態
+ */
+function renderListTail(): void {
+  const tail = document.getElementById('listTail');
+  if (!tail) return;
+
+  const state = getViewState();
+  const { items, loadMoreError, hasMoreData, isLoadingMore } = state;
+
+  if (!selectShowsListTail(state)) {
+    tail.innerHTML = '';
+  } else if (loadMoreError) {
+    tail.innerHTML = `
+      <div class="list-tail-error">
+        <ion-icon name="alert-circle-outline"></ion-icon>
+        <span>${t('list.loadMoreFailed', { message: escapeHtml(loadMoreError) })}</span>
+        <ion-button id="loadMoreRetryBtn" size="small" fill="outline">
+          <ion-icon name="refresh-outline" slot="start"></ion-icon>
+          ${t('common.retry')}
+        </ion-button>
+      </div>
+    `;
+    document
+      .getElementById('loadMoreRetryBtn')
+      ?.addEventListener('click', retryLoadMore);
+  } else if (!hasMoreData) {
+    tail.innerHTML = `
+      <div style="color: #666; font-size: 0.9rem; padding: 1rem;">
+        <ion-icon name="checkmark-circle" style="font-size: 1.5rem; vertical-align: middle;"></ion-icon>
+        ${t('list.allLoaded', { count: items.length, unit: topicUnit(viewTopic(), items.length) })}
+      </div>
+    `;
+  } else if (isLoadingMore && !usingIonInfinite) {
+    // ion-infinite-scroll 有自己的載入動畫
+    tail.innerHTML = `
+      <ion-spinner name="crescent"></ion-spinner>
+      <p style="margin: 0.5rem 0 0; color: #666;">${t('list.loadingMore')}</p>
+    `;
+  } else {
+    tail.innerHTML = '';
+  }
+
+  updateInfiniteScroll();
+}
+
+/**
+ * 更新無限捲動的啟用狀態
+ */
+function updateInfiniteScroll(): void {
+  const enabled = canLoadMore();
+
+  const infiniteScroll = document.getElementById('infiniteScroll') as any;
+  if (infiniteScroll && usingIonInfinite) {
+    infiniteScroll.disabled = !enabled;
+  }
+
+  // 重新觀察哨兵：載入完成後哨兵仍在可見範圍內時會再次觸發
+  const sentinel = document.getElementById('listSentinel');
+  if (sentinelObserver && sentinel) {
+    sentinelObserver.unobserve(sentinel);
+    if (enabled) sentinelObserver.observe(sentinel);
+  }
+}
+
+/**
+ * 初始化無限捲動
+ * 優先使用 ion-infinite-scroll；Ionic 元件未載入時使用 IntersectionObserver 觀察清單尾部的哨兵
+ */
+async function initInfiniteScroll(): Promise<void> {
+  const content = document.querySelector('ion-content') as any;
+
+  // 等待 Ionic 元件註冊（最多 2 秒）
+  const ionicReady = await Promise.race([
+    customElements.whenDefined('ion-infinite-scroll').then(() => true),
+    new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 2000)),
+  ]);
+
+  listScrollElement =
+    (ionicReady && (await content?.getScrollElement?.())) ||
+    (document.scrollingElement as HTMLElement | null);
+
+  const infiniteScroll = document.getElementById('infiniteScroll') as any;
+
+  if (ionicReady && infiniteScroll) {
+    usingIonInfinite = true;
+    infiniteScroll.addEventListener('ionInfinite', async () => {
+      await loadMoreAttractions();
+      infiniteScroll.complete();
+    });
+    console.log('♾️ 無限捲動：使用 ion-infinite-scroll');
+  } else if ('IntersectionObserver' in window) {
+    infiniteScroll?.remove();
+    sentinelObserver = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMoreAttractions();
+        }
+      },
+      {
+        root: ionicReady ? listScrollElement : null,
+        rootMargin: '0px 0px 200px 0px', // 距離底部 200px 時開始載入
+      }
+    );
+    console.log('♾️ 無限捲動：使用 IntersectionObserver');
+  } else {
+    console.warn('⚠️ 瀏覽器不支援無限捲動');
+  }
+
+  updateInfiniteScroll();
+}
+
+/**
+ * 記錄清單的捲動錨點（第一個可見項目及其相對位置）
+ */
+function captureScrollAnchor(): { id: string; offset: number } | null {
+  if (!listScrollElement) return null;
+
+  const containerTop = listScrollElement.getBoundingClientRect().top;
+  const listItems = document.querySelectorAll<HTMLElement>(
+    'ion-list .list-item[data-item-id]'
+  );
+
+  for (const element of Array.from(listItems)) {
+    const rect = element.getBoundingClientRect();
+    if (rect.bottom > containerTop) {
+      return {
+        id: element.dataset.itemId || '',
+        offset: rect.top - containerTop,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 恢復捲動錨點（重新渲染或在前方插入項目後，錨點項目保持在原來的位置）
+ */
+function restoreScrollAnchor(
+  anchor: { id: string; offset: number } | null
+): void {
+  if (!anchor || !listScrollElement) return;
+
+  const element = document.querySelector<HTMLElement>(
+    `ion-list .list-item[data-item-id="${CSS.escape(anchor.id)}"]`
+  );
+  if (!element) return;
+
+  const containerTop = listScrollElement.getBoundingClientRect().top;
+  const offset = element.getBoundingClientRect().top - containerTop;
+  listScrollElement.scrollTop += offset - anchor.offset;
+}
+
+/**
+ * 主題名稱（當前語言）
+ */
+function topicName(topic: TopicDefinition): string {
+  const key = `topic.${topic.id}.name`;
+  return hasMessage(key) ? t(key) : topic.name;
+}
+
+/**
+ * 主題項目的單位（當前語言，英文按數量使用單數或複數）
+ */
+function topicUnit(topic: TopicDefinition, count: number = 2): string {
+  const key = `topic.${topic.id}.unit`;
+  return hasMessage(key) ? t(key, { count }) : topic.unit;
+}
+
+/**
+ * 主題欄位的名稱或預設文字（主題專用的訊息優先，如景點的簡介顯示為「特色」）
+ */
+function fieldText(
+  field: TopicField,
+  kind: 'label' | 'fallback',
+  topic: TopicDefinition
+): string | undefined {
+  if (!field[kind]) return undefined;
+
+  const name = field.keys.join('_');
+  const keys = [
+    `topic.${topic.id}.field.${name}.${kind}`,
+    `field.${name}.${kind}`,
+  ];
+  const key = keys.find(hasMessage);
+  return key ? t(key) : field[kind];
+}
+
+/**
+ * 排序選項的名稱（當前語言）
+ */
+function sortLabel(value: string, fallback: string): string {
+  const key = `sort.${value || 'default'}`;
+  return hasMessage(key) ? t(key) : fallback;
+}
+
+/**
+ * 初始化主題選單（十個主題資源）
+ */
+function initTopicSelector(): void {
+  const topicSelect = document.getElementById('topicSelect') as any;
+  if (!topicSelect) return;
+
+  TOPICS.forEach((topic) => {
+    const option = document.createElement('ion-select-option');
+    (option as any).value = topic.endpoint;
+    option.textContent = `${topic.id}. ${topicName(topic)}`;
+    topicSelect.appendChild(option);
+  });
+
+  topicSelect.value = currentTopic().endpoint;
+}
+
+/**
+ * 根據當前主題更新頁面標題
+ */
+function updateTopicUI(): void {
+  const pageTitle = document.getElementById('pageTitle');
+  if (pageTitle) {
+    pageTitle.textContent = t('topic.listTitle', {
+      topic: topicName(currentTopic()),
+    });
+  }
+  document.title = t('topic.documentTitle', {
+    topic: topicName(currentTopic()),
+  });
+}
+
+/**
+ * 切換主題（重置搜索狀態並重新載入圖表和精選項目）
+ */
+async function switchTopic(endpoint: string): Promise<void> {
+  const topic = getTopic(endpoint);
+  if (topic.endpoint === currentTopic().endpoint) return;
+
+  // 清空搜索和分類條件、清單及精選項目（見 store.ts 的 topic/switched）
+  dispatch({ type: 'topic/switched', topic: topic.endpoint });
+  localStorage.setItem('topic', topic.endpoint);
+  console.log(`🔀 切換主題：${topic.name}（${topic.endpoint}）`);
+
+  const searchbar = document.querySelector('ion-searchbar') as any;
+  if (searchbar) searchbar.value = '';
+  const categorySelect = document.getElementById('categorySelect') as any;
+  if (categorySelect) categorySelect.value = '';
+  clearFacets(false); // 篩選值屬於上一個主題
+
+  // 關閉「只看收藏」（收藏列表屬於上一個主題）
+  if (getState().showOnlyBookmarked) {
+    const toggle = document.getElementById('bookmarkFilterToggle') as any;
+    if (toggle) toggle.checked = false;
+    await toggleBookmarkFilter(false);
+  }
+
+  stopPreviewRotation();
+  populateCategoriesFromList([]);
+  updateTopicUI();
+  syncSearchUrl();
+
+  // 重新載入圖表（同時填充分類選單）和精選項目
+  await initAreaChart();
+  await loadRandomPreviewItems();
+  startPreviewRotation();
+}
+
+/**
+ * 獲取當前排序的查詢參數（未選擇排序時不傳送，使用 API 預設順序）
+ */
+function getSortQuery(): Pick<ResourceQuery, 'sort' | 'order'> {
+  const { sort, order } = getState();
+  return sort ? { sort, order } : {};
+}
+
+/**
+ * 更新排序選單的值及排序方向按鈕的圖示
+ */
+function renderSortControls(): void {
+  const { sort, order } = getViewState();
+
+  const sortSelect = document.getElementById('sortSelect') as any;
+  if (sortSelect && sortSelect.value !== sort) sortSelect.value = sort;
+
+  const sortOrderBtn = document.getElementById('sortOrderBtn');
+  if (!sortOrderBtn) return;
+
+  const icon = sortOrderBtn.querySelector('ion-icon');
+  if (icon) {
+    icon.setAttribute(
+      'name',
+      order === 'asc' ? 'arrow-up-outline' : 'arrow-down-outline'
+    );
+  }
+  sortOrderBtn.setAttribute(
+    'aria-label',
+    t(order === 'asc' ? 'sort.ascending' : 'sort.descending')
+  );
+  (sortOrderBtn as any).disabled = !sort;
+}
+
+/**
+ * 初始化排序選單（恢復上次選擇的排序）
+ */
+function initSortControls(savedState: SearchState | null): void {
+  const sortSelect = document.getElementById('sortSelect') as any;
+  if (sortSelect) {
+    SORT_OPTIONS.forEach(({ value, label }) => {
+      const option = document.createElement('ion-select-option');
+      (option as any).value = value;
+      option.textContent = sortLabel(value, label);
+      sortSelect.appendChild(option);
+    });
+  }
+
+  if (savedState) {
+    // 分享的連結使用連結中的排序，以重現相同的結果
+    dispatch({
+      type: 'sort/changed',
+      sort: savedState.sort,
+      order: savedState.order,
+    });
+  } else {
+    const savedSort = localStorage.getItem('sort');
+    dispatch({
+      type: 'sort/changed',
+      sort: isSortField(savedSort) ? savedSort : '',
+      order: localStorage.getItem('sort_order') === 'desc' ? 'desc' : 'asc',
+    });
+  }
+
+  renderSortControls();
+}
+
+/**
+ * 變更排序（收藏模式在客戶端重新排序，搜索結果則從第一頁重新載入）
+ */
+async function changeSort(
+  sort: SortField | '',
+  order: SortOrder
+): Promise<void> {
+  const state = getState();
+  if (sort === state.sort && order === state.order) return;
+
+  // 訂閱的排序選單及 renderList（收藏模式在客戶端排序）隨之更新
+  dispatch({ type: 'sort/changed', sort, order });
+  localStorage.setItem('sort', sort);
+  localStorage.setItem('sort_order', order);
+
+  console.log(`↕️ 排序：${sort || '預設'}（${order}）`);
+
+  if (state.showOnlyBookmarked && isLoggedIn()) {
+    syncSearchUrl();
+  } else if (state.search || state.category || hasActiveFacets()) {
+    await updateList();
+  } else {
+    syncSearchUrl();
   }
 }
 
@@ -1236,11 +1993,11 @@ async function loadMoreAttractions(): Promise<void> {
  * 從分類列表填充分類選單
  */
 function populateCategoriesFromList(categories: string[]): void {
-  const categorySelect = document.querySelector('ion-select');
+  const categorySelect = document.getElementById('categorySelect');
   if (!categorySelect) return;
 
   // 更新選單標籤
-  (categorySelect as any).label = '分類';
+  (categorySelect as any).label = t('filters.category');
 
   // 清空現有選項（保留"全部"選項）
   const allOptions = categorySelect.querySelectorAll('ion-select-option');
@@ -1261,17 +2018,10 @@ function populateCategoriesFromList(categories: string[]): void {
 }
 
 /**
- * 打開視頻彈窗
+ * 將影片連結轉換為可嵌入的網址（YouTube 連結轉為 embed 格式）
+ * @returns 可嵌入的網址，影片 ID 不合法時返回 null
  */
-function openVideoModal(videoUrl: string, title: string): void {
-  const modal = document.getElementById('videoModal');
-  const videoContainer = document.getElementById('videoContainer');
-  const modalTitle = document.getElementById('modalTitle');
-
-  if (!modal || !videoContainer || !modalTitle) return;
-
-  modalTitle.textContent = title;
-
+function getEmbedUrl(videoUrl: string): string | null {
   // 處理 YouTube 鏈接（安全驗證）
   let embedUrl = sanitizeUrl(videoUrl);
 
@@ -1282,7 +2032,7 @@ function openVideoModal(videoUrl: string, title: string): void {
       embedUrl = `https://www.youtube.com/embed/${videoId}`;
     } else {
       console.warn('⚠️ 非法的 YouTube 影片 ID:', videoId);
-      return;
+      return null;
     }
   } else if (videoUrl.includes('youtu.be/')) {
     const videoId = videoUrl.split('youtu.be/')[1].split('?')[0];
@@ -1290,10 +2040,28 @@ function openVideoModal(videoUrl: string, title: string): void {
       embedUrl = `https://www.youtube.com/embed/${videoId}`;
     } else {
       console.warn('⚠️ 非法的 YouTube 影片 ID:', videoId);
-      return;
+      return null;
     }
   }
 
+  return embedUrl || null;
+}
+
+/**
+ * 打開視頻彈窗
+ */
+function openVideoModal(videoUrl: string, title: string): void {
+  const modal = document.getElementById('videoModal');
+  const videoContainer = document.getElementById('videoContainer');
+  const modalTitle = document.getElementById('modalTitle');
+
+  if (!modal || !videoContainer || !modalTitle) return;
+
+  modalTitle.textContent = title;
+
+  const embedUrl = getEmbedUrl(videoUrl);
+  if (!embedUrl) return;
+
   // 使用 DOM API 而非 innerHTML
   const iframe = document.createElement('iframe');
   iframe.src = embedUrl;
@@ -1376,7 +2144,7 @@ function showListLoading(): void {
   loadingItem.style.cssText = 'text-align:center; padding:2rem;';
   loadingItem.innerHTML = `
     <ion-spinner name="crescent"></ion-spinner>
-    <p style="margin-top:1rem; color: #666;">正在搜尋...</p>
+    <p style="margin-top:1rem; color: #666;">${t('list.searching')}</p>
   `;
 
   // 插入到列表開頭
@@ -1410,15 +2178,15 @@ function showPreviewLoading(): void {
       <div style="display: flex; align-items: center; justify-content: center; gap: 1rem; margin-bottom: 1rem;">
         <ion-icon name="search-outline" style="font-size: 2.5rem; color: #667eea; flex-shrink: 0;"></ion-icon>
         <div style="text-align: left;">
-          <h2 style="color: #2d3243; margin: 0; font-size: 1.4rem;">開始探索景點</h2>
+          <h2 style="color: #2d3243; margin: 0; font-size: 1.4rem;">${t('prompt.title', { unit: topicUnit(currentTopic()) })}</h2>
           <p style="color: #666; font-size: 0.9rem; margin: 0.25rem 0 0 0;">
-            使用上方的搜尋框輸入關鍵字，或選擇分類來查看景點資料
+            ${t('prompt.description', { unit: topicUnit(currentTopic()) })}
           </p>
         </div>
       </div>
       <div style="margin-top: 1.5rem; padding: 1rem; background: #f0f4ff; border-radius: 0.5rem; max-width: 400px; margin-left: auto; margin-right: auto;">
         <ion-spinner name="crescent" style="margin-right: 0.5rem;"></ion-spinner>
-        <span style="color: #667eea;">正在載入精選景點...</span>
+        <span style="color: #667eea;">${t('prompt.loadingFeatured', { unit: topicUnit(currentTopic()) })}</span>
       </div>
     </div>
   `;
@@ -1437,50 +2205,25 @@ async function loadRandomPreviewItems(): Promise<void> {
     // 顯示加載狀態
     showPreviewLoading();
 
-    // 從 API 隨機獲取 3 個景點（使用 limit=3 和隨機 page）
+    // 從 API 隨機獲取精選景點（數量由配置決定，預設 3 個，使用隨機 page）
     const randomPage = Math.floor(Math.random() * 5) + 1; // 隨機頁碼 1-5
-    const response = await fetchAttractions({
+    const response = await fetchResource(currentTopic().endpoint, {
       page: randomPage,
-      limit: 3,
+      limit: getConfig().previewLimit,
     });
 
-    // 將 API 資料轉換為統一格式
-    previewItems = response.items.map(
-      (item) =>
-        ({
-          id: item.id,
-          title: item.title,
-          description: item.description,
-          category: item.category,
-          imageUrl: item.image_url,
-          videoUrl: item.video_url,
-          openingHours: item.opening_hours,
-          address: item.address,
-          city: item.city,
-          country: item.country,
-          tags: item.tags,
-          facilities: item.facilities,
-          name: item.title,
-          area: item.category,
-          openTime: item.opening_hours || '請查詢官方資訊',
-          feature: item.description,
-          image: item.image_url,
-          video: item.video_url,
-        }) as Attraction
-    );
+    // 將 API 資料轉換為統一格式，訂閱的搜索提示重新渲染（包含預覽景點）
+    const previewItems = response.items.map(toAttraction);
+    dispatch({ type: 'preview/loaded', items: previewItems });
 
     console.log('✅ 成功載入預覽景點:', previewItems.length, '個');
 
-    // 重新渲染搜索提示（包含預覽景點）
-    showSearchPrompt();
-
     // 隱藏頂部加載進度條
     hideLoadingBar();
   } catch (error) {
     console.error('❌ 載入預覽景點失敗:', error);
     // 失敗時仍然顯示搜索提示（但不顯示預覽）
-    previewItems = [];
-    showSearchPrompt();
+    dispatch({ type: 'preview/loaded', items: [] });
 
     // 隱藏頂部加載進度條
     hideLoadingBar();
@@ -1521,12 +2264,10 @@ function stopPreviewRotation(): void {
  */
 function renderPreviewItem(item: Attraction): string {
   // 安全轉義所有文字內容（防止 XSS）
-  const itemName = escapeHtml(item.name || item.title || '未命名');
-  const itemArea = escapeHtml(item.area || item.category || '未知');
-  const itemImage = sanitizeUrl(item.image || item.imageUrl || '');
-  const itemFeature = escapeHtml(
-    item.feature || item.description || '暫無描述'
-  );
+  const itemName = escapeHtml(item.title || t('item.untitled'));
+  const itemArea = escapeHtml(item.category || t('item.unknown'));
+  const itemImage = sanitizeUrl(item.imageUrl);
+  const itemFeature = escapeHtml(item.description || t('item.noDescription'));
   const shortFeature =
     itemFeature.length > 60
       ? itemFeature.substring(0, 60) + '...'
@@ -1540,7 +2281,7 @@ function renderPreviewItem(item: Attraction): string {
              onload="this.style.display='block'"
              onerror="this.style.display='none'; this.nextElementSibling.style.display='flex';">
         <div style="width: 100%; height: 100%; background: #f0f0f0; display: none; align-items: center; justify-content: center; color: #666;">
-          圖片載入中
+          ${t('item.imageLoading')}
         </div>
       </div>
       <div style="padding: 1rem;">
@@ -1575,21 +2316,22 @@ function showSearchPrompt(): void {
     <div style="display: flex; align-items: center; justify-content: center; gap: 1rem; margin-bottom: 1rem;">
       <ion-icon name="search-outline" style="font-size: 2.5rem; color: #667eea; flex-shrink: 0;"></ion-icon>
       <div style="text-align: left;">
-        <h2 style="color: #2d3243; margin: 0; font-size: 1.4rem;">開始探索景點</h2>
+        <h2 style="color: #2d3243; margin: 0; font-size: 1.4rem;">${t('prompt.title', { unit: topicUnit(viewTopic()) })}</h2>
         <p style="color: #666; font-size: 0.9rem; margin: 0.25rem 0 0 0;">
-          使用上方的搜尋框輸入關鍵字，或選擇分類來查看景點資料
+          ${t('prompt.description', { unit: topicUnit(viewTopic()) })}
         </p>
       </div>
     </div>
     <div style="margin-top: 1.5rem; padding: 1rem; background: #f0f4ff; border-radius: 0.5rem; max-width: 400px; margin-left: auto; margin-right: auto;">
       <ion-icon name="information-circle-outline" style="font-size: 1.5rem; color: #667eea; vertical-align: middle;"></ion-icon>
-      <span style="color: #667eea; margin-left: 0.5rem;">輸入景點名稱、地區或特色開始搜尋</span>
+      <span style="color: #667eea; margin-left: 0.5rem;">${t('prompt.hint', { unit: topicUnit(viewTopic(), 1) })}</span>
     </div>
   `;
 
   list.appendChild(promptItem);
 
   // 如果有預覽景點，顯示它們
+  const { previewItems } = getViewState();
   if (previewItems.length > 0) {
     const previewSection = document.createElement('div');
     previewSection.className = 'preview-section';
@@ -1599,10 +2341,10 @@ function showSearchPrompt(): void {
     previewHeader.style.cssText = 'text-align: center; margin-bottom: 1.5rem;';
     previewHeader.innerHTML = `
       <h3 style="color: #2d3243; margin: 0 0 0.5rem; font-size: 1.3rem;">
-        ✨ 精選景點推薦
+        ✨ ${t('prompt.featuredTitle', { unit: topicUnit(viewTopic()) })}
       </h3>
       <p style="color: #666; font-size: 0.9rem; margin: 0;">
-        每 8 秒自動更換 • 點擊卡片查看分類
+        ${t('prompt.featuredHint', { seconds: 8 })}
       </p>
     `;
     previewSection.appendChild(previewHeader);
@@ -1619,10 +2361,12 @@ function showSearchPrompt(): void {
       card.addEventListener('click', () => {
         const attraction = previewItems.find((i) => i.id === item.id);
         if (attraction) {
-          const category = attraction.category || attraction.area;
+          const category = attraction.category;
           if (category) {
             // 更新分類選單
-            const categorySelect = document.querySelector('ion-select') as any;
+            const categorySelect = document.getElementById(
+              'categorySelect'
+            ) as any;
             if (categorySelect) {
               categorySelect.value = category;
             }
@@ -1642,6 +2386,124 @@ function showSearchPrompt(): void {
   }
 }
 
+/**
+ * 格式化欄位值（陣列以「、」連接，預設最多顯示 4 項）
+ */
+function formatFieldValue(value: unknown, maxItems: number = 4): string {
+  if (Array.isArray(value)) {
+    const list = value.filter((v) => v !== null && v !== undefined);
+    return (
+      list.slice(0, maxItems).join(t('common.listSeparator')) +
+      (list.length > maxItems ? '...' : '')
+    );
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+  return '';
+}
+
+/**
+ * 渲染單個主題欄位（已轉義），欄位為空且沒有預設文字時返回空字串
+ */
+function renderTopicField(
+  field: TopicField,
+  source: Record<string, unknown>,
+  maxItems?: number,
+  topic: TopicDefinition = viewTopic(),
+  highlights?: HighlightRange[]
+): string {
+  const value = field.keys
+    .map((key) => formatFieldValue(source[key], maxItems))
+    .filter(Boolean)
+    .join(' - ');
+
+  const fallback = fieldText(field, 'fallback', topic);
+  if (!value && !fallback) return '';
+
+  const label = fieldText(field, 'label', topic);
+  const prefix = label ? t('common.labelled', { label }) : '';
+  const content = value
+    ? highlightText(value, highlights)
+    : escapeHtml(fallback || '');
+  return `<p>${field.icon} ${prefix}${content}</p>`;
+}
+
+/**
+ * 按主題的欄位定義渲染詳細資料（已轉義）
+ * 註冊表未定義的額外欄位以欄位名稱顯示，確保各主題的資料都能完整呈現
+ * @param full 詳細頁模式：陣列欄位完整顯示
+ * @param highlights 搜索結果的高亮範圍（只用於簡介欄位）
+ */
+function renderTopicDetails(
+  item: Attraction,
+  topic: TopicDefinition = viewTopic(),
+  full: boolean = false,
+  highlights?: MatchHighlights
+): string {
+  // 本地資料沒有 API 原始欄位，由內部格式反向映射
+  const source: Record<string, unknown> = item.fields || toApiAttraction(item);
+  const maxItems = full ? Infinity : undefined;
+
+  const lines = topic.fields.map((field) => {
+    const isDescription =
+      field.keys.length === 1 &&
+      field.keys[0] === 'description' &&
+      source.description === item.description;
+    return renderTopicField(
+      field,
+      source,
+      maxItems,
+      topic,
+      isDescription ? highlights?.get('description') : undefined
+    );
+  });
+
+  const knownKeys = new Set([
+    ...BASE_FIELD_KEYS,
+    ...topic.fields.flatMap((field) => field.keys),
+    ...(topic.hiddenKeys || []),
+  ]);
+
+  Object.keys(source).forEach((key) => {
+    if (knownKeys.has(key)) return;
+    lines.push(
+      renderTopicField(
+        { keys: [key], icon: '🔹', label: key },
+        source,
+        maxItems,
+        topic
+      )
+    );
+  });
+
+  return lines.join('');
+}
+
+/**
+ * 清單區顯示的內容（訂閱 store 時選取）
+ */
+function selectListView(state: AppState) {
+  return {
+    mode: state.listMode,
+    items: selectVisibleItems(state),
+    highlights: state.highlights,
+    previewItems: state.previewItems,
+    topic: state.topic,
+  };
+}
+
+/**
+ * 渲染清單區：搜索提示及精選項目，或搜索結果
+ */
+function renderListView(): void {
+  if (getViewState().listMode === 'prompt') {
+    showSearchPrompt();
+  } else {
+    renderList();
+  }
+}
+
 /**
  * 渲染清單（純粹的渲染函數，不包含搜索邏輯）
  */
@@ -1649,225 +2511,463 @@ function renderList(): void {
   const list = document.querySelector('ion-list');
   if (!list) return;
 
-  list.innerHTML = '';
+  // 重新渲染前記錄捲動錨點
+  const scrollAnchor = captureScrollAnchor();
+
+  // 要顯示的項目（收藏、分類、分面篩選及排序見 selectVisibleItems；搜索已在 updateList 中處理）
+  const state = getViewState();
+  const { items, showOnlyBookmarked, bookmarkedIds } = state;
+  const filteredItems = selectVisibleItems(state);
+
+  // 渲染景點（按 ID 比對現有卡片，只新增或更新有變化的卡片）
+  const stats = renderKeyedList(list, filteredItems, {
+    key: (attraction) => String(attraction.id),
+    create: createListItem,
+    render: renderListItem,
+    mount: (element, attraction) => {
+      const bookmarkBtn = element.querySelector('.bookmark-btn');
+      if (bookmarkBtn) {
+        updateBookmarkButton(
+          bookmarkBtn as HTMLElement,
+          bookmarkedIds.has(attraction.id)
+        );
+      }
+    },
+  });
+  console.log(
+    `🧩 清單更新：新增 ${stats.added}、更新 ${stats.updated}、移動 ${stats.moved}、移除 ${stats.removed}`
+  );
 
-  // 根據收藏篩選狀態和分類/搜索過濾項目
-  let filteredItems = items;
+  // 如果沒有結果顯示提示
+  if (filteredItems.length === 0 && !state.isLoading) {
+    const emptyItem = document.createElement('ion-item');
+    emptyItem.className = 'empty-state';
 
-  // 第一步：收藏篩選（如果開啟）
-  if (showOnlyBookmarked && isLoggedIn()) {
-    filteredItems = items.filter((item) => {
-      const attraction = item as Attraction;
-      return bookmarkedItems.has(attraction.id);
-    });
+    // 根據不同情況顯示不同的提示
+    const unit = topicUnit(viewTopic());
+    let emptyMessage = t('list.empty', { unit });
+
+    if (showOnlyBookmarked && items.length > 0) {
+      // 開啟了「只看收藏」但沒有收藏的景點
+      emptyMessage = `
+        <div style="text-align:center; padding:2rem;">
+          <ion-icon name="heart-outline" style="font-size: 3rem; color: #eb445a; margin-bottom: 1rem;"></ion-icon>
+          <p style="color: #666; margin: 0.5rem 0;">${t('list.emptyBookmarkedResults', { unit })}</p>
+          <p style="color: #999; font-size: 0.9rem;">${t('list.emptyBookmarkedResultsHint')}</p>
+        </div>
+      `;
+    } else if (showOnlyBookmarked && items.length === 0) {
+      emptyMessage = `
+        <div style="text-align:center; padding:2rem;">
+          <ion-icon name="heart-outline" style="font-size: 3rem; color: #eb445a; margin-bottom: 1rem;"></ion-icon>
+          <p style="color: #666; margin: 0.5rem 0;">${t('list.noBookmarks', { unit })}</p>
+          <p style="color: #999; font-size: 0.9rem;">${t('list.noBookmarksHint', { unit })}</p>
+        </div>
+      `;
+    }
+
+    emptyItem.innerHTML = `<div class="item-content">${emptyMessage}</div>`;
+    list.appendChild(emptyItem);
   }
 
-  // 第二步：分類篩選（在收藏模式下也有效）
-  if (showOnlyBookmarked && currentCategory) {
-    console.log(`🔍 在收藏列表中篩選分類：${currentCategory}`);
-    filteredItems = filteredItems.filter((item) => {
-      const attraction = item as Attraction;
-      const itemCategory = attraction.category || attraction.area || '';
-      return itemCategory === currentCategory;
-    });
+  // 計算新載入項目的搜索高亮（完成後重新渲染）
+  refreshHighlights();
+
+  // 恢復捲動位置
+  restoreScrollAnchor(scrollAnchor);
+}
+
+/**
+ * 建立清單卡片節點
+ */
+function createListItem(attraction: Attraction): HTMLElement {
+  const listItem = document.createElement('ion-item');
+  listItem.className = 'list-item';
+  listItem.dataset.itemId = String(attraction.id);
+  return listItem;
+}
+
+/**
+ * 渲染清單卡片內容（收藏狀態由 updateBookmarkButton 單獨更新，不包含在內容中）
+ */
+function renderListItem(attraction: Attraction): string {
+  // 安全轉義所有文字內容（防止 XSS）
+  const itemName = escapeHtml(attraction.title || t('item.untitled'));
+  const itemArea = escapeHtml(attraction.category || t('item.unknown'));
+  const itemImage = sanitizeUrl(attraction.imageUrl);
+  const itemVideo = sanitizeUrl(attraction.videoUrl);
+  const highlights = getHighlights(attraction);
+  const itemTags = (attraction.tags || []).map((tag, i) =>
+    highlightText(tag, highlights?.get(`tags:${i}`))
+  );
+
+  // 根據數據來源決定標籤文字
+  const areaLabel = t(
+    getViewState().useLocalData ? 'item.area' : 'item.category'
+  );
+
+  return `
+      <div class="item-content">
+        <!-- 景點圖片 -->
+        <div class="image-container">
+          <img src="${itemImage}" alt="${itemName}" class="item-image"
+               onload="this.parentElement.classList.remove('error')"
+               onerror="this.parentElement.classList.add('error')">
+          <div class="image-fallback-text">${t('item.imageFailed')}</div>
+        </div>
+        <!-- 景點名稱（連結到詳細頁） -->
+        <a class="item-title" href="${viewTopic().endpoint}/${attraction.id}" data-link>${highlightText(attraction.title || t('item.untitled'), highlights?.get('title'))}</a>
+        <!-- 地區/分類 -->
+        <div class="item-subtitle">${t('common.labelled', { label: areaLabel })}${highlightText(attraction.category || t('item.unknown'), highlights?.get('category'))}</div>
+        <!-- 詳細資料（按主題欄位定義渲染） -->
+        <div class="item-details">
+          ${renderTopicDetails(attraction, viewTopic(), false, highlights)}
+        </div>
+        <!-- 標籤（地區/分類）、影片按鈕和收藏按鈕 -->
+        <div class="tag-container">
+          <ion-chip size="small" data-area="${itemArea}">${itemArea}</ion-chip>
+          ${itemTags
+            .slice(0, 3)
+            .map(
+              (tag) => `<ion-chip size="small" outline="true">${tag}</ion-chip>`
+            )
+            .join('')}
+          ${
+            itemVideo
+              ? `
+          <ion-chip size="small" color="primary" data-video="${itemVideo}" data-title="${t('item.videoTitle', { name: itemName })}">
+            <ion-icon name="play" slot="start"></ion-icon>
+            ${t('item.video')}
+          </ion-chip>
+          `
+              : ''
+          }
+          <!-- 收藏按鈕 -->
+          <ion-chip size="small" color="danger" class="bookmark-btn" data-item-id="${attraction.id || ''}" data-item-name="${itemName}">
+            <ion-icon name="heart-outline" slot="start"></ion-icon>
+            ${t('bookmarks.bookmark')}
+          </ion-chip>
+        </div>
+      </div>
+    `;
+}
+
+/**
+ * 清單點擊事件委派（只在清單容器上綁定一次，卡片本身不綁定監聽器）
+ */
+function handleListClick(event: Event): void {
+  const target = event.target as HTMLElement;
+
+  // 收藏按鈕
+  const bookmarkBtn = target.closest('.bookmark-btn') as HTMLElement | null;
+  if (bookmarkBtn) {
+    const itemId = bookmarkBtn.getAttribute('data-item-id');
+    const itemName = bookmarkBtn.getAttribute('data-item-name');
+    if (itemId) {
+      handleBookmark(
+        parseInt(itemId),
+        itemName || topicUnit(currentTopic(), 1)
+      );
+    }
+    return;
   }
 
-  // 第三步：搜索篩選已在 updateList 中通過 performSimplifiedSearchInBookmarks 處理
+  // 影片按鈕
+  const videoChip = target.closest('ion-chip[data-video]');
+  if (videoChip) {
+    const video = videoChip.getAttribute('data-video');
+    const title = videoChip.getAttribute('data-title');
+    if (video && title) openVideoModal(video, title);
+    return;
+  }
 
-  // 渲染景點
-  filteredItems.forEach((item) => {
-    const attraction = item as Attraction;
+  // 地區標籤
+  const areaChip = target.closest('ion-chip[data-area]');
+  if (areaChip) {
+    const area = areaChip.getAttribute('data-area');
+    if (area) filterByArea(area);
+  }
+}
 
-    // 安全轉義所有文字內容（防止 XSS）
-    const itemName = escapeHtml(item.name || attraction.title || '未命名');
-    const itemArea = escapeHtml(item.area || attraction.category || '未知');
-    const itemImage = sanitizeUrl(item.image || attraction.imageUrl || '');
-    const itemVideo = sanitizeUrl(item.video || attraction.videoUrl || '');
-    const itemFeature = escapeHtml(
-      item.feature || attraction.description || '暫無描述'
-    );
-    const itemOpenTime = escapeHtml(
-      item.openTime || attraction.openingHours || '請查詢官方資訊'
-    );
-    const itemAddress = escapeHtml(attraction.address || '');
-    const itemCity = escapeHtml(attraction.city || '');
-    const itemTags = (attraction.tags || []).map((tag) => escapeHtml(tag));
-    const itemFacilities = (attraction.facilities || []).map((f) =>
-      escapeHtml(f)
+// 清單頁的捲動位置（從詳細頁返回時恢復）
+let listScrollTop = 0;
+
+/**
+ * 根據 ID 查找項目
+ * 優先使用已載入的資料，找不到時經由服務器的目錄索引按 ID 查詢
+ */
+async function findItemById(
+  topic: TopicDefinition,
+  id: number
+): Promise<Attraction | null> {
+  if (topic.endpoint === currentTopic().endpoint) {
+    const { items, previewItems, fullBookmarkedItems } = getState();
+    const loaded = [...items, ...previewItems, ...fullBookmarkedItems].find(
+      (item) => item.id === id
     );
+    if (loaded) return loaded;
+  }
 
-    const listItem = document.createElement('ion-item');
-    listItem.className = 'list-item';
+  const response = await fetchResourceByIds(topic.endpoint, [id]);
+  return response.items.length > 0 ? toAttraction(response.items[0]) : null;
+}
 
-    // 根據數據來源決定標籤文字
-    const areaLabel = useLocalData ? '地區' : '分類';
+/**
+ * 格式化日期欄位（無效日期返回空字串）
+ */
+function formatDate(value: unknown): string {
+  if (typeof value !== 'string' || !value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toLocaleDateString(getLocale());
+}
 
-    // 構建地址信息（已轉義）
-    const addressInfo =
-      itemCity || itemAddress
-        ? `<p>📍 ${itemCity ? itemCity + (itemAddress ? ' - ' : '') : ''}${itemAddress}</p>`
-        : '';
+/**
+ * 切換清單頁/詳細頁的顯示（詳細頁隱藏搜索列和篩選選單）
+ */
+function setDetailMode(enabled: boolean): void {
+  document.body.classList.toggle('detail-mode', enabled);
+  updateInfiniteScroll();
+}
 
-    // 構建設施信息（已轉義）
-    const facilitiesInfo =
-      itemFacilities.length > 0
-        ? `<p>🏢 設施：${itemFacilities.slice(0, 4).join('、')}${itemFacilities.length > 4 ? '...' : ''}</p>`
-        : '';
+/**
+ * 渲染詳細頁（顯示項目的所有欄位、嵌入影片和收藏按鈕）
+ */
+function renderDetailView(item: Attraction, topic: TopicDefinition): void {
+  const detailView = document.getElementById('detailView');
+  if (!detailView) return;
 
-    listItem.innerHTML = `
-      <div class="item-content">
-        <!-- 景點圖片 -->
-        <div class="image-container">
-          <img src="${itemImage}" alt="${itemName}" class="item-image"
-               onload="this.parentElement.classList.remove('error')"
-               onerror="this.parentElement.classList.add('error')">
-          <div class="image-fallback-text">圖片載入失敗</div>
-        </div>
-        <!-- 景點名稱 -->
-        <div class="item-title">${itemName}</div>
-        <!-- 地區/分類 -->
-        <div class="item-subtitle">${areaLabel}：${itemArea}</div>
-        <!-- 開放時間和特色 -->
+  // 安全轉義所有文字內容（防止 XSS）
+  const itemName = escapeHtml(item.title || t('item.untitled'));
+  const itemCategory = escapeHtml(item.category || t('item.unknown'));
+  const itemImage = sanitizeUrl(item.imageUrl);
+  const itemTags = (item.tags || []).map((tag) => escapeHtml(tag));
+  const embedUrl = item.videoUrl ? getEmbedUrl(item.videoUrl) : null;
+
+  const source: Record<string, unknown> = item.fields || toApiAttraction(item);
+  const dates = {
+    published_at: formatDate(source.published_at),
+    updated_at: formatDate(source.updated_at),
+  };
+
+  detailView.innerHTML = `
+    <div class="detail-toolbar">
+      <ion-button fill="clear" id="detailBackBtn">
+        <ion-icon name="arrow-back" slot="start"></ion-icon>
+        ${t('detail.back')}
+      </ion-button>
+      <ion-button fill="clear" id="detailShareBtn">
+        <ion-icon name="share-social-outline" slot="start"></ion-icon>
+        ${t('detail.share')}
+      </ion-button>
+    </div>
+    <ion-card class="detail-card">
+      ${
+        itemImage
+          ? `
+      <div class="image-container detail-image">
+        <img src="${itemImage}" alt="${itemName}" class="item-image"
+             onload="this.parentElement.classList.remove('error')"
+             onerror="this.parentElement.classList.add('error')">
+        <div class="image-fallback-text">${t('item.imageFailed')}</div>
+      </div>
+      `
+          : ''
+      }
+      <ion-card-header>
+        <ion-card-subtitle>${escapeHtml(topicName(topic))} · ${itemCategory}</ion-card-subtitle>
+        <ion-card-title>${itemName}</ion-card-title>
+      </ion-card-header>
+      <ion-card-content>
+        <!-- 詳細資料（完整顯示所有欄位） -->
         <div class="item-details">
-          <p>⏰ 開放時間：${itemOpenTime}</p>
-          ${addressInfo}
-          <p>✨ 特色：${itemFeature}</p>
-          ${facilitiesInfo}
+          ${renderTopicDetails(item, topic, true)}
+          ${renderTopicField({ keys: ['country'], icon: '🌏', label: '國家' }, source, undefined, topic)}
+          ${renderTopicField({ keys: ['published_at'], icon: '📅', label: '發佈日期' }, dates, undefined, topic)}
+          ${renderTopicField({ keys: ['updated_at'], icon: '🔄', label: '更新日期' }, dates, undefined, topic)}
         </div>
-        <!-- 標籤（地區/分類）、影片按鈕和收藏按鈕 -->
+        <!-- 標籤和收藏按鈕 -->
         <div class="tag-container">
-          <ion-chip size="small" data-area="${itemArea}">${itemArea}</ion-chip>
+          <ion-chip size="small">${itemCategory}</ion-chip>
           ${itemTags
-            .slice(0, 3)
             .map(
               (tag) => `<ion-chip size="small" outline="true">${tag}</ion-chip>`
             )
             .join('')}
-          ${
-            itemVideo
-              ? `
-          <ion-chip size="small" color="primary" data-video="${itemVideo}" data-title="${itemName} 導覽影片">
-            <ion-icon name="play" slot="start"></ion-icon>
-            導覽影片
-          </ion-chip>
-          `
-              : ''
-          }
-          <!-- 收藏按鈕 -->
-          <ion-chip size="small" color="danger" class="bookmark-btn" data-item-id="${attraction.id || ''}" data-item-name="${itemName}">
+          <ion-chip size="small" color="danger" class="bookmark-btn" data-item-id="${item.id}" data-item-name="${itemName}">
             <ion-icon name="heart-outline" slot="start"></ion-icon>
-            收藏
+            ${t('bookmarks.bookmark')}
           </ion-chip>
         </div>
-      </div>
-    `;
-    list.appendChild(listItem);
+        <!-- 嵌入影片 -->
+        ${
+          embedUrl
+            ? `
+        <div class="video-container">
+          <iframe src="${escapeHtml(embedUrl)}" title="${t('item.videoTitle', { name: itemName })}" allowfullscreen frameborder="0"></iframe>
+        </div>
+        `
+            : ''
+        }
+      </ion-card-content>
+    </ion-card>
+  `;
+
+  // 更新頁面標題（方便分享和瀏覽器歷史辨識）
+  const pageTitle = document.getElementById('pageTitle');
+  if (pageTitle) {
+    pageTitle.textContent = item.title;
+  }
+  document.title = `${item.title} - ${topic.name}`;
+
+  // 返回按鈕：從清單進入時使用瀏覽器上一頁（保留清單狀態），直接打開連結時導航到清單頁
+  document.getElementById('detailBackBtn')?.addEventListener('click', () => {
+    if (canGoBack()) {
+      window.history.back();
+    } else {
+      navigate('/', { replace: true });
+    }
   });
 
-  // 如果沒有結果顯示提示
-  if (filteredItems.length === 0 && !isLoading) {
-    const emptyItem = document.createElement('ion-item');
-    emptyItem.className = 'empty-state';
+  document
+    .getElementById('detailShareBtn')
+    ?.addEventListener('click', () => shareCurrentLink(item.title));
 
-    // 根據不同情況顯示不同的提示
-    let emptyMessage = '沒有找到符合條件的景點';
+  // 收藏按鈕
+  const bookmarkBtn = detailView.querySelector('.bookmark-btn') as HTMLElement;
+  if (bookmarkBtn) {
+    updateBookmarkButton(
+      bookmarkBtn,
+      getViewState().bookmarkedIds.has(item.id)
+    );
+    bookmarkBtn.addEventListener('click', () =>
+      handleBookmark(item.id, item.title)
+    );
+  }
+}
 
-    if (showOnlyBookmarked && items.length > 0) {
-      // 開啟了「只看收藏」但沒有收藏的景點
-      emptyMessage = `
-        <div style="text-align:center; padding:2rem;">
-          <ion-icon name="heart-outline" style="font-size: 3rem; color: #eb445a; margin-bottom: 1rem;"></ion-icon>
-          <p style="color: #666; margin: 0.5rem 0;">當前搜索結果中沒有已收藏的景點</p>
-          <p style="color: #999; font-size: 0.9rem;">試試關閉「只看收藏」開關</p>
-        </div>
-      `;
-    } else if (showOnlyBookmarked && items.length === 0) {
-      emptyMessage = `
-        <div style="text-align:center; padding:2rem;">
-          <ion-icon name="heart-outline" style="font-size: 3rem; color: #eb445a; margin-bottom: 1rem;"></ion-icon>
-          <p style="color: #666; margin: 0.5rem 0;">您還沒有收藏任何景點</p>
-          <p style="color: #999; font-size: 0.9rem;">試試搜索景點並點擊收藏按鈕</p>
-        </div>
-      `;
+/**
+ * 分享當前頁面連結（支援 Web Share API 時使用系統分享，否則複製到剪貼簿）
+ */
+async function shareCurrentLink(title: string): Promise<void> {
+  const url = window.location.href;
+
+  try {
+    if (navigator.share) {
+      await navigator.share({ title, url });
+      return;
     }
 
-    emptyItem.innerHTML = `<div class="item-content">${emptyMessage}</div>`;
-    list.appendChild(emptyItem);
+    await navigator.clipboard.writeText(url);
+    await showSuccess(t('detail.linkCopied'));
+  } catch (error) {
+    // 用戶取消系統分享
+    if (error instanceof Error && error.name === 'AbortError') return;
+
+    console.error('❌ 分享連結失敗:', error);
+    await showError(t('detail.shareFailed'));
   }
+}
+
+/**
+ * 顯示詳細頁（路由：/:resource/:id，如 /attractions/12）
+ */
+async function showDetailView(match: RouteMatch): Promise<void> {
+  const topic = findTopicByEndpoint(`/${match.params.resource}`);
+  const id = Number(match.params.id);
 
-  // 添加「載入更多」按鈕（僅在使用 API 數據且未開啟收藏篩選時顯示）
-  if (!useLocalData && filteredItems.length > 0 && !showOnlyBookmarked) {
-    const loadMoreContainer = document.createElement('div');
-    loadMoreContainer.className = 'load-more-container';
-    loadMoreContainer.style.cssText = 'text-align:center; padding:1.5rem;';
+  if (!topic || !Number.isInteger(id) || id <= 0) {
+    console.warn('⚠️ 無效的詳細頁路徑:', match.path);
+    await navigate('/', { replace: true });
+    return;
+  }
 
-    if (hasMoreData) {
-      loadMoreContainer.innerHTML = `
-        <ion-button id="loadMoreBtn" expand="block" fill="outline" style="max-width: 300px; margin: 0 auto;">
-          <ion-icon name="arrow-down-circle-outline" slot="start"></ion-icon>
-          載入更多
-        </ion-button>
-      `;
-    } else {
-      loadMoreContainer.innerHTML = `
-        <div style="color: #666; font-size: 0.9rem; padding: 1rem;">
-          <ion-icon name="checkmark-circle" style="font-size: 1.5rem; vertical-align: middle;"></ion-icon>
-          已載入全部資料（共 ${filteredItems.length} 個景點）
+  const detailView = document.getElementById('detailView');
+  if (!detailView) return;
+
+  const content = document.querySelector('ion-content') as any;
+
+  // 從清單進入時記錄捲動位置
+  if (!document.body.classList.contains('detail-mode')) {
+    const scrollElement = await content?.getScrollElement?.();
+    listScrollTop = scrollElement?.scrollTop || 0;
+  }
+
+  setDetailMode(true);
+  content?.scrollToTop?.();
+  detailView.innerHTML = `
+    <div class="detail-loading">
+      <ion-spinner name="crescent"></ion-spinner>
+      <p>${t('detail.loading', { unit: escapeHtml(topicUnit(topic, 1)) })}</p>
+    </div>
+  `;
+
+  // 連結的主題與當前主題不同時先切換主題（返回清單時顯示同一主題）
+  if (topic.endpoint !== currentTopic().endpoint) {
+    const topicSelect = document.getElementById('topicSelect') as any;
+    if (topicSelect) topicSelect.value = topic.endpoint;
+    await switchTopic(topic.endpoint);
+  }
+
+  try {
+    const item = await findItemById(topic, id);
+
+    // 載入期間已導航到其他頁面
+    if (window.location.pathname !== match.path) return;
+
+    if (!item) {
+      detailView.innerHTML = `
+        <div class="detail-loading">
+          <p>${t('detail.notFound', { unit: escapeHtml(topicUnit(topic, 1)), id })}</p>
+          <ion-button fill="outline" id="detailBackBtn">${t('detail.back')}</ion-button>
         </div>
       `;
+      document
+        .getElementById('detailBackBtn')
+        ?.addEventListener('click', () => navigate('/', { replace: true }));
+      return;
     }
 
-    list.appendChild(loadMoreContainer);
-  }
-
-  // 為新加入的元素添加事件監聽器
-  attachEventListeners();
+    renderDetailView(item, topic);
+  } catch (error) {
+    if (window.location.pathname !== match.path) return;
 
-  // 更新收藏按鈕的視覺狀態
-  updateAllBookmarkButtons();
+    console.error('❌ 載入詳細資料失敗:', error);
+    detailView.innerHTML = `
+      <div class="detail-loading">
+        <p>${t('detail.loadFailed', { message: escapeHtml(error instanceof Error ? error.message : t('common.tryLater')) })}</p>
+        <ion-button fill="outline" id="detailRetryBtn">${t('common.retry')}</ion-button>
+      </div>
+    `;
+    document
+      .getElementById('detailRetryBtn')
+      ?.addEventListener('click', () => showDetailView(match));
+  }
 }
 
 /**
- * 為清單項目添加事件監聽器
+ * 顯示清單頁（路由：/，其他未知路徑也導向清單頁）
  */
-function attachEventListeners(): void {
-  // 地區標籤點擊事件
-  document.querySelectorAll('ion-chip[data-area]').forEach((chip) => {
-    chip.addEventListener('click', () => {
-      const area = chip.getAttribute('data-area');
-      if (area) filterByArea(area);
-    });
-  });
+async function showListView(match: RouteMatch): Promise<void> {
+  if (match.path !== '/') {
+    window.history.replaceState(window.history.state, '', '/');
+  }
+  syncFacetUrl();
+  syncSearchUrl();
 
-  // 影片按鈕點擊事件
-  document.querySelectorAll('ion-chip[data-video]').forEach((chip) => {
-    chip.addEventListener('click', () => {
-      const video = chip.getAttribute('data-video');
-      const title = chip.getAttribute('data-title');
-      if (video && title) openVideoModal(video, title);
-    });
-  });
+  const wasDetail = document.body.classList.contains('detail-mode');
+  setDetailMode(false);
 
-  // 載入更多按鈕點擊事件
-  const loadMoreBtn = document.getElementById('loadMoreBtn');
-  if (loadMoreBtn) {
-    loadMoreBtn.addEventListener('click', loadMoreAttractions);
-  }
-
-  // 收藏按鈕點擊事件
-  document.querySelectorAll('.bookmark-btn').forEach((chip) => {
-    chip.addEventListener('click', async () => {
-      const itemId = chip.getAttribute('data-item-id');
-      const itemName = chip.getAttribute('data-item-name');
-      if (itemId) {
-        await handleBookmark(
-          parseInt(itemId),
-          itemName || '景點',
-          chip as HTMLElement
-        );
-      }
-    });
-  });
+  // 清空詳細頁（同時停止嵌入影片的播放）
+  const detailView = document.getElementById('detailView');
+  if (detailView) detailView.innerHTML = '';
+
+  updateTopicUI();
+
+  // 恢復清單頁的捲動位置
+  if (wasDetail) {
+    const content = document.querySelector('ion-content') as any;
+    await content?.scrollToPoint?.(0, listScrollTop);
+  }
 }
 
 /**
@@ -1881,30 +2981,41 @@ let searchDebounceTimer: number | null = null;
 async function updateList(): Promise<void> {
   // 取得搜尋和分類條件
   const searchbar = document.querySelector('ion-searchbar') as any;
-  const categorySelect = document.querySelector('ion-select') as any;
+  const categorySelect = document.getElementById('categorySelect') as any;
   const searchValue = (searchbar?.value || '').trim();
   const categoryValue = categorySelect?.value || '';
 
-  // 保存到全局變量（用於載入更多時使用）
-  currentSearch = searchValue;
-  currentCategory = categoryValue;
+  // 取消進行中的舊請求
+  const generation = beginListRequest();
+
+  // 保存搜索條件（用於載入更多時使用），頁碼重置為 1
+  dispatch({
+    type: 'query/changed',
+    search: searchValue,
+    category: categoryValue,
+  });
+  syncSearchUrl();
+
+  // 篩選值的數量隨搜索條件改變
+  refreshFacetCounts();
 
-  // 判斷是否需要調用 API（有搜尋詞或有分類選擇）
-  const shouldCallAPI = currentSearch.length > 0 || currentCategory.length > 0;
+  // 判斷是否需要調用 API（有搜尋詞、分類選擇或分面篩選）
+  const shouldCallAPI =
+    searchValue.length > 0 || categoryValue.length > 0 || hasActiveFacets();
 
   // 如果開啟了「只看收藏」模式，在收藏列表中進行繁簡通用篩選
-  if (showOnlyBookmarked && isLoggedIn()) {
+  if (getState().showOnlyBookmarked && isLoggedIn()) {
     console.log('🔒 已開啟「只看收藏」，在收藏列表中進行繁簡通用篩選');
 
-    // 如果有搜索詞，執行繁簡通用搜索
-    if (currentSearch) {
-      // 先恢復完整列表，再執行繁簡搜索
-      items = fullBookmarkedItems;
+    if (searchValue) {
+      // 有搜索詞，在完整收藏列表中執行繁簡通用搜索
       await performSimplifiedSearchInBookmarks();
     } else {
-      // 沒有搜索詞，恢復完整收藏列表並重新渲染（renderList 會自動處理分類篩選）
-      items = fullBookmarkedItems;
-      renderList();
+      // 沒有搜索詞，恢復完整收藏列表（分類及分面篩選由 selectVisibleItems 處理）
+      dispatch({
+        type: 'list/replaced',
+        items: getState().fullBookmarkedItems,
+      });
     }
     return;
   }
@@ -1922,24 +3033,29 @@ async function updateList(): Promise<void> {
       showListLoading();
 
       // 重置分頁狀態
-      currentPage = 1;
-      hasMoreData = true;
+      dispatch({ type: 'list/searchStarted' });
 
       // 調用 API
       await loadAttractionsFromAPI(
-        {
-          page: 1,
-          limit: 20,
-          search: currentSearch || undefined,
-          category: currentCategory || undefined,
-        },
+        { ...getListQuery(), page: 1 },
         true, // 顯示錯誤
         false // 不追加，替換資料
       );
+      saveLastSearch();
 
       hideListLoading();
       hideLoadingBar();
+
+      // 伺服器沒有結果時在已載入的項目中搜索（支援拼音及錯字）
+      if (getState().items.length === 0 && searchValue) {
+        await searchLoadedItems(generation);
+      }
     } catch (error) {
+      // 已被新搜尋取代，載入狀態由新搜尋負責
+      if (error instanceof ApiAbortError || generation !== listGeneration) {
+        return;
+      }
+
       hideListLoading();
       hideLoadingBar();
       console.error('搜尋失敗:', error);
@@ -1948,24 +3064,131 @@ async function updateList(): Promise<void> {
   } else {
     // 沒有搜尋條件
 
-    // 如果開啟了「只看收藏」，保持顯示收藏列表
-    if (showOnlyBookmarked && isLoggedIn()) {
-      console.log('🔄 分類已清空，但保持顯示收藏列表');
-      // 不做任何事，保持當前的收藏列表
-      return;
-    }
-
-    // 否則顯示搜索提示
-    items = [];
-    useLocalData = false;
-    hasMoreData = false;
+    // 顯示搜索提示（訂閱的清單區重新渲染）
+    dispatch({ type: 'list/cleared' });
 
     // 重新啟動預覽輪換
-    if (previewItems.length > 0) {
+    if (getState().previewItems.length > 0) {
       startPreviewRotation();
     }
+  }
+}
 
-    showSearchPrompt();
+/**
+ * 上次成功的搜尋條件（離線時用於顯示 Service Worker 緩存的結果）
+ */
+interface LastSearch {
+  topic: string;
+  search: string;
+  category: string;
+}
+
+/**
+ * 保存上次成功的搜尋條件
+ */
+function saveLastSearch(): void {
+  const lastSearch: LastSearch = {
+    topic: currentTopic().endpoint,
+    search: getState().search,
+    category: getState().category,
+  };
+  localStorage.setItem('last_search', JSON.stringify(lastSearch));
+}
+
+/**
+ * 離線時恢復上次的搜尋結果
+ * 使用相同的查詢條件重新載入，Service Worker 會返回緩存的回應並顯示「離線資料」提示
+ */
+async function restoreLastSearch(): Promise<void> {
+  let lastSearch: LastSearch;
+  try {
+    lastSearch = JSON.parse(localStorage.getItem('last_search') || 'null');
+  } catch {
+    return;
+  }
+  if (!lastSearch || lastSearch.topic !== currentTopic().endpoint) return;
+
+  console.log('📴 離線狀態，恢復上次的搜尋結果:', lastSearch);
+
+  const searchbar = document.querySelector('ion-searchbar') as any;
+  const categorySelect = document.getElementById('categorySelect') as any;
+  if (searchbar) searchbar.value = lastSearch.search;
+  if (categorySelect) categorySelect.value = lastSearch.category;
+
+  await updateList();
+}
+
+/**
+ * 將當前搜索狀態寫入網址（只在清單頁，詳細頁的網址不含搜索狀態）
+ */
+function syncSearchUrl(): void {
+  if (window.location.pathname !== '/') return;
+
+  const state = getState();
+  writeSearchState({
+    topic: currentTopic().endpoint,
+    search: state.search,
+    category: state.category,
+    sort: state.sort,
+    order: state.order,
+    bookmarked: state.showOnlyBookmarked,
+    page: state.showOnlyBookmarked ? 1 : state.page,
+  });
+}
+
+/**
+ * 恢復網址中的搜索狀態，並重新載入到保存的頁數
+ */
+async function restoreSearchState(state: SearchState): Promise<void> {
+  console.log('🔗 從網址恢復搜索狀態:', state);
+
+  const searchbar = document.querySelector('ion-searchbar') as any;
+  const categorySelect = document.getElementById('categorySelect') as any;
+  if (searchbar) searchbar.value = state.search;
+  if (categorySelect) categorySelect.value = state.category;
+  dispatch({
+    type: 'query/changed',
+    search: state.search,
+    category: state.category,
+  });
+
+  if (state.bookmarked) {
+    const toggle = document.getElementById('bookmarkFilterToggle') as any;
+    if (toggle) toggle.checked = true;
+    await toggleBookmarkFilter(true);
+    if (getState().showOnlyBookmarked) await updateList(); // 在收藏列表中套用搜索詞
+    return;
+  }
+
+  if (!state.search && !state.category && !hasActiveFacets()) return;
+
+  await updateList();
+
+  // 逐頁載入到保存的頁數（用戶開始新搜索時停止）
+  const generation = listGeneration;
+  while (
+    getState().page < state.page &&
+    generation === listGeneration &&
+    canLoadMore()
+  ) {
+    await loadMoreAttractions();
+  }
+  console.log(`🔗 已恢復到第 ${getState().page} 頁`);
+}
+
+/**
+ * 複製當前搜索結果的連結（包括搜索條件、分面篩選、排序及已載入的頁數）
+ */
+async function copySearchLink(): Promise<void> {
+  syncFacetUrl();
+  syncSearchUrl();
+
+  try {
+    await navigator.clipboard.writeText(window.location.href);
+    await showSuccess(t('filters.linkCopied'));
+  } catch (error) {
+    console.error('❌ 複製連結失敗:', error);
+    await showError(t('detail.shareFailed'));
   }
 }
 
@@ -1990,7 +3213,7 @@ function updateListDebounced(): void {
  */
 function filterByArea(area: string): void {
   // 更新分類選單的值
-  const categorySelect = document.querySelector('ion-select') as any;
+  const categorySelect = document.getElementById('categorySelect') as any;
   if (categorySelect) {
     categorySelect.value = area;
   }
@@ -2002,6 +3225,38 @@ function filterByArea(area: string): void {
 // 儲存圖表實例以便後續更新或銷毀
 let chartInstance: any = null;
 
+/**
+ * 本地緩存的圖表數據（用於條件請求）
+ */
+interface CachedChartData {
+  etag: string | null;
+  lastModified: string | null;
+  data: ChartDataResponse;
+}
+
+/**
+ * 讀取本地緩存的圖表數據
+ */
+function readChartCache(resource: string): CachedChartData | null {
+  try {
+    const raw = localStorage.getItem(`chart_cache:${resource}`);
+    return raw ? (JSON.parse(raw) as CachedChartData) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 儲存圖表數據到本地緩存
+ */
+function writeChartCache(resource: string, cache: CachedChartData): void {
+  try {
+    localStorage.setItem(`chart_cache:${resource}`, JSON.stringify(cache));
+  } catch (error) {
+    console.warn('⚠️ 無法儲存圖表緩存:', error);
+  }
+}
+
 /**
  * 繪製地區分佈圖表（從服務器API獲取數據）
  */
@@ -2009,16 +3264,37 @@ async function initAreaChart(): Promise<void> {
   try {
     console.log('📊 正在從服務器獲取圖表數據...');
 
-    // 調用服務器API獲取圖表數據
-    const response = await fetch('/api/chart-data');
+    // 帶上本地緩存的 ETag / Last-Modified 發送條件請求
+    const cached = readChartCache(currentTopic().endpoint);
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified)
+      headers['If-Modified-Since'] = cached.lastModified;
+
+    // 調用服務器API獲取圖表數據（no-store：由我們自己處理 304）
+    const response = await fetch(
+      `/api/chart-data?resource=${encodeURIComponent(currentTopic().endpoint)}`,
+      { headers, cache: 'no-store' }
+    );
+
+    let chartData: ChartDataResponse;
 
-    if (!response.ok) {
+    if (response.status === 304 && cached) {
+      // 數據未變化，使用本地緩存
+      chartData = cached.data;
+      console.log('✅ 圖表數據未變化，使用本地緩存');
+    } else if (!response.ok) {
       throw new Error(`獲取圖表數據失敗: ${response.status}`);
+    } else {
+      chartData = await response.json();
+      writeChartCache(currentTopic().endpoint, {
+        etag: response.headers.get('ETag'),
+        lastModified: response.headers.get('Last-Modified'),
+        data: chartData,
+      });
+      console.log('✅ 成功獲取圖表數據:', chartData);
     }
 
-    const chartData = await response.json();
-    console.log('✅ 成功獲取圖表數據:', chartData);
-
     // 填充分類選單（使用圖表API返回的分類）
     if (chartData.categories && chartData.categories.length > 0) {
       populateCategoriesFromList(chartData.categories);
@@ -2031,11 +3307,21 @@ async function initAreaChart(): Promise<void> {
       ?.closest('ion-card')
       ?.querySelector('ion-card-title');
     if (chartTitle) {
-      chartTitle.textContent = `景點分類分佈（共 ${chartData.total} 個景點）`;
+      chartTitle.textContent = t('chart.title', {
+        count: chartData.total,
+        unit: topicUnit(currentTopic(), chartData.total),
+      });
     }
 
-    // 準備圖表數據
-    const areas = chartData.labels;
+    // 準備圖表數據（圖表在 canvas 上繪製，標籤需要另外轉換為顯示文字）
+    // 提示文字的模板先轉換，顯示時再插值
+    const [areas, [datasetLabel, tooltipTemplate]] = await Promise.all([
+      displayTexts(chartData.labels),
+      displayTexts([
+        t('chart.datasetLabel', { unit: topicUnit(currentTopic()) }),
+        t('chart.tooltip'),
+      ]),
+    ]);
     const counts = chartData.data;
 
     // 隨機生成顏色
@@ -2071,7 +3357,7 @@ async function initAreaChart(): Promise<void> {
           labels: areas,
           datasets: [
             {
-              label: '景點數量',
+              label: datasetLabel,
               data: counts,
               backgroundColor: backgroundColors,
               borderColor: 'rgba(255, 255, 255, 0.8)',
@@ -2102,7 +3388,11 @@ async function initAreaChart(): Promise<void> {
                     0
                   );
                   const percentage = Math.round((value / total) * 100);
-                  return `${label}: ${value}個 (${percentage}%)`;
+                  return formatMessage(tooltipTemplate, {
+                    label,
+                    value,
+                    percentage,
+                  });
                 },
               },
             },
@@ -2122,8 +3412,8 @@ async function initAreaChart(): Promise<void> {
         cardContent.innerHTML = `
           <div style="text-align: center; padding: 2rem; color: #666;">
             <ion-icon name="alert-circle-outline" style="font-size: 3rem; color: #eb445a;"></ion-icon>
-            <p style="margin-top: 1rem;">無法載入圖表數據</p>
-            <p style="font-size: 0.9rem;">請稍後再試</p>
+            <p style="margin-top: 1rem;">${t('chart.loadFailed')}</p>
+            <p style="font-size: 0.9rem;">${t('common.tryLater')}</p>
           </div>
         `;
       }
@@ -2154,7 +3444,7 @@ function validateUsernameInput(): void {
     hint.className = 'validation-hint success';
     hint.innerHTML = `
       <ion-icon name="checkmark-circle"></ion-icon>
-      <span>使用者名稱格式正確</span>
+      <span>${t('validation.usernameValid')}</span>
     `;
   } else {
     hint.style.display = 'flex';
@@ -2192,13 +3482,17 @@ function validatePasswordInput(): void {
 
   if (validation.valid) {
     hint.style.display = 'flex';
-    const strengthText = validation.strength === 'strong' ? '強' : '中等';
+    const strengthText = t(
+      validation.strength === 'strong'
+        ? 'validation.strengthStrong'
+        : 'validation.strengthMedium'
+    );
     const strengthColor =
       validation.strength === 'strong' ? 'success' : 'warning';
     hint.className = `validation-hint ${strengthColor}`;
     hint.innerHTML = `
       <ion-icon name="shield-checkmark"></ion-icon>
-      <span>密碼強度：${escapeHtml(strengthText)}</span>
+      <span>${t('validation.passwordStrength', { strength: escapeHtml(strengthText) })}</span>
     `;
   } else {
     hint.style.display = 'flex';
@@ -2210,6 +3504,32 @@ function validatePasswordInput(): void {
   }
 }
 
+/**
+ * 訂閱 store：狀態改變時重新渲染對應的畫面
+ */
+function initStoreSubscriptions(): void {
+  subscribe(selectListView, renderListView, shallowEqual);
+  subscribe(
+    (state) => ({
+      shown: selectShowsListTail(state),
+      count: state.items.length,
+      hasMoreData: state.hasMoreData,
+      isLoadingMore: state.isLoadingMore,
+      loadMoreError: state.loadMoreError,
+      topic: state.topic,
+    }),
+    renderListTail,
+    shallowEqual
+  );
+  subscribe((state) => state.bookmarkedIds, updateAllBookmarkButtons);
+  subscribe((state) => state.username, updateAuthUI);
+  subscribe(
+    (state) => ({ sort: state.sort, order: state.order }),
+    renderSortControls,
+    shallowEqual
+  );
+}
+
 /**
  * 初始化事件監聽器
  */
@@ -2236,12 +3556,75 @@ function initEventListeners(): void {
     searchbar.addEventListener('ionInput', () => updateListDebounced());
   }
 
+  // 顯示文字選單事件監聽
+  const scriptSelect = document.getElementById('scriptSelect');
+  if (scriptSelect) {
+    scriptSelect.addEventListener('ionChange', (event: any) => {
+      if (isDisplayScript(event.detail.value)) {
+        setDisplayScript(event.detail.value);
+      }
+    });
+  }
+
+  // 語言選單事件監聽
+  const localeSelect = document.getElementById('localeSelect');
+  if (localeSelect) {
+    localeSelect.addEventListener('ionChange', (event: any) => {
+      if (isLocale(event.detail.value) && event.detail.value !== getLocale()) {
+        setLocale(event.detail.value);
+      }
+    });
+  }
+  window.addEventListener('locale-change', handleLocaleChange);
+
+  // 顯示文字改變時重新繪製圖表（圖表標籤不在 DOM 中）
+  window.addEventListener('display-script-change', () => {
+    if (chartInstance) initAreaChart();
+  });
+
+  // 主題選單事件監聽
+  const topicSelect = document.getElementById('topicSelect');
+  if (topicSelect) {
+    topicSelect.addEventListener('ionChange', (event: any) => {
+      switchTopic(event.detail.value);
+    });
+  }
+
+  // 清單卡片事件委派（收藏、影片、地區標籤）
+  const list = document.querySelector('ion-list');
+  if (list) {
+    list.addEventListener('click', handleListClick);
+  }
+
   // 分類選單事件監聽（不需要防抖，立即執行）
-  const categorySelect = document.querySelector('ion-select');
+  const categorySelect = document.getElementById('categorySelect');
   if (categorySelect) {
     categorySelect.addEventListener('ionChange', () => updateList());
   }
 
+  // 排序選單和排序方向按鈕事件監聽
+  const sortSelect = document.getElementById('sortSelect');
+  if (sortSelect) {
+    sortSelect.addEventListener('ionChange', (event: any) => {
+      const value = event.detail.value;
+      changeSort(isSortField(value) ? value : '', getState().order);
+    });
+  }
+
+  const sortOrderBtn = document.getElementById('sortOrderBtn');
+  if (sortOrderBtn) {
+    sortOrderBtn.addEventListener('click', () => {
+      const { sort, order } = getState();
+      changeSort(sort, order === 'asc' ? 'desc' : 'asc');
+    });
+  }
+
+  // 複製搜索結果連結
+  const copyLinkBtn = document.getElementById('copyLinkBtn');
+  if (copyLinkBtn) {
+    copyLinkBtn.addEventListener('click', copySearchLink);
+  }
+
   // 收藏篩選 Toggle 事件監聽
   const bookmarkToggle = document.getElementById('bookmarkFilterToggle');
   if (bookmarkToggle) {
@@ -2267,6 +3650,24 @@ function initEventListeners(): void {
     logoutHeaderBtn.addEventListener('click', handleLogout);
   }
 
+  // 收藏待同步提示：點擊立即同步
+  const syncIndicator = document.getElementById('syncIndicator');
+  if (syncIndicator) {
+    syncIndicator.addEventListener('click', async () => {
+      try {
+        const result = await syncBookmarkOutbox();
+        if (result.remaining > 0 && !result.needsLogin) {
+          showError(t('sync.remaining', { count: result.remaining }));
+        } else if (result.remaining === 0) {
+          showSuccess(t('sync.done'));
+        }
+      } catch (error) {
+        console.warn('⚠️ 同步收藏發件匣失敗:', error);
+        showError(t('bookmarks.failed'));
+      }
+    });
+  }
+
   // 認證標籤切換
   const authTabs = document.querySelectorAll('.auth-tab');
   authTabs.forEach((tab) => {
@@ -2319,37 +3720,105 @@ function initEventListeners(): void {
 async function init(): Promise<void> {
   console.log('=== 應用程式初始化 ===');
 
+  // 偵測介面語言並翻譯靜態 HTML（載入器訊息也需要翻譯）
+  initI18n();
+
   // 初始化全屏載入器
   initAppLoader();
 
+  // 註冊 Service Worker 並監聽離線狀態
+  registerServiceWorker();
+  initOfflineBanner();
+
+  // 載入執行時配置（API 端點及分頁設定）
+  updateLoaderMessage(t('loader.config'));
+  await loadConfig();
+
+  // 預先載入搜索用的簡體化對照表
+  preloadConverter('China');
+
+  // 網址中保存的搜索狀態（重新整理或分享的連結）
+  const savedState = readSearchState();
+
+  // 狀態改變時重新渲染畫面（開發模式另外記錄操作，見 store-inspector.ts）
+  initStoreSubscriptions();
+  if (getConfig().devTools) {
+    enableActionLog();
+    initStoreInspector();
+  }
+
+  // 恢復主題：網址優先，其次是上次選擇的主題（預設使用配置的資源端點）
+  dispatch({
+    type: 'topic/switched',
+    topic: getTopic(
+      savedState?.topic ||
+        localStorage.getItem('topic') ||
+        getConfig().resourceEndpoint
+    ).endpoint,
+  });
+  initTopicSelector();
+  initScriptSelector();
+  initLocaleSelector();
+  updateTopicUI();
+  initSortControls(savedState);
+
+  // 分面篩選（從網址恢復篩選條件），條件變化時重新載入清單
+  initFacetFilters(loadFacetCounts);
+  window.addEventListener('facet-change', () => updateList());
+
   // 監聽 API 重試事件
   window.addEventListener('api-retry', ((event: CustomEvent) => {
     const { attempt, maxRetries, delayTime } = event.detail;
     updateLoaderMessage(
-      '正在載入景點資料...',
+      t('loader.data', { unit: topicUnit(currentTopic()) }),
       true,
-      `第 ${attempt}/${maxRetries} 次嘗試失敗，${(delayTime / 1000).toFixed(1)} 秒後重試...`
+      t('loader.retry', {
+        attempt,
+        max: maxRetries,
+        seconds: (delayTime / 1000).toFixed(1),
+      })
     );
   }) as EventListener);
 
+  // 收藏發件匣：更新待同步提示，恢復連線後同步
+  window.addEventListener('bookmark-outbox', ((event: CustomEvent) => {
+    updateSyncIndicator(event.detail.pending);
+  }) as EventListener);
+  window.addEventListener('online', () => {
+    if (!isLoggedIn()) return;
+    syncBookmarkOutbox().catch((error) => {
+      console.warn('⚠️ 同步收藏發件匣失敗:', error);
+    });
+  });
+
+  // 監聽 API 回應資料格式問題（寬鬆模式下有項目被略過時提示用戶）
+  window.addEventListener('api-validation', ((event: CustomEvent) => {
+    const issues: ValidationIssue[] = event.detail.issues;
+    const dropped = issues.filter((issue) => !issue.repaired).length;
+    if (dropped > 0) {
+      showError(t('validation.recordsDropped', { count: dropped }));
+    }
+  }) as EventListener);
+
   // 初始化事件監聽器
   initEventListeners();
+  await initInfiniteScroll();
 
   // 更新載入訊息
-  updateLoaderMessage('正在初始化應用程式...');
+  updateLoaderMessage(t('loader.init'));
 
   // 初始化為空狀態（完全不使用本地數據）
   console.log('初始化應用程式（等待用戶搜索）');
-  items = [];
-  useLocalData = false;
-  hasMoreData = false;
+  dispatch({ type: 'list/cleared' });
 
   // 初始化 UI 組件
   try {
     await initAreaChart(); // 餅狀圖通過服務器API獲取（同時填充分類選單）
 
     // 載入預覽景點並啟動輪換
-    updateLoaderMessage('正在載入精選景點...');
+    updateLoaderMessage(
+      t('loader.featured', { unit: topicUnit(currentTopic()) })
+    );
     await loadRandomPreviewItems(); // 初次加載預覽景點
     startPreviewRotation(); // 啟動定時輪換
 
@@ -2367,17 +3836,20 @@ async function init(): Promise<void> {
       const authResult = await checkAuth();
       if (authResult.user_id) {
         // Token 有效，恢復用戶狀態
-        currentUsername = localStorage.getItem('username');
-        console.log('✅ Token 驗證成功，用戶已登入:', currentUsername);
+        dispatch({
+          type: 'auth/changed',
+          username: localStorage.getItem('username'),
+        });
+        console.log('✅ Token 驗證成功，用戶已登入:', getState().username);
       } else {
         // Token 無效，清除狀態
         console.log('⚠️ Token 已失效，清除登入狀態');
-        currentUsername = null;
+        dispatch({ type: 'auth/changed', username: null });
         localStorage.removeItem('username');
       }
     } catch (error) {
       console.error('❌ Token 驗證失敗:', error);
-      currentUsername = null;
+      dispatch({ type: 'auth/changed', username: null });
       localStorage.removeItem('username');
     }
   } else {
@@ -2390,6 +3862,20 @@ async function init(): Promise<void> {
   // 載入用戶收藏列表（步驟 19）
   await loadUserBookmarks();
 
+  // 恢復網址中的搜索狀態；否則離線時顯示上次的搜尋結果（來自 Service Worker 緩存）
+  if (savedState) {
+    await restoreSearchState(savedState);
+  } else if (hasActiveFacets()) {
+    await updateList();
+  } else if (isOffline()) {
+    await restoreLastSearch();
+  }
+
+  // 啟動路由（處理分享連結，如 /attractions/12）
+  addRoute('/:resource/:id', showDetailView);
+  setFallbackRoute(showListView);
+  await startRouter();
+
   // 短暫延遲後隱藏載入器，讓用戶看到完整準備好的頁面
   setTimeout(() => {
     hideAppLoader();
@@ -2410,3 +3896,5 @@ if (document.readyState === 'loading') {
 (window as any).filterByArea = filterByArea;
 (window as any).loadAttractionsFromAPI = loadAttractionsFromAPI; // 導出供測試使用
 (window as any).loadMoreAttractions = loadMoreAttractions; // 導出供測試使用
+(window as any).conversionCacheStats = getConversionCacheStats; // 調試用：查看繁簡轉換緩存命中率
+(window as any).clearConversionCache = clearConversionCache; // 調試用：清除繁簡轉換緩存
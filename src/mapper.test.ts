@@ -0,0 +1,135 @@
+/**
+ * 資料映射層測試（npm test）
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fromLocalAttraction, toApiAttraction, toAttraction } from './mapper';
+import { ApiAttraction, LocalAttraction } from './types';
+
+const apiItem: ApiAttraction = {
+  id: 12,
+  title: '故宮博物院',
+  description: '明清兩代的皇家宮殿',
+  category: '歷史古蹟',
+  image_url: 'https://example.com/gugong.jpg',
+  video_url: 'https://www.youtube.com/embed/abc',
+  opening_hours: '08:30-17:00',
+  address: '景山前街4號',
+  city: '北京市',
+  country: '中國',
+  tags: ['世界遺產', '博物館'],
+  facilities: ['洗手間'],
+  published_at: '2024-01-01',
+};
+
+describe('toAttraction', () => {
+  it('將蛇形欄位轉為駝峰欄位', () => {
+    const attraction = toAttraction(apiItem);
+
+    assert.equal(attraction.imageUrl, apiItem.image_url);
+    assert.equal(attraction.videoUrl, apiItem.video_url);
+    assert.equal(attraction.openingHours, apiItem.opening_hours);
+    assert.deepEqual(attraction.tags, apiItem.tags);
+    assert.deepEqual(attraction.facilities, apiItem.facilities);
+  });
+
+  it('保留 API 原始欄位（主題額外欄位）', () => {
+    const attraction = toAttraction({ ...apiItem, language: 'TypeScript' });
+
+    assert.equal(attraction.fields?.language, 'TypeScript');
+    assert.equal(attraction.fields?.published_at, '2024-01-01');
+  });
+
+  it('缺少可選欄位時保持 undefined', () => {
+    const attraction = toAttraction({
+      id: 3,
+      title: '長城',
+      description: '',
+      category: '歷史古蹟',
+      image_url: '',
+      video_url: '',
+    });
+
+    assert.equal(attraction.openingHours, undefined);
+    assert.equal(attraction.address, undefined);
+    assert.equal(attraction.city, undefined);
+    assert.equal(attraction.tags, undefined);
+    assert.equal(attraction.facilities, undefined);
+  });
+});
+
+describe('toApiAttraction', () => {
+  it('API → 內部格式 → API 還原為相同的資料', () => {
+    assert.deepEqual(toApiAttraction(toAttraction(apiItem)), apiItem);
+  });
+
+  it('將駝峰欄位轉為蛇形欄位', () => {
+    const item = toApiAttraction({
+      id: 5,
+      title: '頤和園',
+      description: '皇家園林',
+      category: '園林',
+      imageUrl: 'img/yiheyuan.jpeg',
+      videoUrl: 'https://www.youtube.com/embed/def',
+    });
+
+    assert.equal(item.image_url, 'img/yiheyuan.jpeg');
+    assert.equal(item.video_url, 'https://www.youtube.com/embed/def');
+    assert.equal('imageUrl' in item, false);
+  });
+
+  it('移除空的可選欄位', () => {
+    const item = toApiAttraction({
+      id: 5,
+      title: '頤和園',
+      description: '皇家園林',
+      category: '園林',
+      imageUrl: '',
+      videoUrl: '',
+      city: undefined,
+    });
+
+    assert.deepEqual(Object.keys(item).sort(), [
+      'category',
+      'description',
+      'id',
+      'image_url',
+      'title',
+      'video_url',
+    ]);
+  });
+
+  it('內部欄位優先於原始欄位', () => {
+    const attraction = { ...toAttraction(apiItem), title: '紫禁城' };
+
+    assert.equal(toApiAttraction(attraction).title, '紫禁城');
+  });
+});
+
+describe('fromLocalAttraction', () => {
+  const local: LocalAttraction = {
+    name: '天壇',
+    area: '北京',
+    openTime: '06:00-22:00',
+    feature: '明清皇帝祭天的場所',
+    image: 'img/3-tiantan.jpeg',
+    video: 'https://www.youtube.com/embed/ghi',
+  };
+
+  it('遷移舊版欄位', () => {
+    assert.deepEqual(fromLocalAttraction(local, 0), {
+      id: 1,
+      title: '天壇',
+      description: '明清皇帝祭天的場所',
+      category: '北京',
+      imageUrl: 'img/3-tiantan.jpeg',
+      videoUrl: 'https://www.youtube.com/embed/ghi',
+      openingHours: '06:00-22:00',
+      city: '北京',
+    });
+  });
+
+  it('按位置生成 id（從 1 開始）', () => {
+    assert.equal(fromLocalAttraction(local, 4).id, 5);
+  });
+});
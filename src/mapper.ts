@@ -0,0 +1,77 @@
+/**
+ * 資料映射層
+ * API 使用蛇形命名（image_url），應用程式內部統一使用駝峰命名的 Attraction
+ *
+ * 所有轉換集中在此模組，渲染函數只讀取 Attraction 一種格式
+ */
+import { ApiAttraction, Attraction, LocalAttraction } from './types';
+
+/**
+ * API 資料 → 內部格式（蛇形 → 駝峰）
+ */
+export function toAttraction(item: ApiAttraction): Attraction {
+  return {
+    id: item.id,
+    title: item.title,
+    description: item.description,
+    category: item.category,
+    imageUrl: item.image_url,
+    videoUrl: item.video_url,
+    openingHours: item.opening_hours,
+    address: item.address,
+    city: item.city,
+    country: item.country,
+    tags: item.tags,
+    facilities: item.facilities,
+    fields: item, // API 原始欄位（按主題渲染額外欄位）
+  };
+}
+
+/**
+ * 內部格式 → API 資料（駝峰 → 蛇形）
+ * 保留原始欄位中的主題額外欄位（如 courses 的 language/level）
+ */
+export function toApiAttraction(attraction: Attraction): ApiAttraction {
+  const item: ApiAttraction = {
+    ...attraction.fields,
+    id: attraction.id,
+    title: attraction.title,
+    description: attraction.description,
+    category: attraction.category,
+    image_url: attraction.imageUrl,
+    video_url: attraction.videoUrl,
+    opening_hours: attraction.openingHours,
+    address: attraction.address,
+    city: attraction.city,
+    country: attraction.country,
+    tags: attraction.tags,
+    facilities: attraction.facilities,
+  };
+
+  // 移除空的可選欄位，保持與 API 回應一致
+  Object.keys(item).forEach((key) => {
+    if (item[key] === undefined) delete item[key];
+  });
+
+  return item;
+}
+
+/**
+ * 本地景點資料 → 內部格式（遷移舊版 name/area/openTime 等欄位）
+ * @param index 在本地資料中的位置，用於生成 id（從 1 開始）
+ */
+export function fromLocalAttraction(
+  local: LocalAttraction,
+  index: number
+): Attraction {
+  return {
+    id: index + 1,
+    title: local.name,
+    description: local.feature,
+    category: local.area,
+    imageUrl: local.image,
+    videoUrl: local.video,
+    openingHours: local.openTime,
+    city: local.area,
+  };
+}
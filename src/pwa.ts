@@ -0,0 +1,98 @@
+/**
+ * PWA 支援
+ * 註冊 Service Worker（src/sw.ts），並在離線或顯示緩存資料時顯示「離線資料」提示
+ */
+import type { OfflineDataMessage } from './sw';
+import { getLocale, t } from './i18n';
+
+/**
+ * 註冊 Service Worker（瀏覽器不支援或以 file:// 打開時略過）
+ */
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator) || !/^https?:$/.test(location.protocol)) {
+    console.log('ℹ️ 瀏覽器不支援 Service Worker，離線功能不可用');
+    return;
+  }
+
+  navigator.serviceWorker
+    .register('/sw.js')
+    .then((registration) => {
+      console.log('✅ Service Worker 已註冊:', registration.scope);
+    })
+    .catch((error) => {
+      console.warn('⚠️ Service Worker 註冊失敗:', error);
+    });
+}
+
+/**
+ * 顯示離線提示
+ */
+function showOfflineBanner(message: string): void {
+  const banner = document.getElementById('offlineBanner');
+  const text = document.getElementById('offlineBannerText');
+  if (!banner || !text) return;
+
+  text.textContent = message;
+  banner.hidden = false;
+}
+
+/**
+ * 隱藏離線提示
+ */
+function hideOfflineBanner(): void {
+  const banner = document.getElementById('offlineBanner');
+  if (banner) banner.hidden = true;
+}
+
+/**
+ * 格式化緩存時間
+ */
+function formatCachedAt(cachedAt: string | null): string {
+  const date = cachedAt ? new Date(cachedAt) : null;
+  if (!date || isNaN(date.getTime())) return '';
+
+  return date.toLocaleString(getLocale(), {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * 初始化離線提示
+ * - 瀏覽器離線/恢復連線時顯示/隱藏
+ * - Service Worker 返回緩存資料時顯示緩存時間
+ */
+export function initOfflineBanner(): void {
+  window.addEventListener('offline', () => {
+    console.warn('📴 網絡已中斷');
+    showOfflineBanner(t('offline.banner'));
+  });
+
+  window.addEventListener('online', () => {
+    console.log('🌐 網絡已恢復');
+    hideOfflineBanner();
+  });
+
+  navigator.serviceWorker?.addEventListener('message', (event) => {
+    const message = event.data as OfflineDataMessage | undefined;
+    if (message?.type !== 'offline-data') return;
+
+    const time = formatCachedAt(message.cachedAt);
+    showOfflineBanner(
+      time ? t('offline.cachedAt', { time }) : t('offline.cached')
+    );
+  });
+
+  if (!navigator.onLine) {
+    showOfflineBanner(t('offline.banner'));
+  }
+}
+
+/**
+ * 瀏覽器是否處於離線狀態
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
@@ -0,0 +1,315 @@
+/**
+ * API 回應緩存
+ * - 記憶體緩存：按正規化的請求鍵保存回應，在有效期（TTL）內直接返回
+ * - 請求去重：相同的請求正在進行時共用同一個網絡請求；
+ *   所有等待者都取消後才會取消網絡請求
+ * - 持久緩存（可選）：同時寫入 IndexedDB，重新打開頁面後仍可使用
+ *
+ * 緩存的是驗證後的回應資料，不包含使用者資料以外的狀態
+ */
+import { openStore } from './idb';
+
+/**
+ * 緩存項目
+ */
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  storedAt: number; // 寫入時間（毫秒時間戳）
+}
+
+/**
+ * 進行中的請求
+ */
+interface InFlightRequest<T = unknown> {
+  key: string;
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number; // 等待此請求的調用者數量
+  invalidated: boolean; // 請求期間緩存已失效，結果不寫入緩存
+}
+
+/**
+ * 緩存選項
+ */
+export interface CacheOptions<T = unknown> {
+  ttl: number; // 有效期（毫秒），0 表示不使用緩存（仍會合併相同的請求）
+  persistent?: boolean; // 是否同時使用 IndexedDB 持久緩存
+  signal?: AbortSignal; // 調用者的取消信號
+  cacheable?: (value: T) => boolean; // 回應是否寫入緩存（預設全部寫入）
+}
+
+// 記憶體緩存的最大項目數（超過時刪除最久未使用的項目）
+const MAX_MEMORY_ENTRIES = 200;
+// 持久緩存的最大項目數
+const MAX_PERSISTENT_ENTRIES = 500;
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlightRequest>();
+
+// 是否使用過持久緩存（未使用時失效操作不需要打開 IndexedDB）
+let persistentUsed = false;
+
+const db = openStore('api-cache', 1, 'responses', (database) => {
+  const store = database.createObjectStore('responses', { keyPath: 'key' });
+  store.createIndex('storedAt', 'storedAt');
+});
+
+/**
+ * 生成正規化的請求鍵：忽略空值，參數按名稱排序
+ * 例如 cacheKey('/attractions', { search: '香港', limit: 20 }) → '/attractions?limit=20&search=香港'
+ */
+export function cacheKey(
+  path: string,
+  params: Record<string, string | number | undefined | null> = {}
+): string {
+  const query = Object.keys(params)
+    .filter((name) => {
+      const value = params[name];
+      return value !== undefined && value !== null && String(value) !== '';
+    })
+    .sort()
+    .map((name) => `${name}=${String(params[name]).trim()}`)
+    .join('&');
+
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * 取消錯誤（與 fetch 被取消時的錯誤一致）
+ */
+function abortError(): Error {
+  return new DOMException('請求已取消', 'AbortError');
+}
+
+// ==================== 讀寫 ====================
+
+/**
+ * 寫入記憶體緩存（最近使用的項目移到最後）
+ */
+function remember(entry: CacheEntry): void {
+  memory.delete(entry.key);
+  memory.set(entry.key, entry);
+
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) break;
+    memory.delete(oldest);
+  }
+}
+
+/**
+ * 讀取有效期內的緩存（先讀記憶體，再讀 IndexedDB）
+ */
+async function readCache<T>(
+  key: string,
+  ttl: number,
+  persistent: boolean
+): Promise<T | undefined> {
+  const now = Date.now();
+
+  const cached = memory.get(key);
+  if (cached && now - cached.storedAt < ttl) {
+    remember(cached);
+    return cached.value as T;
+  }
+
+  if (!persistent) return undefined;
+
+  try {
+    const stored: CacheEntry | undefined = await db.run('readonly', (store) =>
+      store.get(key)
+    );
+    if (stored && now - stored.storedAt < ttl) {
+      remember(stored);
+      return stored.value as T;
+    }
+  } catch (error) {
+    console.warn('⚠️ 讀取持久緩存失敗:', error);
+  }
+
+  return undefined;
+}
+
+/**
+ * 寫入緩存
+ */
+function writeCache(entry: CacheEntry, persistent: boolean): void {
+  remember(entry);
+
+  if (!persistent) return;
+
+  db.run('readwrite', (store) => store.put(entry))
+    .then(() => trimPersistent())
+    .catch((error) => console.warn('⚠️ 寫入持久緩存失敗:', error));
+}
+
+/**
+ * 刪除超出數量上限的最舊持久緩存
+ */
+async function trimPersistent(): Promise<void> {
+  const count = await db.run('readonly', (store) => store.count());
+  if (!count || count <= MAX_PERSISTENT_ENTRIES) return;
+
+  const keys = await db.run('readonly', (store) =>
+    store.index('storedAt').getAllKeys(null, count - MAX_PERSISTENT_ENTRIES)
+  );
+  for (const key of keys || []) {
+    await db.run('readwrite', (store) => store.delete(key));
+  }
+}
+
+// ==================== 請求 ====================
+
+/**
+ * 調用者不再等待請求；沒有等待者時取消網絡請求
+ */
+function unsubscribe(request: InFlightRequest): void {
+  request.subscribers--;
+
+  if (request.subscribers === 0) {
+    request.controller.abort();
+    if (inFlight.get(request.key) === request) {
+      inFlight.delete(request.key);
+    }
+  }
+}
+
+/**
+ * 等待進行中的請求（調用者取消時只退出等待）
+ */
+function subscribe<T>(
+  request: InFlightRequest<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  request.subscribers++;
+
+  // 沒有取消信號的調用者會一直等待，請求不會被取消
+  if (!signal) return request.promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      unsubscribe(request);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    request.promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * 帶緩存的請求
+ * 有效期內的緩存直接返回；相同的請求正在進行時共用結果；否則調用 load 並寫入緩存
+ * @param key 請求鍵（使用 cacheKey 生成）
+ * @param load 實際的請求，應使用傳入的取消信號
+ */
+export async function cachedRequest<T>(
+  key: string,
+  load: (signal: AbortSignal) => Promise<T>,
+  options: CacheOptions<T>
+): Promise<T> {
+  const { ttl, persistent = false, signal, cacheable } = options;
+  persistentUsed = persistentUsed || persistent;
+
+  if (ttl > 0) {
+    const cached = await readCache<T>(key, ttl, persistent);
+    if (cached !== undefined) {
+      console.log('📦 使用緩存的回應:', key);
+      return cached;
+    }
+  }
+
+  let request = inFlight.get(key) as InFlightRequest<T> | undefined;
+
+  if (request) {
+    console.log('🔗 合併相同的進行中請求:', key);
+  } else {
+    const controller = new AbortController();
+    const created: InFlightRequest<T> = {
+      key,
+      controller,
+      subscribers: 0,
+      invalidated: false,
+      promise: load(controller.signal)
+        .then((value) => {
+          if (
+            ttl > 0 &&
+            !created.invalidated &&
+            (!cacheable || cacheable(value))
+          ) {
+            writeCache({ key, value, storedAt: Date.now() }, persistent);
+          }
+          return value;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === created) {
+            inFlight.delete(key);
+          }
+        }),
+    };
+
+    // 所有等待者都已取消時，避免未處理的 Promise 拒絕
+    created.promise.catch(() => undefined);
+
+    request = created;
+    inFlight.set(key, request);
+  }
+
+  return subscribe(request, signal);
+}
+
+/**
+ * 使緩存失效
+ * @param match 鍵的前綴（如 '/bookmarks'）或判斷函數；省略時清除全部緩存
+ */
+export async function invalidateCache(
+  match?: string | ((key: string) => boolean)
+): Promise<void> {
+  const matches =
+    match === undefined
+      ? () => true
+      : typeof match === 'string'
+        ? (key: string) => key.startsWith(match)
+        : match;
+
+  let removed = 0;
+  Array.from(memory.keys()).forEach((key) => {
+    if (matches(key)) {
+      memory.delete(key);
+      removed++;
+    }
+  });
+
+  // 進行中的請求完成後不寫入緩存，之後的請求重新發送
+  Array.from(inFlight.values()).forEach((request) => {
+    if (matches(request.key)) {
+      request.invalidated = true;
+      inFlight.delete(request.key);
+    }
+  });
+
+  if (persistentUsed) {
+    try {
+      const keys = await db.run('readonly', (store) => store.getAllKeys());
+      for (const key of keys || []) {
+        if (typeof key === 'string' && matches(key)) {
+          await db.run('readwrite', (store) => store.delete(key));
+          removed++;
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ 清除持久緩存失敗:', error);
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`🗑️ 已清除 ${removed} 個緩存項目`, match ?? '（全部）');
+  }
+}
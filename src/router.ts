@@ -0,0 +1,160 @@
+/**
+ * 客戶端路由
+ * 使用 History API，服務器的 SPA 路由（app.get('*')）會對任何路徑返回 index.html，
+ * 因此 /attractions/12 之類的連結可以直接分享或重新整理
+ *
+ * 路由模式使用 :name 表示參數，例如 /:resource/:id
+ */
+
+/**
+ * 路由匹配結果
+ */
+export interface RouteMatch {
+  path: string; // 當前路徑（不含查詢字串）
+  params: Record<string, string>; // 路由參數
+}
+
+/**
+ * 路由處理函數
+ */
+export type RouteHandler = (match: RouteMatch) => void | Promise<void>;
+
+/**
+ * 路由定義
+ */
+interface Route {
+  pattern: string;
+  handler: RouteHandler;
+}
+
+/**
+ * 通過 navigate() 在應用程式內導航時寫入的歷史狀態
+ * 用於判斷「返回」能否直接使用瀏覽器的上一頁
+ */
+interface RouterState {
+  internal: true;
+}
+
+const routes: Route[] = [];
+let fallbackHandler: RouteHandler | null = null;
+
+/**
+ * 註冊路由（按註冊順序匹配）
+ */
+export function addRoute(pattern: string, handler: RouteHandler): void {
+  routes.push({ pattern, handler });
+}
+
+/**
+ * 設定沒有路由匹配時的處理函數（通常為清單頁）
+ */
+export function setFallbackRoute(handler: RouteHandler): void {
+  fallbackHandler = handler;
+}
+
+/**
+ * 匹配路由模式，成功時返回參數
+ */
+export function matchRoute(
+  pattern: string,
+  path: string
+): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null; // 無效的百分比編碼
+      }
+    } else if (part !== pathParts[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * 根據當前網址執行對應的路由
+ */
+async function resolve(): Promise<void> {
+  const path = window.location.pathname;
+
+  for (const route of routes) {
+    const params = matchRoute(route.pattern, path);
+    if (params) {
+      await route.handler({ path, params });
+      return;
+    }
+  }
+
+  if (fallbackHandler) {
+    await fallbackHandler({ path, params: {} });
+  }
+}
+
+/**
+ * 導航到指定路徑（寫入瀏覽器歷史）
+ * @param replace 取代當前歷史記錄而非新增
+ */
+export async function navigate(
+  path: string,
+  options: { replace?: boolean } = {}
+): Promise<void> {
+  const state: RouterState = { internal: true };
+
+  if (options.replace) {
+    window.history.replaceState(state, '', path);
+  } else if (path !== window.location.pathname) {
+    window.history.pushState(state, '', path);
+  }
+
+  await resolve();
+}
+
+/**
+ * 上一頁是否屬於本應用程式（直接打開分享連結時為 false）
+ */
+export function canGoBack(): boolean {
+  return (window.history.state as RouterState | null)?.internal === true;
+}
+
+/**
+ * 啟動路由：監聽瀏覽器上一頁/下一頁及 <a data-link> 連結點擊，並處理當前網址
+ */
+export async function startRouter(): Promise<void> {
+  window.addEventListener('popstate', () => {
+    resolve();
+  });
+
+  document.addEventListener('click', (event) => {
+    const link = (event.target as HTMLElement).closest?.('a[data-link]');
+    if (!link) return;
+
+    // 保留新分頁打開等瀏覽器預設行為
+    if (
+      event.ctrlKey ||
+      event.metaKey ||
+      event.shiftKey ||
+      event.button !== 0
+    ) {
+      return;
+    }
+
+    const href = link.getAttribute('href');
+    if (!href) return;
+
+    event.preventDefault();
+    navigate(href);
+  });
+
+  await resolve();
+}
@@ -0,0 +1,213 @@
+/**
+ * 客戶端搜索索引測試（npm test）
+ * Node 中無法載入拼音、粵拼字典及繁簡對照表，只測試文字比對
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  HighlightRange,
+  highlightItems,
+  mergeRanges,
+  searchItems,
+} from './search-index';
+import { Attraction } from './types';
+
+let nextId = 1;
+
+/**
+ * 建立測試項目（每個項目使用不同的 ID，避免共用索引）
+ */
+function item(fields: Partial<Attraction>): Attraction {
+  return {
+    id: nextId++,
+    title: '',
+    description: '',
+    category: 'Landmark',
+    imageUrl: '',
+    videoUrl: '',
+    ...fields,
+  };
+}
+
+/**
+ * 高亮範圍在原文中的文字
+ */
+function slices(text: string, ranges: HighlightRange[] | undefined): string[] {
+  return (ranges || []).map((range) => text.slice(range.start, range.end));
+}
+
+describe('searchItems', () => {
+  it('搜索詞為空時返回所有項目', async () => {
+    const items = [item({ title: 'Great Wall' }), item({ title: 'Temple' })];
+    const results = await searchItems('  ', items);
+
+    assert.deepEqual(
+      results.map((result) => result.item),
+      items
+    );
+  });
+
+  it('多個搜索詞必須全部匹配', async () => {
+    const both = item({ title: 'Palace Museum' });
+    const palaceOnly = item({ title: 'Summer Palace' });
+    const museumOnly = item({ title: 'Science Museum' });
+
+    const results = await searchItems('palace museum', [
+      palaceOnly,
+      both,
+      museumOnly,
+    ]);
+
+    assert.deepEqual(
+      results.map((result) => result.item),
+      [both]
+    );
+  });
+
+  it('搜索詞可以分別匹配不同欄位', async () => {
+    const match = item({ title: 'Palace Museum', tags: ['heritage'] });
+    const results = await searchItems('heritage palace', [match]);
+
+    assert.equal(results.length, 1);
+    assert.deepEqual(Array.from(results[0].highlights.keys()).sort(), [
+      'tags:0',
+      'title',
+    ]);
+  });
+
+  it('按欄位加權排序：標題 > 標籤 > 描述', async () => {
+    const inDescription = item({
+      title: 'Old Town',
+      description: 'A quiet garden by the river',
+    });
+    const inTags = item({ title: 'City Park', tags: ['garden'] });
+    const inTitle = item({ title: 'Botanic garden' });
+
+    const results = await searchItems('garden', [
+      inDescription,
+      inTags,
+      inTitle,
+    ]);
+
+    assert.deepEqual(
+      results.map((result) => result.item),
+      [inTitle, inTags, inDescription]
+    );
+  });
+
+  it('分數相同時保持原順序', async () => {
+    const first = item({ title: 'Tower A' });
+    const second = item({ title: 'Tower B' });
+    const results = await searchItems('tower', [first, second]);
+
+    assert.deepEqual(
+      results.map((result) => result.item),
+      [first, second]
+    );
+  });
+
+  it('完全匹配的分數高於錯字容忍的匹配', async () => {
+    const exact = item({ title: 'Museum' });
+    const typo = item({ title: 'Musuem' });
+    const results = await searchItems('museum', [typo, exact]);
+
+    assert.deepEqual(
+      results.map((result) => result.item),
+      [exact, typo]
+    );
+  });
+});
+
+describe('錯字容忍', () => {
+  it('中等長度的英文詞允許一個錯字（包括相鄰字母對調）', async () => {
+    const museum = item({ title: 'Palace Museum' });
+
+    assert.equal((await searchItems('muesum', [museum])).length, 1);
+    assert.equal((await searchItems('museun', [museum])).length, 1);
+    assert.equal((await searchItems('mxsexm', [museum])).length, 0);
+  });
+
+  it('短詞不容忍錯字', async () => {
+    const tower = item({ title: 'Bell Tower' });
+
+    assert.equal((await searchItems('bel', [tower])).length, 1);
+    assert.equal((await searchItems('bxl', [tower])).length, 0);
+  });
+
+  it('長詞允許兩個錯字', async () => {
+    const building = item({ title: 'Modern architecture' });
+
+    assert.equal((await searchItems('archtecure', [building])).length, 1);
+    assert.equal((await searchItems('arxhtecure', [building])).length, 0);
+  });
+
+  it('中文允許個別錯字', async () => {
+    const palace = item({ title: '故宮博物院' });
+
+    assert.equal((await searchItems('故官博', [palace])).length, 1);
+    assert.equal((await searchItems('故官', [palace])).length, 0);
+  });
+});
+
+describe('高亮範圍', () => {
+  it('範圍對應原文中的位置（不論大小寫）', async () => {
+    const title = 'The Summer Palace and the Old Summer Palace';
+    const [result] = await searchItems('palace', [item({ title })]);
+
+    assert.deepEqual(slices(title, result.highlights.get('title')), [
+      'Palace',
+      'Palace',
+    ]);
+  });
+
+  it('中文及標籤的範圍', async () => {
+    const tags = ['世界遺產', '博物館'];
+    const [result] = await searchItems('博物', [
+      item({ title: '故宮博物院', tags }),
+    ]);
+
+    assert.deepEqual(slices('故宮博物院', result.highlights.get('title')), [
+      '博物',
+    ]);
+    assert.deepEqual(slices(tags[1], result.highlights.get('tags:1')), [
+      '博物',
+    ]);
+    assert.equal(result.highlights.has('tags:0'), false);
+  });
+
+  it('錯字容忍時高亮整個單詞', async () => {
+    const title = 'Palace Museum';
+    const [result] = await searchItems('musuem', [item({ title })]);
+
+    assert.deepEqual(slices(title, result.highlights.get('title')), ['Museum']);
+  });
+
+  it('highlightItems 不過濾項目，每個搜索詞分別高亮', async () => {
+    const partial = item({ title: 'Summer Palace' });
+    const none = item({ title: 'Great Wall' });
+    const highlights = await highlightItems('palace museum', [partial, none]);
+
+    assert.deepEqual(
+      slices(partial.title, highlights.get(partial.id)?.get('title')),
+      ['Palace']
+    );
+    assert.equal(highlights.get(none.id)?.size, 0);
+  });
+});
+
+describe('mergeRanges', () => {
+  it('合併重疊及相接的範圍並排序', () => {
+    assert.deepEqual(
+      mergeRanges([
+        { start: 8, end: 10 },
+        { start: 0, end: 3 },
+        { start: 2, end: 5 },
+        { start: 5, end: 6 },
+      ]),
+      [
+        { start: 0, end: 6 },
+        { start: 8, end: 10 },
+      ]
+    );
+  });
+});
@@ -0,0 +1,628 @@
+/**
+ * 客戶端搜索索引（收藏模式的搜索及搜索結果的高亮）
+ * - 繁簡通用：文字與搜索詞都經 conversion-cache.ts 轉為簡體後比對
+ * - 拼音 / 粵拼：支援首字母（gg → 故宮）及完整音節（gugong、gugung）
+ * - 錯字容忍：英文單詞允許 1～2 個編輯距離，中文允許個別錯字
+ * - 多個搜索詞（以空格分隔）必須全部匹配（AND）
+ * - 按欄位加權排序：標題 > 標籤 > 分類 > 地址 > 描述
+ *
+ * 拼音（pinyin-pro）和粵拼（to-jyutping）的字典由服務器在 /vendor/ 提供，首次搜索時載入；
+ * 無法載入時只使用文字比對
+ */
+import type { pinyin as PinyinFunction } from 'pinyin-pro';
+import type { getJyutpingList as JyutpingListFunction } from 'to-jyutping';
+import { Attraction } from './types';
+import { convertCached } from './conversion-cache';
+
+/**
+ * 可搜索的欄位
+ */
+export type SearchFieldName =
+  'title' | 'tags' | 'category' | 'location' | 'description';
+
+/**
+ * 高亮範圍（原文中的字元位置，end 不包含）
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 項目的高亮範圍：鍵為欄位名稱，標籤為 'tags:<索引>'
+ */
+export type MatchHighlights = Map<string, HighlightRange[]>;
+
+/**
+ * 搜索結果
+ */
+export interface SearchResult<T extends Attraction = Attraction> {
+  item: T;
+  score: number;
+  highlights: MatchHighlights;
+}
+
+// 欄位權重
+const FIELD_WEIGHTS: Record<SearchFieldName, number> = {
+  title: 5,
+  tags: 3,
+  category: 2,
+  location: 1.5,
+  description: 1,
+};
+
+// 匹配方式的分數（乘以欄位權重）
+const MATCH_SCORES = {
+  exact: 1,
+  syllables: 0.7,
+  initials: 0.6,
+  fuzzy: 0.4,
+};
+
+// 緩存的項目索引數量上限
+const MAX_INDEXED_ITEMS = 2000;
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+const WORD_PATTERN = /[a-z0-9]+/g;
+
+// 拼音及粵拼字典（UMD 格式，載入後設置全域變數）
+const ROMANIZATION_SCRIPTS = {
+  pinyinPro: '/vendor/pinyin-pro/index.js',
+  ToJyutping: '/vendor/to-jyutping/index.js',
+};
+
+type RomanizationGlobal = keyof typeof ROMANIZATION_SCRIPTS;
+
+interface Romanizers {
+  pinyin?: typeof PinyinFunction;
+  jyutping?: typeof JyutpingListFunction;
+}
+
+/**
+ * 欄位原文
+ */
+interface FieldText {
+  key: string; // 高亮鍵（'title'、'tags:0' 等）
+  name: SearchFieldName;
+  text: string;
+}
+
+/**
+ * 已建立索引的欄位
+ */
+interface IndexedField {
+  key: string; // 高亮鍵（'title'、'tags:0' 等）
+  name: SearchFieldName;
+  text: string; // 用於比對的文字（簡體、小寫），與原文的字元位置一致
+  starts: number[]; // 每個字（Unicode 碼位）在文字中的起始位置
+  pinyin: (string | null)[]; // 每個字的拼音（非中文為 null）
+  jyutping: (string | null)[]; // 每個字的粵拼（不含聲調）
+}
+
+/**
+ * 已建立索引的項目
+ */
+interface IndexedItem {
+  signature: string; // 欄位原文，用於判斷資料是否已更新
+  fields: IndexedField[];
+}
+
+/**
+ * 已處理的搜索詞
+ */
+interface QueryTerm {
+  text: string; // 簡體、小寫
+  latin: boolean; // 只包含英文字母（可比對拼音及粵拼）
+}
+
+/**
+ * 一個搜索詞在一個欄位中的匹配
+ */
+interface FieldMatch {
+  score: number;
+  ranges: HighlightRange[];
+}
+
+const index = new Map<number, IndexedItem>();
+const scripts = new Map<RomanizationGlobal, Promise<unknown>>();
+
+// ==================== 拼音及粵拼 ====================
+
+/**
+ * 載入字典腳本（只載入一次，失敗時允許重新嘗試）
+ */
+function loadGlobal<T>(name: RomanizationGlobal): Promise<T> {
+  let promise = scripts.get(name) as Promise<T> | undefined;
+
+  if (!promise) {
+    promise = new Promise<T>((resolve, reject) => {
+      if (typeof document === 'undefined') {
+        reject(new Error('當前環境不支援載入字典'));
+        return;
+      }
+
+      const script = document.createElement('script');
+      script.src = ROMANIZATION_SCRIPTS[name];
+      script.async = true;
+      script.onload = () => {
+        const module = (window as any)[name] as T | undefined;
+        if (module) {
+          console.log(`✅ 已載入搜索字典（${name}）`);
+          resolve(module);
+        } else {
+          reject(new Error(`搜索字典格式錯誤（${name}）`));
+        }
+      };
+      script.onerror = () => reject(new Error(`無法載入搜索字典（${name}）`));
+      document.head.appendChild(script);
+    });
+
+    promise.catch(() => scripts.delete(name));
+    scripts.set(name, promise);
+  }
+
+  return promise;
+}
+
+/**
+ * 載入拼音及粵拼字典（無法載入的字典略過）
+ */
+async function loadRomanizers(): Promise<Romanizers> {
+  const [pinyinModule, jyutpingModule] = await Promise.allSettled([
+    loadGlobal<{ pinyin: typeof PinyinFunction }>('pinyinPro'),
+    loadGlobal<{ getJyutpingList: typeof JyutpingListFunction }>('ToJyutping'),
+  ]);
+
+  if (pinyinModule.status === 'rejected') {
+    console.warn('⚠️ 拼音搜索不可用:', pinyinModule.reason);
+  }
+  if (jyutpingModule.status === 'rejected') {
+    console.warn('⚠️ 粵拼搜索不可用:', jyutpingModule.reason);
+  }
+
+  return {
+    pinyin:
+      pinyinModule.status === 'fulfilled'
+        ? pinyinModule.value.pinyin
+        : undefined,
+    jyutping:
+      jyutpingModule.status === 'fulfilled'
+        ? jyutpingModule.value.getJyutpingList
+        : undefined,
+  };
+}
+
+/**
+ * 每個字的讀音（非中文及無法取得讀音的字為 null）
+ */
+function syllablesOf(
+  chars: string[],
+  readings: (string | null | undefined)[] | undefined
+): (string | null)[] {
+  return chars.map((char, i) => {
+    const reading = readings?.[i];
+    if (!reading || !CJK_PATTERN.test(char)) return null;
+    // ü 按輸入法習慣以 v 輸入（lü → lv）
+    return (
+      reading
+        .toLowerCase()
+        .replace(/ü/g, 'v')
+        .replace(/[^a-z]/g, '') || null
+    );
+  });
+}
+
+// ==================== 建立索引 ====================
+
+/**
+ * 項目的可搜索欄位原文
+ */
+function fieldTexts(item: Attraction): FieldText[] {
+  const fields: FieldText[] = [
+    { key: 'title', name: 'title', text: item.title || '' },
+    ...(item.tags || []).map((tag, i): FieldText => ({
+      key: `tags:${i}`,
+      name: 'tags',
+      text: tag,
+    })),
+    { key: 'category', name: 'category', text: item.category || '' },
+    {
+      key: 'location',
+      name: 'location',
+      text: [item.city, item.address].filter(Boolean).join(' '),
+    },
+    { key: 'description', name: 'description', text: item.description || '' },
+  ];
+  return fields.filter((field) => field.text);
+}
+
+/**
+ * 正規化文字（小寫）；長度改變時使用原文，確保高亮位置與原文一致
+ */
+function normalize(original: string, simplified: string): string {
+  const lower = simplified.toLowerCase();
+  if (lower.length === original.length) return lower;
+  return original.toLowerCase().length === original.length
+    ? original.toLowerCase()
+    : original;
+}
+
+/**
+ * 為項目建立索引（已建立且資料未變的項目略過）
+ */
+export async function indexItems(items: Attraction[]): Promise<void> {
+  const pending = items
+    .map((item) => {
+      const fields = fieldTexts(item);
+      const signature = JSON.stringify(fields.map((field) => field.text));
+      return { item, fields, signature };
+    })
+    .filter(
+      ({ item, signature }) => index.get(item.id)?.signature !== signature
+    );
+
+  if (pending.length === 0) return;
+
+  const texts = pending.flatMap(({ fields }) => fields.map((f) => f.text));
+  const [simplified, romanizers] = await Promise.all([
+    convertCached(texts, 'China'),
+    loadRomanizers(),
+  ]);
+
+  let position = 0;
+  pending.forEach(({ item, fields, signature }) => {
+    const indexed = fields.map((field): IndexedField => {
+      const text = normalize(field.text, simplified[position++]);
+      const chars = Array.from(text);
+      const starts: number[] = [];
+      chars.reduce((offset, char) => {
+        starts.push(offset);
+        return offset + char.length;
+      }, 0);
+
+      return {
+        key: field.key,
+        name: field.name,
+        text,
+        starts,
+        // 拼音使用簡體（多音字按詞語判斷），粵拼使用原文
+        pinyin: syllablesOf(
+          chars,
+          romanizers.pinyin?.(text, { toneType: 'none', type: 'array' })
+        ),
+        jyutping: syllablesOf(
+          Array.from(field.text),
+          romanizers.jyutping?.(field.text).map(([, reading]) => reading)
+        ),
+      };
+    });
+
+    index.delete(item.id);
+    index.set(item.id, { signature, fields: indexed });
+  });
+
+  // 超出上限時刪除最早建立的索引
+  while (index.size > MAX_INDEXED_ITEMS) {
+    const oldest = index.keys().next().value;
+    if (oldest === undefined) break;
+    index.delete(oldest);
+  }
+}
+
+// ==================== 匹配 ====================
+
+/**
+ * 將搜索詞拆分為多個詞並轉為簡體
+ */
+async function parseQuery(query: string): Promise<QueryTerm[]> {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const simplified = await convertCached(words, 'China');
+  return simplified.map((word) => {
+    const text = word.toLowerCase();
+    return { text, latin: /^[a-z]+$/.test(text) };
+  });
+}
+
+/**
+ * 允許的編輯距離（短詞不容忍錯字）
+ */
+function maxEdits(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * 編輯距離（包括相鄰字元對調），超過 limit 時提前返回 limit + 1
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > limit) return limit + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 字元位置範圍（第 from 個字至第 to 個字，不包含 to）轉換為文字位置
+ */
+function charRange(field: IndexedField, from: number, to: number) {
+  return {
+    start: field.starts[from],
+    end: to < field.starts.length ? field.starts[to] : field.text.length,
+  };
+}
+
+/**
+ * 文字比對：找出所有出現位置（在開頭或詞首出現時加分）
+ */
+function matchExact(term: QueryTerm, field: IndexedField): FieldMatch | null {
+  const ranges: HighlightRange[] = [];
+  let position = field.text.indexOf(term.text);
+  if (position === -1) return null;
+
+  let bonus = 0;
+  while (position !== -1) {
+    ranges.push({ start: position, end: position + term.text.length });
+    if (position === 0 || /[\s\-_/·]/.test(field.text[position - 1])) {
+      bonus = Math.max(bonus, 0.2);
+    }
+    position = field.text.indexOf(term.text, position + term.text.length);
+  }
+
+  if (field.text === term.text) bonus = 0.5;
+  return { score: MATCH_SCORES.exact + bonus, ranges };
+}
+
+/**
+ * 讀音比對：首字母（gg → 故宮）或從某個字開始的連續完整音節（gugong）
+ */
+function matchReading(
+  term: QueryTerm,
+  field: IndexedField,
+  syllables: (string | null)[]
+): FieldMatch | null {
+  if (!term.latin || term.text.length < 2) return null;
+
+  // 首字母：每個中文字一個字母，其他字元為分隔
+  const initials = syllables.map((syllable) => syllable?.[0] ?? ' ').join('');
+  const start = initials.indexOf(term.text);
+  if (start !== -1) {
+    return {
+      score: MATCH_SCORES.initials,
+      ranges: [charRange(field, start, start + term.text.length)],
+    };
+  }
+
+  // 完整音節：最後一個音節可以只輸入開頭（gugo → 故宮）
+  for (let from = 0; from < syllables.length; from++) {
+    const to = matchSyllables(term.text, syllables, from);
+    if (to !== -1) {
+      return {
+        score: MATCH_SCORES.syllables,
+        ranges: [charRange(field, from, to)],
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 從第 from 個字開始，以連續的音節拼出 rest
+ * @returns 匹配的最後一個字之後的位置，不匹配時返回 -1
+ */
+function matchSyllables(
+  rest: string,
+  syllables: (string | null)[],
+  from: number
+): number {
+  const syllable = syllables[from];
+  if (!syllable) return -1;
+
+  // 最後一個音節只輸入了開頭
+  if (syllable.startsWith(rest)) return from + 1;
+  if (!rest.startsWith(syllable)) return -1;
+
+  return matchSyllables(rest.slice(syllable.length), syllables, from + 1);
+}
+
+/**
+ * 錯字容忍：英文按單詞比對編輯距離，中文允許相同長度的片段有個別錯字
+ */
+function matchFuzzy(term: QueryTerm, field: IndexedField): FieldMatch | null {
+  const limit = term.latin
+    ? maxEdits(term.text.length)
+    : term.text.length >= 3
+      ? Math.floor(term.text.length / 3)
+      : 0;
+  if (limit === 0) return null;
+
+  let best: { distance: number; range: HighlightRange } | null = null;
+
+  if (term.latin) {
+    for (const word of field.text.matchAll(WORD_PATTERN)) {
+      // 輸入中的詞也可以只比對單詞開頭
+      const candidate =
+        word[0].length > term.text.length + limit
+          ? word[0].slice(0, term.text.length)
+          : word[0];
+      const distance = editDistance(term.text, candidate, limit);
+      if (distance <= limit && (!best || distance < best.distance)) {
+        const start = word.index ?? 0;
+        best = { distance, range: { start, end: start + word[0].length } };
+      }
+    }
+  } else {
+    const termChars = Array.from(term.text);
+    const chars = Array.from(field.text);
+
+    for (let from = 0; from + termChars.length <= chars.length; from++) {
+      let distance = 0;
+      for (let i = 0; i < termChars.length && distance <= limit; i++) {
+        if (chars[from + i] !== termChars[i]) distance++;
+      }
+      if (distance <= limit && (!best || distance < best.distance)) {
+        best = {
+          distance,
+          range: charRange(field, from, from + termChars.length),
+        };
+      }
+    }
+  }
+
+  if (!best) return null;
+  return {
+    score: MATCH_SCORES.fuzzy - 0.1 * (best.distance - 1),
+    ranges: [best.range],
+  };
+}
+
+/**
+ * 一個搜索詞在一個欄位中的最佳匹配
+ */
+function matchField(term: QueryTerm, field: IndexedField): FieldMatch | null {
+  return (
+    matchExact(term, field) ||
+    matchReading(term, field, field.pinyin) ||
+    matchReading(term, field, field.jyutping) ||
+    matchFuzzy(term, field)
+  );
+}
+
+/**
+ * 比對一個已建立索引的項目（所有搜索詞都必須匹配）
+ * @returns 分數及高亮範圍，不匹配時返回 null
+ */
+function matchItem(
+  terms: QueryTerm[],
+  indexed: IndexedItem
+): { score: number; highlights: MatchHighlights } | null {
+  const highlights: MatchHighlights = new Map();
+  let score = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+
+    indexed.fields.forEach((field) => {
+      const match = matchField(term, field);
+      if (!match) return;
+
+      termScore = Math.max(termScore, match.score * FIELD_WEIGHTS[field.name]);
+      highlights.set(field.key, [
+        ...(highlights.get(field.key) || []),
+        ...match.ranges,
+      ]);
+    });
+
+    if (termScore === 0) return null;
+    score += termScore;
+  }
+
+  return { score, highlights };
+}
+
+// ==================== 公開接口 ====================
+
+/**
+ * 搜索項目並按相關度排序（分數相同時保持原順序）
+ * 搜索詞為空時返回所有項目
+ */
+export async function searchItems<T extends Attraction>(
+  query: string,
+  items: T[]
+): Promise<SearchResult<T>[]> {
+  const terms = await parseQuery(query);
+  if (terms.length === 0) {
+    return items.map((item) => ({ item, score: 0, highlights: new Map() }));
+  }
+
+  await indexItems(items);
+
+  const results: SearchResult<T>[] = [];
+  items.forEach((item) => {
+    const indexed = index.get(item.id);
+    const match = indexed && matchItem(terms, indexed);
+    if (match) results.push({ item, ...match });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 計算項目的高亮範圍（不過濾、不排序，用於伺服器返回的搜索結果）
+ * @returns 每個項目的高亮範圍（不匹配的項目為空）
+ */
+export async function highlightItems(
+  query: string,
+  items: Attraction[]
+): Promise<Map<number, MatchHighlights>> {
+  const terms = await parseQuery(query);
+  const highlights = new Map<number, MatchHighlights>();
+  if (terms.length > 0) await indexItems(items);
+
+  items.forEach((item) => {
+    const indexed = index.get(item.id);
+    const matches: MatchHighlights = new Map();
+
+    // 每個搜索詞分別高亮（伺服器的匹配規則可能不同，部分匹配也顯示）
+    terms.forEach((term) => {
+      indexed?.fields.forEach((field) => {
+        const match = matchField(term, field);
+        if (match) {
+          matches.set(field.key, [
+            ...(matches.get(field.key) || []),
+            ...match.ranges,
+          ]);
+        }
+      });
+    });
+
+    highlights.set(item.id, matches);
+  });
+
+  return highlights;
+}
+
+/**
+ * 合併重疊的高亮範圍（按位置排序）
+ */
+export function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+}
@@ -0,0 +1,83 @@
+/**
+ * 搜索狀態的網址同步
+ * - 主題、搜索詞、分類、排序、「只看收藏」及已載入的頁數保存在網址的查詢參數中
+ *   （如 /?topic=attractions&search=博物&category=歷史古蹟&sort=title&page=3）
+ * - 以 replaceState 更新當前歷史記錄，保留其他查詢參數（分面篩選的參數見 facet-filters.ts）
+ * - 重新整理或打開分享的連結時由 main.ts 讀取並恢復，重新載入到保存的頁數
+ */
+import { SortField, SortOrder, isSortField } from './sort';
+
+/**
+ * 清單頁的搜索狀態
+ */
+export interface SearchState {
+  topic: string; // 主題資源端點（如 /attractions）
+  search: string;
+  category: string;
+  sort: SortField | '';
+  order: SortOrder;
+  bookmarked: boolean;
+  page: number; // 已載入的頁數
+}
+
+// 本模組管理的查詢參數
+const STATE_PARAMS = [
+  'topic',
+  'search',
+  'category',
+  'sort',
+  'order',
+  'bookmarked',
+  'page',
+];
+
+/**
+ * 從網址讀取搜索狀態
+ * @returns 網址沒有保存搜索狀態（沒有 topic 參數）時返回 null
+ */
+export function readSearchState(): SearchState | null {
+  const params = new URLSearchParams(window.location.search);
+  const topic = params.get('topic');
+  if (!topic) return null;
+
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+
+  return {
+    topic: `/${topic.replace(/^\/+/, '')}`,
+    search: (params.get('search') || '').trim(),
+    category: params.get('category') || '',
+    sort: isSortField(sort) ? sort : '',
+    order: params.get('order') === 'desc' ? 'desc' : 'asc',
+    bookmarked: params.get('bookmarked') === '1',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+/**
+ * 將搜索狀態寫入當前網址（取代當前歷史記錄，省略預設值）
+ */
+export function writeSearchState(state: SearchState): void {
+  const params = new URLSearchParams(window.location.search);
+  STATE_PARAMS.forEach((name) => params.delete(name));
+
+  // 主題總是寫入：網址中有 topic 參數代表保存了搜索狀態
+  params.set('topic', state.topic.replace(/^\/+/, ''));
+  if (state.search) params.set('search', state.search);
+  if (state.category) params.set('category', state.category);
+  if (state.sort) {
+    params.set('sort', state.sort);
+    if (state.order === 'desc') params.set('order', 'desc');
+  }
+  if (state.bookmarked) params.set('bookmarked', '1');
+  if (state.page > 1) params.set('page', String(state.page));
+
+  const query = params.toString();
+  const url = `${window.location.pathname}?${query}${window.location.hash}`;
+  if (
+    url !==
+    `${window.location.pathname}${window.location.search}${window.location.hash}`
+  ) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
@@ -5,6 +5,38 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as OpenCC from 'opencc-js';
+import { localAttractions } from './data';
+import {
+  ApiAttraction,
+  AppConfig,
+  CatalogueFacetsResponse,
+  CatalogueResponse,
+  ChartDataResponse,
+  ResourceBatchResponse,
+  ZhConvertBatchRequest,
+  ZhConvertBatchResponse,
+  ZhConvertResponse,
+} from './types';
+import { DEFAULT_CONFIG, CONFIG_ENDPOINT, mergeConfig } from './config';
+import { findTopicByEndpoint } from './topics';
+import {
+  CATALOGUE_ENDPOINT,
+  CatalogueQueryError,
+  CatalogueSearchOptions,
+  catalogueFacets,
+  catalogueSearchText,
+  parseCatalogueQuery,
+  queryCatalogue,
+} from './catalogue';
+import {
+  ConvertMode,
+  CONVERT_MODES,
+  ZHCONVERT_ENDPOINT,
+  ZHCONVERT_MAX_TEXTS,
+} from './zhconvert';
 
 // 使用 process.cwd() 獲取當前工作目錄
 const __dirname = process.cwd();
@@ -12,12 +44,59 @@ const __dirname = process.cwd();
 const app = express();
 const PORT = process.env.PORT || 8080;
 
+// 執行時配置（由環境變數覆蓋預設值），例如：
+// API_BASE_URL=/mock/api API_RESOURCE_ENDPOINT=/attractions API_PAGE_LIMIT=20 npm start
+const appConfig: AppConfig = mergeConfig(DEFAULT_CONFIG, {
+  apiBaseUrl: process.env.API_BASE_URL,
+  resourceEndpoint: process.env.API_RESOURCE_ENDPOINT,
+  pageLimit: process.env.API_PAGE_LIMIT,
+  previewLimit: process.env.API_PREVIEW_LIMIT,
+  validationMode: process.env.API_VALIDATION_MODE,
+  cacheTtl: process.env.API_CACHE_TTL,
+  cachePersistent: process.env.API_CACHE_PERSISTENT,
+  zhConvertBackend: process.env.ZH_CONVERT_BACKEND,
+  devTools: process.env.DEV_TOOLS,
+});
+
+/**
+ * 獲取服務器端請求用的 API 地址（相對路徑指向本服務器，如 /mock/api）
+ */
+function getServerApiBaseUrl(): string {
+  return /^https?:\/\//.test(appConfig.apiBaseUrl)
+    ? appConfig.apiBaseUrl
+    : `http://localhost:${PORT}${appConfig.apiBaseUrl}`;
+}
+
+// Service Worker（編譯自 src/sw.ts）
+// 必須從根路徑提供才能控制整個網站；禁止 HTTP 緩存，確保瀏覽器能檢查到新版本
+app.get('/sw.js', (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'no-cache');
+  res.set('Service-Worker-Allowed', '/');
+  res.sendFile(path.join(__dirname, 'dist/sw.js'));
+});
+
 // 設置靜態文件目錄（public 資料夾）
 app.use(express.static(path.join(__dirname, 'public')));
 
 // 設置 dist 資料夾為靜態文件目錄（用於編譯後的 JS）
 app.use('/dist', express.static(path.join(__dirname, 'dist')));
 
+// OpenCC 繁簡對照表（客戶端按需載入，見 zhconvert.ts）
+app.use(
+  '/vendor/opencc-js',
+  express.static(path.join(__dirname, 'node_modules/opencc-js/dist/umd'))
+);
+
+// 拼音及粵拼字典（客戶端搜索時按需載入，見 search-index.ts）
+app.use(
+  '/vendor/pinyin-pro',
+  express.static(path.join(__dirname, 'node_modules/pinyin-pro/dist'))
+);
+app.use(
+  '/vendor/to-jyutping',
+  express.static(path.join(__dirname, 'node_modules/to-jyutping/dist'))
+);
+
 // 設置 CORS（允許跨域請求，方便開發）
 app.use((_req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
@@ -47,6 +126,277 @@ app.get('/health', (_req: Request, res: Response) => {
   });
 });
 
+// 客戶端配置文件（供 config.ts 的 loadConfig 讀取）
+app.get(CONFIG_ENDPOINT, (_req: Request, res: Response) => {
+  res.json(appConfig);
+});
+
+// ==================== 本地模擬 API ====================
+// 模擬課程 API（https://dae-mobile-assignment.hkit.cc/api），供離線開發及測試使用
+// 回應格式與錯誤碼與正式 API 保持一致，資料來源為 data.ts 的 localAttractions
+
+const MOCK_API_PREFIX = '/mock/api';
+
+// 隨機失敗率（0-1），用於測試前端的重試機制，例如 MOCK_API_FAILURE_RATE=0.3
+const MOCK_FAILURE_RATE = Number(process.env.MOCK_API_FAILURE_RATE) || 0;
+
+/**
+ * 根據景點名稱和特色推斷分類（本地資料沒有分類欄位）
+ */
+function inferMockCategory(name: string, feature: string): string {
+  const text = name + feature;
+  if (/樂園|主題公園|海洋公園/.test(text)) return '主題樂園';
+  if (/故宮|長城|兵馬俑|布達拉宮|頤和園|園林|古城|古蹟/.test(text)) {
+    return '歷史古蹟';
+  }
+  if (/塔|上海灘|山頂/.test(name)) return '城市地標';
+  return '自然風光';
+}
+
+/**
+ * 將本地景點資料轉換為 API 格式（蛇形命名）
+ */
+const mockAttractions: ApiAttraction[] = localAttractions.map((item, index) => {
+  const timestamp = new Date(Date.UTC(2024, 0, index + 1)).toISOString();
+  return {
+    id: index + 1,
+    title: item.name,
+    description: item.feature,
+    category: inferMockCategory(item.name, item.feature),
+    image_url: '/' + item.image,
+    video_url: item.video,
+    opening_hours: item.openTime,
+    address: item.area,
+    city: item.area,
+    country: '中國',
+    tags: [item.area],
+    facilities: [],
+    published_at: timestamp,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+});
+
+// 模擬使用者資料（僅存於記憶體，重啟後清空）
+const mockUsers = new Map<string, { id: number; password: string }>();
+const mockTokens = new Map<string, number>(); // token → user_id
+const mockBookmarks = new Map<number, Set<number>>(); // user_id → item_ids
+let nextMockUserId = 1;
+
+/**
+ * 發送錯誤回應（格式與正式 API 一致：{ error: string }）
+ */
+function sendMockError(res: Response, status: number, error: string): void {
+  res.status(status).json({ error });
+}
+
+/**
+ * 解析正整數查詢參數，無效時返回 null
+ */
+function parsePositiveInt(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback;
+  const num = Number(value);
+  return Number.isInteger(num) && num > 0 ? num : null;
+}
+
+/**
+ * 從 Authorization 標頭取得使用者 ID
+ */
+function getMockUserId(req: Request): number | null {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  return mockTokens.get(token) ?? null;
+}
+
+/**
+ * 簽發新的 token
+ */
+function issueMockToken(userId: number): string {
+  const token = crypto.randomBytes(24).toString('hex');
+  mockTokens.set(token, userId);
+  return token;
+}
+
+const mockApi = express.Router();
+
+// 模擬正式 API 的隨機錯誤（前端以 'testing purposes' 判斷為可重試錯誤）
+mockApi.use((_req: Request, res: Response, next: NextFunction) => {
+  if (MOCK_FAILURE_RATE > 0 && Math.random() < MOCK_FAILURE_RATE) {
+    sendMockError(res, 500, 'Random server error for testing purposes');
+    return;
+  }
+  next();
+});
+
+// 清單資料：GET /attractions
+mockApi.get('/attractions', (req: Request, res: Response) => {
+  const page = parsePositiveInt(req.query.page, 1);
+  const limit = parsePositiveInt(req.query.limit, 3);
+
+  if (page === null) {
+    return sendMockError(res, 400, 'Invalid page, expect positive integer');
+  }
+  if (limit === null) {
+    return sendMockError(res, 400, 'Invalid limit, expect positive integer');
+  }
+
+  const search = String(req.query.search || '')
+    .trim()
+    .toLowerCase();
+  const category = String(req.query.category || '');
+  const sort = req.query.sort ? String(req.query.sort) : '';
+  const order = req.query.order ? String(req.query.order) : 'asc';
+
+  if (sort && !(sort in mockAttractions[0])) {
+    return sendMockError(res, 400, `Invalid sort field: ${sort}`);
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    return sendMockError(res, 400, 'Invalid order, expect "asc" or "desc"');
+  }
+
+  let result = mockAttractions.filter((item) => {
+    if (category && item.category !== category) return false;
+    if (!search) return true;
+    return [item.title, item.description, item.category, item.city]
+      .join(' ')
+      .toLowerCase()
+      .includes(search);
+  });
+
+  if (sort) {
+    const key = sort as keyof ApiAttraction;
+    const direction = order === 'desc' ? -1 : 1;
+    result = [...result].sort((a, b) => {
+      const av = a[key] ?? '';
+      const bv = b[key] ?? '';
+      if (typeof av === 'number' && typeof bv === 'number') {
+        return (av - bv) * direction;
+      }
+      return String(av).localeCompare(String(bv), 'zh-Hant') * direction;
+    });
+  }
+
+  const start = (page - 1) * limit;
+  res.json({
+    items: result.slice(start, start + limit),
+    pagination: { page, limit, total: result.length },
+  });
+});
+
+// 註冊：POST /auth/signup
+mockApi.post('/auth/signup', (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return sendMockError(res, 400, 'Missing username or password');
+  }
+  if (mockUsers.has(username)) {
+    return sendMockError(res, 400, 'This username is already registered');
+  }
+
+  const userId = nextMockUserId++;
+  mockUsers.set(username, { id: userId, password });
+  res.json({ user_id: userId, token: issueMockToken(userId) });
+});
+
+// 登入：POST /auth/login
+mockApi.post('/auth/login', (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return sendMockError(res, 400, 'Missing username or password');
+  }
+
+  const user = mockUsers.get(username);
+  if (!user) {
+    return sendMockError(res, 404, 'User not found');
+  }
+  if (user.password !== password) {
+    return sendMockError(res, 403, 'Invalid credentials');
+  }
+
+  res.json({ user_id: user.id, token: issueMockToken(user.id) });
+});
+
+// 檢查登入狀態：GET /auth/check
+mockApi.get('/auth/check', (req: Request, res: Response) => {
+  const userId = getMockUserId(req);
+  if (req.headers.authorization && userId === null) {
+    return sendMockError(res, 401, 'Unauthorized: invalid token');
+  }
+
+  res.json({ user_id: userId });
+});
+
+// 收藏功能：需要登入
+mockApi.use('/bookmarks', (req: Request, res: Response, next: NextFunction) => {
+  if (getMockUserId(req) === null) {
+    return sendMockError(res, 401, 'Unauthorized: missing or invalid token');
+  }
+  next();
+});
+
+// 收藏列表：GET /bookmarks
+mockApi.get('/bookmarks', (req: Request, res: Response) => {
+  const userId = getMockUserId(req)!;
+  res.json({ item_ids: Array.from(mockBookmarks.get(userId) || []) });
+});
+
+/**
+ * 驗證收藏項目 ID，無效時發送錯誤回應並返回 null
+ */
+function resolveMockItemId(req: Request, res: Response): number | null {
+  const itemId = parsePositiveInt(req.params.itemId, 0);
+  if (!itemId) {
+    sendMockError(res, 400, 'Invalid item_id, expect positive integer');
+    return null;
+  }
+  if (!mockAttractions.some((item) => item.id === itemId)) {
+    sendMockError(res, 404, `Item not found: ${itemId}`);
+    return null;
+  }
+  return itemId;
+}
+
+// 收藏：POST /bookmarks/:itemId
+mockApi.post('/bookmarks/:itemId', (req: Request, res: Response) => {
+  const itemId = resolveMockItemId(req, res);
+  if (itemId === null) return;
+
+  const userId = getMockUserId(req)!;
+  const bookmarks = mockBookmarks.get(userId) || new Set<number>();
+  mockBookmarks.set(userId, bookmarks);
+
+  const alreadyBookmarked = bookmarks.has(itemId);
+  bookmarks.add(itemId);
+  res.json({
+    message: alreadyBookmarked ? 'already bookmarked' : 'newly bookmarked',
+  });
+});
+
+// 取消收藏：DELETE /bookmarks/:itemId
+mockApi.delete('/bookmarks/:itemId', (req: Request, res: Response) => {
+  const itemId = resolveMockItemId(req, res);
+  if (itemId === null) return;
+
+  const bookmarks = mockBookmarks.get(getMockUserId(req)!);
+  const deleted = bookmarks ? bookmarks.delete(itemId) : false;
+  res.json({ message: deleted ? 'newly deleted' : 'already deleted' });
+});
+
+// 未知端點
+mockApi.use((req: Request, res: Response) => {
+  sendMockError(res, 404, `Not found: ${req.method} ${req.path}`);
+});
+
+// 伺服器錯誤（格式與正式 API 一致）
+mockApi.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  console.error('Mock API Error:', err);
+  sendMockError(res, 500, err.message || 'Internal Server Error');
+});
+
+app.use(MOCK_API_PREFIX, mockApi);
+
 /**
  * 延遲函數（用於重試）
  */
@@ -89,112 +439,496 @@ async function fetchWithRetry(url: string, maxRetries = 3): Promise<any> {
   throw lastError;
 }
 
-// 圖表數據API端點（用於餅狀圖）
-app.get('/api/chart-data', async (_req: Request, res: Response) => {
-  try {
-    console.log('📊 正在獲取圖表數據...');
-
-    const API_BASE_URL = 'https://dae-mobile-assignment.hkit.cc/api';
-    const RESOURCE_ENDPOINT = '/attractions';
-
-    // 獲取所有數據（不限制搜索，獲取足夠多的數據來統計分類）
-    // 持續請求直到連續3次沒有新數據
-    const allItems: any[] = [];
-    const seenIds = new Set<number>(); // 用於檢測重複數據
-    let currentPage = 1;
-    let consecutiveNoNewData = 0; // 連續沒有新數據的次數
-    const maxConsecutiveNoData = 3; // 連續3次沒有新數據就停止
-    const limit = 20; // 每頁最多20個
-    const maxPages = 50; // 最大頁數限制，避免無限循環
-
-    while (
-      consecutiveNoNewData < maxConsecutiveNoData &&
-      currentPage <= maxPages
-    ) {
-      const url = `${API_BASE_URL}${RESOURCE_ENDPOINT}?page=${currentPage}&limit=${limit}`;
-      console.log(`  📄 請求第 ${currentPage} 頁...`);
-
-      try {
-        // 使用帶重試的請求
-        const data = await fetchWithRetry(url, 3);
-
-        if (data.items && data.items.length > 0) {
-          // 過濾重複的數據
-          let newItemsCount = 0;
-          data.items.forEach((item: any) => {
-            if (item.id && !seenIds.has(item.id)) {
-              seenIds.add(item.id);
-              allItems.push(item);
-              newItemsCount++;
-            }
-          });
+// ==================== 上游目錄索引 ====================
+// 爬取整個上游目錄（最多 50 頁）並按 ID 建立索引，保存於記憶體及磁碟（CATALOGUE_FILE，重啟後仍可使用）：
+// - 圖表數據由索引統計各分類的數量
+// - GET /api/attractions/batch 按 ID 批量查詢（例如載入所有收藏項目）
+// - GET /api/catalogue 全文搜索、按任意欄位篩選及排序（見 catalogue.ts）
+// 索引由圖表數據的背景更新器定期刷新
 
-          console.log(
-            `    ✅ 獲取 ${data.items.length} 個項目，新增 ${newItemsCount} 個不重複項目（總計: ${allItems.length}）`
-          );
+const CATALOGUE_FILE = path.resolve(
+  __dirname,
+  process.env.CATALOGUE_FILE || '.cache/catalogue.json'
+);
+
+// 找不到查詢的 ID 時，索引超過此時間（秒）才重新爬取，避免無效 ID 反覆觸發爬取
+const CATALOGUE_RECRAWL_INTERVAL =
+  (Number(process.env.CATALOGUE_RECRAWL_INTERVAL) || 60) * 1000;
+
+// 批量查詢每次最多的 ID 數量
+const BATCH_MAX_IDS = 1000;
+
+/**
+ * 上游目錄索引
+ */
+interface CatalogueEntry {
+  items: Map<number, ApiAttraction>; // id → 項目（按上游順序）
+  searchText: Map<number, string>; // id → 簡體化的全文搜索文字
+  fetchedAt: number; // 最後從上游獲取的時間戳（毫秒）
+}
+
+const catalogues = new Map<string, CatalogueEntry>(); // resource → 索引
+const catalogueRefreshing = new Map<string, Promise<CatalogueEntry>>(); // 進行中的爬取
+let catalogueSaveTimer: NodeJS.Timeout | null = null;
+
+// 全文搜索繁簡通用：文字與搜索詞都轉為簡體（規則與客戶端 zhconvert.ts 的 China 模式一致）
+const fromTaiwan = OpenCC.Converter({ from: 'twp', to: 'cn' });
+const fromHongkong = OpenCC.Converter({ from: 'hk', to: 'cn' });
+const normalizeSearchText = (text: string) =>
+  fromHongkong(fromTaiwan(text)).toLowerCase();
+
+/**
+ * 爬取整個上游目錄
+ */
+async function crawlCatalogue(resource: string): Promise<ApiAttraction[]> {
+  console.log(`📚 正在爬取上游目錄（${resource}）...`);
 
-          // 如果這一頁沒有新數據，增加計數器
-          if (newItemsCount === 0) {
-            consecutiveNoNewData++;
-            console.log(
-              `    ⚠️ 沒有新數據 (連續 ${consecutiveNoNewData}/${maxConsecutiveNoData} 次)`
-            );
-          } else {
-            // 有新數據，重置計數器
-            consecutiveNoNewData = 0;
+  const apiBaseUrl = getServerApiBaseUrl();
+
+  // 持續請求直到連續3次沒有新數據
+  const allItems: ApiAttraction[] = [];
+  const seenIds = new Set<number>(); // 用於檢測重複數據
+  let currentPage = 1;
+  let consecutiveNoNewData = 0; // 連續沒有新數據的次數
+  const maxConsecutiveNoData = 3; // 連續3次沒有新數據就停止
+  const limit = appConfig.pageLimit; // 每頁數量（由配置決定）
+  const maxPages = 50; // 最大頁數限制，避免無限循環
+
+  while (
+    consecutiveNoNewData < maxConsecutiveNoData &&
+    currentPage <= maxPages
+  ) {
+    const url = `${apiBaseUrl}${resource}?page=${currentPage}&limit=${limit}`;
+    console.log(`  📄 請求第 ${currentPage} 頁...`);
+
+    try {
+      // 使用帶重試的請求
+      const data = await fetchWithRetry(url, 3);
+
+      if (data.items && data.items.length > 0) {
+        // 過濾重複的數據
+        let newItemsCount = 0;
+        data.items.forEach((item: ApiAttraction) => {
+          if (item.id && !seenIds.has(item.id)) {
+            seenIds.add(item.id);
+            allItems.push(item);
+            newItemsCount++;
           }
+        });
 
-          currentPage++;
-        } else {
-          // 返回空數據，增加計數器
-          console.log('    返回空數據');
-          consecutiveNoNewData++;
-          currentPage++;
-        }
-      } catch (error) {
-        console.error(`  ❌ 第 ${currentPage} 頁請求失敗:`, error);
+        console.log(
+          `    ✅ 獲取 ${data.items.length} 個項目，新增 ${newItemsCount} 個不重複項目（總計: ${allItems.length}）`
+        );
 
-        // 如果前3頁都失敗且沒有數據，拋出錯誤
-        if (currentPage <= 3 && allItems.length === 0) {
-          throw error;
+        // 如果這一頁沒有新數據，增加計數器
+        if (newItemsCount === 0) {
+          consecutiveNoNewData++;
+          console.log(
+            `    ⚠️ 沒有新數據 (連續 ${consecutiveNoNewData}/${maxConsecutiveNoData} 次)`
+          );
+        } else {
+          // 有新數據，重置計數器
+          consecutiveNoNewData = 0;
         }
 
-        // 否則嘗試下一頁
+        currentPage++;
+      } else {
+        // 返回空數據，增加計數器
+        console.log('    返回空數據');
         consecutiveNoNewData++;
         currentPage++;
       }
+    } catch (error) {
+      console.error(`  ❌ 第 ${currentPage} 頁請求失敗:`, error);
+
+      // 如果前3頁都失敗且沒有數據，拋出錯誤
+      if (currentPage <= 3 && allItems.length === 0) {
+        throw error;
+      }
+
+      // 否則嘗試下一頁
+      consecutiveNoNewData++;
+      currentPage++;
     }
+  }
 
-    if (consecutiveNoNewData >= maxConsecutiveNoData) {
-      console.log(`  ✅ 連續 ${maxConsecutiveNoData} 次沒有新數據，停止請求`);
+  if (consecutiveNoNewData >= maxConsecutiveNoData) {
+    console.log(`  ✅ 連續 ${maxConsecutiveNoData} 次沒有新數據，停止請求`);
+  }
+  if (currentPage > maxPages) {
+    console.log(`  ⚠️ 達到最大頁數限制 (${maxPages} 頁)`);
+  }
+
+  console.log(`✅ 成功獲取 ${allItems.length} 個項目數據`);
+  return allItems;
+}
+
+/**
+ * 建立目錄索引（預先計算全文搜索文字）
+ */
+function createCatalogueEntry(
+  allItems: ApiAttraction[],
+  fetchedAt: number
+): CatalogueEntry {
+  return {
+    items: new Map(allItems.map((item) => [item.id, item])),
+    searchText: new Map(
+      allItems.map((item) => [
+        item.id,
+        normalizeSearchText(catalogueSearchText(item)),
+      ])
+    ),
+    fetchedAt,
+  };
+}
+
+/**
+ * 從磁碟載入目錄索引
+ */
+async function loadCatalogues(): Promise<void> {
+  try {
+    const content = await fs.readFile(CATALOGUE_FILE, 'utf8');
+    const saved: Record<string, { fetchedAt: number; items: ApiAttraction[] }> =
+      JSON.parse(content);
+
+    Object.entries(saved).forEach(([resource, { fetchedAt, items }]) => {
+      // 啟動後已爬取到較新的索引時不覆蓋
+      if (!catalogues.has(resource) && findTopicByEndpoint(resource)) {
+        catalogues.set(resource, createCatalogueEntry(items, fetchedAt));
+      }
+    });
+    console.log(`📦 已載入 ${catalogues.size} 個主題的目錄索引`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('⚠️ 讀取目錄索引失敗:', error);
     }
-    if (currentPage > maxPages) {
-      console.log(`  ⚠️ 達到最大頁數限制 (${maxPages} 頁)`);
+  }
+}
+
+/**
+ * 將目錄索引寫入磁碟（合併短時間內的多次寫入；先寫臨時文件再改名，避免寫入中斷損壞索引）
+ */
+function scheduleCatalogueSave(): void {
+  if (catalogueSaveTimer) return;
+
+  catalogueSaveTimer = setTimeout(async () => {
+    catalogueSaveTimer = null;
+    const saved: Record<string, { fetchedAt: number; items: ApiAttraction[] }> =
+      {};
+    catalogues.forEach((entry, resource) => {
+      saved[resource] = {
+        fetchedAt: entry.fetchedAt,
+        items: Array.from(entry.items.values()),
+      };
+    });
+
+    const tempFile = `${CATALOGUE_FILE}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(CATALOGUE_FILE), { recursive: true });
+      await fs.writeFile(tempFile, JSON.stringify(saved));
+      await fs.rename(tempFile, CATALOGUE_FILE);
+    } catch (error) {
+      console.error('❌ 保存目錄索引失敗:', error);
     }
+  }, 1000);
+}
 
-    console.log(`✅ 成功獲取 ${allItems.length} 個景點數據`);
+/**
+ * 重新爬取指定主題的目錄索引（同一主題同時只會有一個爬取請求）
+ */
+function refreshCatalogue(resource: string): Promise<CatalogueEntry> {
+  const pending = catalogueRefreshing.get(resource);
+  if (pending) return pending;
 
-    // 統計各分類的數量
-    const categoryCount: { [key: string]: number } = {};
+  const refresh = crawlCatalogue(resource)
+    .then((allItems) => {
+      const entry = createCatalogueEntry(allItems, Date.now());
+      catalogues.set(resource, entry);
+      scheduleCatalogueSave();
+      return entry;
+    })
+    .finally(() => {
+      catalogueRefreshing.delete(resource);
+    });
 
-    allItems.forEach((item) => {
-      const category = item.category || '未分類';
-      categoryCount[category] = (categoryCount[category] || 0) + 1;
+  catalogueRefreshing.set(resource, refresh);
+  return refresh;
+}
+
+/**
+ * 獲取目錄索引（未建立時等待爬取；超過 CHART_CACHE_TTL 時在背景更新）
+ */
+async function getCatalogue(resource: string): Promise<CatalogueEntry> {
+  const cached = catalogues.get(resource);
+  if (!cached) return refreshCatalogue(resource);
+
+  if (Date.now() - cached.fetchedAt >= CHART_CACHE_TTL) {
+    refreshCatalogue(resource).catch((error) => {
+      console.error(`❌ 背景更新目錄索引失敗（${resource}）:`, error);
     });
+  }
+  return cached;
+}
 
-    // 轉換為圖表所需的格式
-    const categories = Object.keys(categoryCount);
-    const chartData = {
-      labels: categories,
-      data: Object.values(categoryCount),
-      total: allItems.length,
-      categories: categories, // 新增：分類列表供前端下拉選單使用
-    };
-    
-    console.log('📊 分類統計:', categoryCount);
-    console.log('📋 可用分類:', categories);
-    
-    res.json(chartData);
+/**
+ * 目錄索引的全文搜索選項（使用預先計算的簡體化搜索文字）
+ */
+function searchOptions(
+  catalogue: CatalogueEntry
+): CatalogueSearchOptions<ApiAttraction> {
+  return {
+    searchText: (item) => catalogue.searchText.get(item.id) || '',
+    normalize: normalizeSearchText,
+  };
+}
+
+/**
+ * 解析以逗號分隔的 ID 列表（去除重複並保持順序），格式無效時返回 null
+ */
+function parseIdList(value: unknown): number[] | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const ids = value.split(',').map((part) => Number(part.trim()));
+  if (!ids.every((id) => Number.isInteger(id) && id > 0)) return null;
+
+  return Array.from(new Set(ids));
+}
+
+/**
+ * 在目錄索引中按 ID 查找項目
+ * 找不到的 ID 可能是索引建立後才新增的項目：索引已建立超過 CATALOGUE_RECRAWL_INTERVAL 時等待重新爬取一次；
+ * 已從上游刪除的項目（如舊的收藏）重新爬取後仍找不到，之後的請求在間隔內直接使用當前的索引
+ * @returns 找到的項目（按 ID 順序）及找不到的 ID
+ */
+async function findInCatalogue(
+  resource: string,
+  ids: number[]
+): Promise<ResourceBatchResponse<ApiAttraction>> {
+  let catalogue = await getCatalogue(resource);
+
+  if (
+    ids.some((id) => !catalogue.items.has(id)) &&
+    Date.now() - catalogue.fetchedAt >= CATALOGUE_RECRAWL_INTERVAL
+  ) {
+    console.log(`🔄 有 ID 不在目錄索引中，重新爬取（${resource}）`);
+    try {
+      catalogue = await refreshCatalogue(resource);
+    } catch (error) {
+      console.error(
+        `❌ 重新爬取目錄索引失敗，使用現有索引（${resource}）:`,
+        error
+      );
+    }
+  }
+
+  const items: ApiAttraction[] = [];
+  const missing: number[] = [];
+  ids.forEach((id) => {
+    const item = catalogue.items.get(id);
+    if (item) {
+      items.push(item);
+    } else {
+      missing.push(id);
+    }
+  });
+
+  return { items, missing };
+}
+
+// ==================== 圖表數據緩存 ====================
+// 統計分類需要爬取整個上游目錄，因此結果緩存於記憶體：
+// - 新鮮期（CHART_CACHE_TTL）內直接返回緩存
+// - 過期但仍在 CHART_STALE_TTL 內：先返回舊數據，同時在背景更新（stale-while-revalidate）
+// - 背景更新器每 CHART_REFRESH_INTERVAL 主動刷新已緩存的主題
+// 時間單位均為秒
+
+const CHART_CACHE_TTL = (Number(process.env.CHART_CACHE_TTL) || 600) * 1000;
+const CHART_STALE_TTL = (Number(process.env.CHART_STALE_TTL) || 3600) * 1000;
+const CHART_REFRESH_INTERVAL =
+  (Number(process.env.CHART_REFRESH_INTERVAL) || 600) * 1000;
+
+// 管理端點的 token（未設置時停用管理端點）
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+/**
+ * 圖表數據緩存項目
+ */
+interface ChartCacheEntry {
+  data: ChartDataResponse;
+  etag: string;
+  lastModified: number; // 數據最後變化的時間戳（毫秒）
+  fetchedAt: number; // 最後從上游獲取的時間戳（毫秒），用於判斷新鮮度
+}
+
+const chartCache = new Map<string, ChartCacheEntry>(); // resource → 緩存
+const chartRefreshing = new Map<string, Promise<ChartCacheEntry>>(); // 進行中的更新
+
+/**
+ * 爬取上游目錄並統計各分類的數量
+ */
+async function crawlCategoryCounts(
+  resource: string
+): Promise<ChartDataResponse> {
+  console.log(`📊 正在獲取圖表數據（${resource}）...`);
+
+  const allItems = Array.from(
+    (await refreshCatalogue(resource)).items.values()
+  );
+
+  // 統計各分類的數量
+  const categoryCount: { [key: string]: number } = {};
+
+  allItems.forEach((item) => {
+    const category = item.category || '未分類';
+    categoryCount[category] = (categoryCount[category] || 0) + 1;
+  });
+
+  // 轉換為圖表所需的格式
+  const categories = Object.keys(categoryCount);
+  const chartData: ChartDataResponse = {
+    labels: categories,
+    data: Object.values(categoryCount),
+    total: allItems.length,
+    categories: categories, // 新增：分類列表供前端下拉選單使用
+  };
+
+  console.log('📊 分類統計:', categoryCount);
+  console.log('📋 可用分類:', categories);
+
+  return chartData;
+}
+
+/**
+ * 更新指定主題的圖表數據緩存（同一主題同時只會有一個更新請求）
+ */
+function refreshChartData(resource: string): Promise<ChartCacheEntry> {
+  const pending = chartRefreshing.get(resource);
+  if (pending) return pending;
+
+  const refresh = crawlCategoryCounts(resource)
+    .then((data) => {
+      const entry: ChartCacheEntry = {
+        data,
+        etag: `"${crypto
+          .createHash('sha1')
+          .update(JSON.stringify(data))
+          .digest('hex')}"`,
+        lastModified: Date.now(),
+        fetchedAt: Date.now(),
+      };
+
+      // 數據沒有變化時只更新獲取時間，讓 Last-Modified 保持準確
+      const previous = chartCache.get(resource);
+      if (previous && previous.etag === entry.etag) {
+        previous.fetchedAt = entry.fetchedAt;
+        return previous;
+      }
+
+      chartCache.set(resource, entry);
+      return entry;
+    })
+    .finally(() => {
+      chartRefreshing.delete(resource);
+    });
+
+  chartRefreshing.set(resource, refresh);
+  return refresh;
+}
+
+/**
+ * 獲取圖表數據（按緩存策略決定是否需要更新）
+ * @returns 緩存項目及緩存狀態（HIT / STALE / MISS）
+ */
+async function getChartData(
+  resource: string
+): Promise<{ entry: ChartCacheEntry; status: 'HIT' | 'STALE' | 'MISS' }> {
+  const cached = chartCache.get(resource);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+  if (cached && age < CHART_CACHE_TTL) {
+    return { entry: cached, status: 'HIT' };
+  }
+
+  if (cached && age < CHART_STALE_TTL) {
+    // 先返回舊數據，背景更新失敗時保留舊緩存
+    refreshChartData(resource).catch((error) => {
+      console.error(`❌ 背景更新圖表數據失敗（${resource}）:`, error);
+    });
+    return { entry: cached, status: 'STALE' };
+  }
+
+  try {
+    return { entry: await refreshChartData(resource), status: 'MISS' };
+  } catch (error) {
+    // 上游失敗時，即使緩存已超過 stale 期限也比沒有數據好
+    if (cached) {
+      console.warn(`⚠️ 更新失敗，返回過期的圖表數據（${resource}）`);
+      return { entry: cached, status: 'STALE' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 背景更新器：定期刷新所有已緩存的主題（以及預設主題）
+ */
+function startChartRefresher(): void {
+  const refreshAll = () => {
+    const resources = new Set([
+      appConfig.resourceEndpoint,
+      ...chartCache.keys(),
+      ...catalogues.keys(),
+    ]);
+    resources.forEach((resource) => {
+      refreshChartData(resource).catch((error) => {
+        console.error(`❌ 定期更新圖表數據失敗（${resource}）:`, error);
+      });
+    });
+  };
+
+  refreshAll(); // 啟動時預熱預設主題
+  setInterval(refreshAll, CHART_REFRESH_INTERVAL).unref();
+}
+
+/**
+ * 從查詢參數解析主題資源，無效時發送 400 並返回 null
+ */
+function resolveTopicResource(req: Request, res: Response): string | null {
+  const resource = String(req.query.resource || appConfig.resourceEndpoint);
+
+  if (!findTopicByEndpoint(resource)) {
+    res.status(400).json({
+      error: 'Invalid resource',
+      message: `未知的主題資源: ${resource}`,
+    });
+    return null;
+  }
+
+  return resource;
+}
+
+// 圖表數據API端點（用於餅狀圖），可通過 ?resource=/courses 指定主題
+// 支援 If-None-Match / If-Modified-Since 條件請求，數據未變化時返回 304
+app.get('/api/chart-data', async (req: Request, res: Response) => {
+  const resource = resolveTopicResource(req, res);
+  if (!resource) return;
+
+  try {
+    const { entry, status } = await getChartData(resource);
+
+    res.set({
+      ETag: entry.etag,
+      'Last-Modified': new Date(entry.lastModified).toUTCString(),
+      'Cache-Control': 'no-cache', // 每次都需向服務器驗證
+      'X-Cache': status,
+    });
+
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    res.json(entry.data);
   } catch (error) {
     console.error('❌ 獲取圖表數據失敗:', error);
     res.status(500).json({
@@ -204,6 +938,472 @@ app.get('/api/chart-data', async (_req: Request, res: Response) => {
   }
 });
 
+// 管理端點：強制刷新圖表數據緩存
+// 需要 Authorization: Bearer <ADMIN_TOKEN>；未設置 ADMIN_TOKEN 時停用
+// （全域 CORS 允許任何網頁發送跨域 POST，不能只憑本機地址判斷）
+app.post(
+  '/api/admin/chart-data/refresh',
+  async (req: Request, res: Response) => {
+    if (!ADMIN_TOKEN) {
+      res.status(404).json({ error: 'Not Found' });
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${ADMIN_TOKEN}`) {
+      res.status(403).json({ error: 'Forbidden' });
+      return;
+    }
+
+    const resource = resolveTopicResource(req, res);
+    if (!resource) return;
+
+    try {
+      const entry = await refreshChartData(resource);
+      res.json({
+        resource,
+        etag: entry.etag,
+        lastModified: new Date(entry.lastModified).toUTCString(),
+        total: entry.data.total,
+      });
+    } catch (error) {
+      console.error('❌ 強制刷新圖表數據失敗:', error);
+      res.status(500).json({
+        error: 'Failed to refresh chart data',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+// 按 ID 批量查詢：GET /api/attractions/batch?ids=3,1,2（可通過 ?resource=/courses 指定主題）
+// 返回 { items, missing }，items 按請求的 ID 順序排列，missing 為上游目錄中找不到的 ID
+app.get('/api/attractions/batch', async (req: Request, res: Response) => {
+  const resource = resolveTopicResource(req, res);
+  if (!resource) return;
+
+  const ids = parseIdList(req.query.ids);
+  if (!ids) {
+    res.status(400).json({
+      error: 'Invalid ids',
+      message: 'ids 必須是以逗號分隔的正整數',
+    });
+    return;
+  }
+  if (ids.length > BATCH_MAX_IDS) {
+    res.status(400).json({
+      error: 'Too many ids',
+      message: `每次最多查詢 ${BATCH_MAX_IDS} 個 ID`,
+    });
+    return;
+  }
+
+  try {
+    const body = await findInCatalogue(resource, ids);
+    res.set('Cache-Control', 'no-cache');
+    res.json(body);
+  } catch (error) {
+    console.error('❌ 批量查詢失敗:', error);
+    res.status(500).json({
+      error: 'Failed to fetch items',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// 目錄查詢：GET /api/catalogue?resource=/attractions&search=...&city=北京市&tags=a,b&sort=...&order=...
+// 可按上游 API 不支援的欄位篩選及排序（見 catalogue.ts），回應格式與上游清單相同，另加 updatedAt
+app.get(CATALOGUE_ENDPOINT, async (req: Request, res: Response) => {
+  const resource = resolveTopicResource(req, res);
+  if (!resource) return;
+
+  try {
+    const query = parseCatalogueQuery(req.query);
+    const page = query.page || 1;
+    const limit = query.limit || appConfig.pageLimit;
+
+    const catalogue = await getCatalogue(resource);
+    const result = queryCatalogue(
+      Array.from(catalogue.items.values()),
+      { ...query, page, limit },
+      searchOptions(catalogue)
+    );
+
+    const body: CatalogueResponse<ApiAttraction> = {
+      items: result.items,
+      pagination: { page, limit, total: result.total },
+      updatedAt: new Date(catalogue.fetchedAt).toISOString(),
+    };
+    res.set('Cache-Control', 'no-cache');
+    res.json(body);
+  } catch (error) {
+    if (error instanceof CatalogueQueryError) {
+      res.status(400).json({ error: 'Invalid query', message: error.message });
+      return;
+    }
+    console.error('❌ 目錄查詢失敗:', error);
+    res.status(500).json({
+      error: 'Failed to query catalogue',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// 分面統計：GET /api/catalogue/facets?resource=/attractions&search=...&city=...&match=all
+// 返回城市、國家、標籤及設施各個值在當前條件下的項目數量（見 catalogue.ts 的 catalogueFacets）
+app.get(`${CATALOGUE_ENDPOINT}/facets`, async (req: Request, res: Response) => {
+  const resource = resolveTopicResource(req, res);
+  if (!resource) return;
+
+  try {
+    const query = parseCatalogueQuery(req.query);
+    const catalogue = await getCatalogue(resource);
+
+    const body: CatalogueFacetsResponse = {
+      facets: catalogueFacets(
+        Array.from(catalogue.items.values()),
+        query,
+        searchOptions(catalogue)
+      ),
+      updatedAt: new Date(catalogue.fetchedAt).toISOString(),
+    };
+    res.set('Cache-Control', 'no-cache');
+    res.json(body);
+  } catch (error) {
+    if (error instanceof CatalogueQueryError) {
+      res.status(400).json({ error: 'Invalid query', message: error.message });
+      return;
+    }
+    console.error('❌ 分面統計失敗:', error);
+    res.status(500).json({
+      error: 'Failed to count facets',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// 按 ID 查詢：GET /api/catalogue/12?resource=/attractions
+app.get(`${CATALOGUE_ENDPOINT}/:id`, async (req: Request, res: Response) => {
+  const resource = resolveTopicResource(req, res);
+  if (!resource) return;
+
+  const id = parsePositiveInt(req.params.id, 0);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid id',
+      message: 'id 必須是正整數',
+    });
+    return;
+  }
+
+  try {
+    const { items } = await findInCatalogue(resource, [id]);
+    if (items.length === 0) {
+      res.status(404).json({
+        error: 'Not found',
+        message: `找不到項目: ${id}`,
+      });
+      return;
+    }
+
+    res.set('Cache-Control', 'no-cache');
+    res.json(items[0]);
+  } catch (error) {
+    console.error('❌ 目錄查詢失敗:', error);
+    res.status(500).json({
+      error: 'Failed to query catalogue',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ==================== 繁化姬代理 ====================
+// 客戶端經由 POST /api/zhconvert 批量轉換文字，瀏覽器不直接請求第三方網站：
+// - 未緩存的文字以分隔符合併為一個上游請求，轉換後再拆分
+// - 轉換結果緩存於磁碟（ZHCONVERT_CACHE_FILE），重啟後仍可使用
+// - 按 IP 限制請求頻率（每分鐘 ZHCONVERT_RATE_LIMIT 次）
+
+const ZHCONVERT_API = 'https://api.zhconvert.org/convert';
+const ZHCONVERT_CACHE_FILE = path.resolve(
+  __dirname,
+  process.env.ZHCONVERT_CACHE_FILE || '.cache/zhconvert.json'
+);
+const ZHCONVERT_CACHE_MAX_ENTRIES = 5000;
+const ZHCONVERT_RATE_LIMIT = Number(process.env.ZHCONVERT_RATE_LIMIT) || 30;
+const ZHCONVERT_RATE_WINDOW = 60 * 1000;
+
+// 單個請求的文字總長度上限，以及每個上游請求的長度上限
+const ZHCONVERT_MAX_CHARS = 100000;
+const ZHCONVERT_UPSTREAM_CHARS = 20000;
+
+// 分隔符只包含 ASCII 字元，不會被繁簡轉換改變
+const separator = (index: number) => `\n[[ZHC-${index}]]\n`;
+const SEPARATOR_PATTERN = /\n\[\[ZHC-(\d+)\]\]\n/g;
+
+// 轉換結果緩存：`${converter}\u0000${text}` → 轉換結果（按寫入順序淘汰最舊的項目）
+const zhconvertCache = new Map<string, string>();
+let zhconvertCacheSaveTimer: NodeJS.Timeout | null = null;
+
+// 請求頻率記錄：IP → 當前時間窗口的請求數
+const zhconvertRequests = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * 從磁碟載入轉換緩存
+ */
+async function loadZhconvertCache(): Promise<void> {
+  try {
+    const content = await fs.readFile(ZHCONVERT_CACHE_FILE, 'utf8');
+    const entries: [string, string][] = JSON.parse(content);
+    entries.forEach(([key, value]) => zhconvertCache.set(key, value));
+    console.log(`📦 已載入 ${zhconvertCache.size} 個繁化姬轉換緩存`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('⚠️ 讀取繁化姬轉換緩存失敗:', error);
+    }
+  }
+}
+
+/**
+ * 將轉換緩存寫入磁碟（合併短時間內的多次寫入；先寫臨時文件再改名，避免寫入中斷損壞緩存）
+ */
+function scheduleZhconvertCacheSave(): void {
+  if (zhconvertCacheSaveTimer) return;
+
+  zhconvertCacheSaveTimer = setTimeout(async () => {
+    zhconvertCacheSaveTimer = null;
+    const tempFile = `${ZHCONVERT_CACHE_FILE}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(ZHCONVERT_CACHE_FILE), { recursive: true });
+      await fs.writeFile(
+        tempFile,
+        JSON.stringify(Array.from(zhconvertCache.entries()))
+      );
+      await fs.rename(tempFile, ZHCONVERT_CACHE_FILE);
+    } catch (error) {
+      console.error('❌ 保存繁化姬轉換緩存失敗:', error);
+    }
+  }, 1000);
+}
+
+/**
+ * 寫入轉換緩存
+ */
+function rememberZhconvert(key: string, value: string): void {
+  zhconvertCache.delete(key);
+  zhconvertCache.set(key, value);
+
+  while (zhconvertCache.size > ZHCONVERT_CACHE_MAX_ENTRIES) {
+    const oldest = zhconvertCache.keys().next().value;
+    if (oldest === undefined) break;
+    zhconvertCache.delete(oldest);
+  }
+
+  scheduleZhconvertCacheSave();
+}
+
+/**
+ * 檢查請求頻率，超過限制時返回需要等待的秒數
+ */
+function checkZhconvertRateLimit(ip: string): number | null {
+  const now = Date.now();
+  const record = zhconvertRequests.get(ip);
+
+  if (!record || record.resetAt <= now) {
+    zhconvertRequests.set(ip, {
+      count: 1,
+      resetAt: now + ZHCONVERT_RATE_WINDOW,
+    });
+    return null;
+  }
+
+  if (record.count >= ZHCONVERT_RATE_LIMIT) {
+    return Math.ceil((record.resetAt - now) / 1000);
+  }
+
+  record.count++;
+  return null;
+}
+
+// 定期清除過期的頻率記錄
+setInterval(() => {
+  const now = Date.now();
+  zhconvertRequests.forEach((record, ip) => {
+    if (record.resetAt <= now) zhconvertRequests.delete(ip);
+  });
+}, ZHCONVERT_RATE_WINDOW).unref();
+
+/**
+ * 請求繁化姬 API 轉換一段文字
+ */
+async function requestZhconvert(
+  text: string,
+  converter: ConvertMode
+): Promise<string> {
+  const response = await fetch(ZHCONVERT_API, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
+    },
+    body: new URLSearchParams({ text, converter }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`繁化姬 API 請求失敗: ${response.status}`);
+  }
+
+  const result: ZhConvertResponse = await response.json();
+
+  // 檢查 API 回應的錯誤碼
+  if (result.code !== 0) {
+    throw new Error(`繁化姬 API 回應錯誤: ${result.msg}`);
+  }
+
+  return result.data.text;
+}
+
+/**
+ * 合併多段文字為一個上游請求，轉換後再拆分
+ * 分隔符被改動導致無法拆分時，改為逐段請求
+ */
+async function convertJoined(
+  texts: string[],
+  converter: ConvertMode
+): Promise<string[]> {
+  if (texts.length === 1) {
+    return [await requestZhconvert(texts[0], converter)];
+  }
+
+  const joined = texts
+    .map((text, index) => (index === 0 ? text : separator(index) + text))
+    .join('');
+  const converted = await requestZhconvert(joined, converter);
+
+  const parts: string[] = [];
+  let lastIndex = 0;
+  let expected = 1;
+  for (const match of converted.matchAll(SEPARATOR_PATTERN)) {
+    if (Number(match[1]) !== expected) break;
+    parts.push(converted.slice(lastIndex, match.index));
+    lastIndex = (match.index || 0) + match[0].length;
+    expected++;
+  }
+  parts.push(converted.slice(lastIndex));
+
+  if (parts.length === texts.length) {
+    return parts;
+  }
+
+  console.warn('⚠️ 無法拆分繁化姬的合併結果，改為逐段轉換');
+  const results: string[] = [];
+  for (const text of texts) {
+    results.push(await requestZhconvert(text, converter));
+  }
+  return results;
+}
+
+/**
+ * 批量轉換文字（使用緩存，未緩存的文字按長度分組合併請求）
+ */
+async function convertWithZhconvert(
+  texts: string[],
+  converter: ConvertMode
+): Promise<{ texts: string[]; cached: number }> {
+  const keyOf = (text: string) => `${converter}\u0000${text}`;
+  const results = texts.map((text) => zhconvertCache.get(keyOf(text)));
+  const cached = results.filter((text) => text !== undefined).length;
+
+  // 重複的文字只轉換一次
+  const uncached = Array.from(
+    new Set(texts.filter((_text, index) => results[index] === undefined))
+  );
+
+  let group: string[] = [];
+  let groupChars = 0;
+  const flush = async () => {
+    if (group.length === 0) return;
+    const converted = await convertJoined(group, converter);
+    group.forEach((text, index) =>
+      rememberZhconvert(keyOf(text), converted[index])
+    );
+    group = [];
+    groupChars = 0;
+  };
+
+  for (const text of uncached) {
+    if (groupChars + text.length > ZHCONVERT_UPSTREAM_CHARS) {
+      await flush();
+    }
+    group.push(text);
+    groupChars += text.length;
+  }
+  await flush();
+
+  return {
+    texts: texts.map(
+      (text, index) => results[index] ?? zhconvertCache.get(keyOf(text)) ?? text
+    ),
+    cached,
+  };
+}
+
+// 繁化姬代理端點：POST /api/zhconvert { texts: string[], converter }
+app.post(ZHCONVERT_ENDPOINT, async (req: Request, res: Response) => {
+  const retryAfter = checkZhconvertRateLimit(req.ip || '');
+  if (retryAfter !== null) {
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({
+      error: 'Too many requests',
+      message: `請求過於頻繁，請在 ${retryAfter} 秒後重試`,
+    });
+    return;
+  }
+
+  const { texts, converter } = (req.body ||
+    {}) as Partial<ZhConvertBatchRequest>;
+
+  if (
+    !Array.isArray(texts) ||
+    texts.length > ZHCONVERT_MAX_TEXTS ||
+    !texts.every((text) => typeof text === 'string')
+  ) {
+    res.status(400).json({
+      error: 'Invalid texts',
+      message: `texts 必須是最多 ${ZHCONVERT_MAX_TEXTS} 個字串的陣列`,
+    });
+    return;
+  }
+
+  if (!CONVERT_MODES.includes(converter as ConvertMode)) {
+    res.status(400).json({
+      error: 'Invalid converter',
+      message: `converter 必須是 ${CONVERT_MODES.join(' / ')} 之一`,
+    });
+    return;
+  }
+
+  if (texts.reduce((sum, text) => sum + text.length, 0) > ZHCONVERT_MAX_CHARS) {
+    res.status(413).json({
+      error: 'Payload too large',
+      message: `文字總長度不可超過 ${ZHCONVERT_MAX_CHARS} 字`,
+    });
+    return;
+  }
+
+  try {
+    const result = await convertWithZhconvert(texts, converter as ConvertMode);
+    const response: ZhConvertBatchResponse = {
+      converter: converter as string,
+      ...result,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('❌ 繁化姬轉換失敗:', error);
+    res.status(502).json({
+      error: 'Upstream conversion failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // 處理所有其他路由（SPA 支援）
 app.get('*', (req: Request, res: Response) => {
   // 如果請求的是文件（包含副檔名），嘗試提供該文件
@@ -237,8 +1437,18 @@ app.listen(PORT, () => {
   console.log(`📍 本地地址: http://localhost:${PORT}`);
   console.log(`📁 靜態文件: ${path.join(__dirname, 'public')}`);
   console.log(`📁 根目錄: ${__dirname}`);
+  console.log(`🧪 模擬 API: http://localhost:${PORT}${MOCK_API_PREFIX}`);
+  console.log(
+    `🔗 API 端點: ${appConfig.apiBaseUrl}${appConfig.resourceEndpoint}`
+  );
   console.log('=================================');
   console.log('\n按 Ctrl+C 停止服務器\n');
+
+  // 載入目錄索引後啟動圖表數據背景更新器（同時刷新目錄索引）
+  loadCatalogues().then(startChartRefresher);
+
+  // 載入繁化姬轉換緩存
+  loadZhconvertCache();
 });
 
 // 優雅關閉
@@ -0,0 +1,80 @@
+/**
+ * 排序設定
+ * API 清單支援 sort/order 參數；「只看收藏」模式的資料在客戶端篩選，
+ * 因此提供相同規則的客戶端排序
+ */
+import { Attraction } from './types';
+
+/**
+ * 可排序的欄位（API 欄位名稱）
+ */
+export type SortField =
+  'title' | 'category' | 'id' | 'published_at' | 'updated_at';
+
+/**
+ * 排序方向
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * 排序選項（空字串代表使用 API 預設順序）
+ */
+export const SORT_OPTIONS: { value: SortField | ''; label: string }[] = [
+  { value: '', label: '預設' },
+  { value: 'title', label: '名稱' },
+  { value: 'category', label: '分類' },
+  { value: 'id', label: '編號' },
+  { value: 'published_at', label: '發佈日期' },
+  { value: 'updated_at', label: '更新日期' },
+];
+
+/**
+ * 檢查是否為有效的排序欄位
+ */
+export function isSortField(value: unknown): value is SortField {
+  return SORT_OPTIONS.some((option) => option.value && option.value === value);
+}
+
+/**
+ * 讀取項目的排序值（日期欄位只存在於 API 原始欄位）
+ */
+function getSortValue(item: Attraction, field: SortField): unknown {
+  switch (field) {
+    case 'title':
+      return item.title;
+    case 'category':
+      return item.category;
+    case 'id':
+      return item.id;
+    default:
+      return item.fields?.[field];
+  }
+}
+
+/**
+ * 客戶端排序（返回新陣列，不修改原陣列）
+ * 規則與 API 一致：數字按大小、其他按繁體中文排序；缺少該欄位的項目排在最後
+ */
+export function sortItems(
+  items: Attraction[],
+  field: SortField,
+  order: SortOrder = 'asc'
+): Attraction[] {
+  const direction = order === 'desc' ? -1 : 1;
+
+  return [...items].sort((a, b) => {
+    const av = getSortValue(a, field);
+    const bv = getSortValue(b, field);
+
+    const aMissing = av === undefined || av === null || av === '';
+    const bMissing = bv === undefined || bv === null || bv === '';
+    if (aMissing || bMissing) {
+      return Number(aMissing) - Number(bMissing);
+    }
+
+    if (typeof av === 'number' && typeof bv === 'number') {
+      return (av - bv) * direction;
+    }
+    return String(av).localeCompare(String(bv), 'zh-Hant') * direction;
+  });
+}
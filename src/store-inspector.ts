@@ -0,0 +1,145 @@
+/**
+ * 狀態檢查器（開發模式，devTools 配置為 true 時啟用）
+ * - 畫面角落的按鈕打開面板，列出 store 記錄的每個 action（時間及類型）
+ * - 點擊記錄回到該操作後的狀態，畫面按當時的狀態重新渲染（之後的操作仍會記錄，但暫不顯示）
+ * - 「回到最新」恢復最新狀態；「匯出」將記錄（包括每一步的狀態）以 JSON 複製到剪貼簿
+ */
+import {
+  ActionLogEntry,
+  getActionLog,
+  getTravelIndex,
+  resumeLive,
+  subscribeActionLog,
+  travelTo,
+} from './store';
+import { t } from './i18n';
+
+let panel: HTMLElement | null = null;
+let panelOpen = false;
+
+/**
+ * 格式化記錄時間（時:分:秒.毫秒）
+ */
+function formatTime(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+/**
+ * 記錄轉為 JSON（Set 轉為陣列，Map 轉為物件）
+ */
+function exportLog(log: readonly ActionLogEntry[]): string {
+  return JSON.stringify(
+    log,
+    (_key, value) => {
+      if (value instanceof Set) return Array.from(value);
+      if (value instanceof Map) return Object.fromEntries(value);
+      return value;
+    },
+    2
+  );
+}
+
+/**
+ * 複製記錄到剪貼簿（無法複製時輸出到控制台）
+ */
+async function copyLog(): Promise<void> {
+  const json = exportLog(getActionLog());
+  try {
+    await navigator.clipboard.writeText(json);
+    console.log(`🗂️ 已複製 ${getActionLog().length} 條狀態記錄`);
+  } catch (error) {
+    console.warn('⚠️ 無法複製狀態記錄，改為輸出到控制台:', error);
+    console.log(json);
+  }
+}
+
+/**
+ * 渲染記錄清單（最新的在最上面）
+ */
+function renderPanel(): void {
+  if (!panel) return;
+
+  panel.hidden = !panelOpen;
+  if (!panelOpen) return;
+
+  const log = getActionLog();
+  const travelIndex = getTravelIndex();
+  const current = travelIndex ?? log.length - 1;
+
+  panel.replaceChildren();
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'store-inspector-toolbar';
+
+  const status = document.createElement('span');
+  status.textContent =
+    travelIndex === null
+      ? t('inspector.live', { count: log.length })
+      : t('inspector.travelling', { index: travelIndex, count: log.length });
+  toolbar.appendChild(status);
+
+  const live = document.createElement('button');
+  live.type = 'button';
+  live.textContent = t('inspector.resume');
+  live.disabled = travelIndex === null;
+  live.addEventListener('click', () => resumeLive());
+  toolbar.appendChild(live);
+
+  const copy = document.createElement('button');
+  copy.type = 'button';
+  copy.textContent = t('inspector.export');
+  copy.addEventListener('click', () => copyLog());
+  toolbar.appendChild(copy);
+
+  panel.appendChild(toolbar);
+
+  const list = document.createElement('ol');
+  list.className = 'store-inspector-log';
+  for (let index = log.length - 1; index >= 0; index--) {
+    const entry = log[index];
+    const row = document.createElement('li');
+    row.classList.toggle('current', index === current);
+    row.classList.toggle('future', index > current);
+    row.title = JSON.stringify(entry.action, (_key, value) =>
+      Array.isArray(value) && value.length > 5
+        ? `[${value.length} items]`
+        : value
+    );
+    row.textContent = `#${entry.id} ${formatTime(entry.time)} ${entry.action.type}`;
+    row.addEventListener('click', () => travelTo(index));
+    list.appendChild(row);
+  }
+  panel.appendChild(list);
+}
+
+/**
+ * 初始化狀態檢查器（需先調用 store 的 enableActionLog）
+ */
+export function initStoreInspector(): void {
+  const toggle = document.createElement('button');
+  toggle.type = 'button';
+  toggle.className = 'store-inspector-toggle';
+  toggle.textContent = '🗂️';
+  toggle.setAttribute('aria-label', t('inspector.title'));
+  toggle.setAttribute('aria-expanded', 'false');
+  toggle.addEventListener('click', () => {
+    panelOpen = !panelOpen;
+    toggle.setAttribute('aria-expanded', String(panelOpen));
+    renderPanel();
+  });
+
+  panel = document.createElement('aside');
+  panel.className = 'store-inspector';
+  panel.setAttribute('aria-label', t('inspector.title'));
+  panel.hidden = true;
+
+  document.body.append(toggle, panel);
+
+  subscribeActionLog(renderPanel);
+  window.addEventListener('locale-change', renderPanel);
+
+  console.log('🗂️ 狀態檢查器已啟用');
+}
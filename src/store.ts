@@ -0,0 +1,509 @@
+/**
+ * 應用程式狀態（清單、搜索條件、收藏及登入狀態）
+ * - 狀態只能經由 dispatch(action) 改變；reducer 返回新的狀態物件，不修改舊的狀態
+ * - 渲染函數以 subscribe(selector, listener) 訂閱所需的部分，選取的值改變時重新渲染；
+ *   渲染時讀取 getViewState()，其他程式碼讀取 getState()（回到過去時兩者不同）
+ * - 畫面顯示的清單由 selectVisibleItems 統一計算（「只看收藏」模式的收藏、分類、分面篩選及排序）
+ * - 開發模式（devTools 配置）記錄每個 action 及之後的狀態，可回到任一時間點（見 store-inspector.ts）
+ *
+ * 此模組不依賴 DOM
+ */
+import { Attraction } from './types';
+import { localAttractions } from './data';
+import { fromLocalAttraction, toApiAttraction } from './mapper';
+import { MatchHighlights } from './search-index';
+import { SortField, SortOrder, sortItems } from './sort';
+import { TopicDefinition, getTopic } from './topics';
+import {
+  CatalogueFilters,
+  FacetMatch,
+  matchesCatalogueFilters,
+} from './catalogue';
+
+/**
+ * 搜索結果的高亮範圍（按項目 ID，只對 query 的搜索詞有效）
+ */
+export interface SearchHighlights {
+  query: string;
+  byId: ReadonlyMap<number, MatchHighlights>;
+}
+
+/**
+ * 應用程式狀態
+ */
+export interface AppState {
+  topic: string; // 當前主題的資源端點（如 /attractions）
+  listMode: 'prompt' | 'results'; // 清單區顯示搜索提示（及精選項目）或搜索結果
+  items: Attraction[]; // 已載入的清單項目（API 結果或收藏列表）
+  useLocalData: boolean; // 是否使用本地數據（否則為 API 數據）
+  isLoading: boolean;
+  page: number; // 已載入的頁數
+  hasMoreData: boolean;
+  isLoadingMore: boolean;
+  loadMoreError: string | null; // 載入下一頁失敗的訊息（顯示在清單尾部，可重試）
+  search: string;
+  category: string;
+  facets: { filters: CatalogueFilters; match: FacetMatch }; // 分面篩選條件（由 facet-filters.ts 讀取網址及面板操作後更新）
+  sort: SortField | ''; // 空字串為 API 預設順序
+  order: SortOrder;
+  showOnlyBookmarked: boolean;
+  fullBookmarkedItems: Attraction[]; // 完整的收藏列表（用於繁簡搜索）
+  bookmarkedIds: ReadonlySet<number>;
+  previewItems: Attraction[]; // 精選項目
+  username: string | null;
+  highlights: SearchHighlights;
+}
+
+/**
+ * 改變狀態的操作
+ */
+export type Action =
+  | { type: 'topic/switched'; topic: string }
+  | { type: 'query/changed'; search: string; category: string }
+  | { type: 'facets/changed'; facets: AppState['facets'] }
+  | { type: 'sort/changed'; sort: SortField | ''; order: SortOrder }
+  | { type: 'list/loading'; isLoading: boolean }
+  | { type: 'list/searchStarted' }
+  | {
+      type: 'list/pageLoaded';
+      items: Attraction[];
+      page: number;
+      hasMoreData: boolean;
+      append: boolean;
+    }
+  | {
+      type: 'list/replaced';
+      items: Attraction[];
+      highlights?: SearchHighlights;
+      hasMoreData?: boolean;
+    }
+  | { type: 'list/cleared' }
+  | { type: 'loadMore/started' }
+  | { type: 'loadMore/failed'; error: string }
+  | { type: 'loadMore/finished' }
+  | { type: 'loadMore/retried' }
+  | {
+      type: 'highlights/merged';
+      query: string;
+      highlights: SearchHighlights['byId'];
+    }
+  | { type: 'preview/loaded'; items: Attraction[] }
+  | { type: 'auth/changed'; username: string | null }
+  | { type: 'bookmarks/loaded'; ids: ReadonlySet<number> }
+  | { type: 'bookmarks/toggled'; id: number; bookmarked: boolean }
+  | { type: 'bookmarkFilter/changed'; enabled: boolean }
+  | { type: 'bookmarkFilter/loaded'; items: Attraction[] };
+
+/**
+ * 動作記錄（開發模式）
+ */
+export interface ActionLogEntry {
+  id: number;
+  action: Action | { type: '@@init' };
+  state: AppState;
+  time: number;
+}
+
+const EMPTY_HIGHLIGHTS: SearchHighlights = { query: '', byId: new Map() };
+
+const initialState: AppState = {
+  topic: '/attractions',
+  listMode: 'results',
+  items: localAttractions.map(fromLocalAttraction),
+  useLocalData: true,
+  isLoading: false,
+  page: 1,
+  hasMoreData: true,
+  isLoadingMore: false,
+  loadMoreError: null,
+  search: '',
+  category: '',
+  facets: { filters: {}, match: 'any' },
+  sort: '',
+  order: 'asc',
+  showOnlyBookmarked: false,
+  fullBookmarkedItems: [],
+  bookmarkedIds: new Set(),
+  previewItems: [],
+  username: null,
+  highlights: EMPTY_HIGHLIGHTS,
+};
+
+/**
+ * 計算操作後的新狀態
+ */
+function reduce(state: AppState, action: Action): AppState {
+  switch (action.type) {
+    case 'topic/switched':
+      // 搜索條件、清單及精選項目屬於上一個主題
+      return {
+        ...state,
+        topic: action.topic,
+        listMode: 'prompt',
+        search: '',
+        category: '',
+        items: [],
+        previewItems: [],
+        hasMoreData: false,
+        highlights: EMPTY_HIGHLIGHTS,
+      };
+
+    case 'query/changed':
+      return {
+        ...state,
+        search: action.search,
+        category: action.category,
+        page: 1,
+      };
+
+    case 'facets/changed':
+      return { ...state, facets: action.facets };
+
+    case 'sort/changed':
+      return { ...state, sort: action.sort, order: action.order };
+
+    case 'list/loading':
+      return { ...state, isLoading: action.isLoading };
+
+    case 'list/searchStarted':
+      return { ...state, page: 1, hasMoreData: true };
+
+    case 'list/pageLoaded':
+      return {
+        ...state,
+        listMode: 'results',
+        // 追加模式的頁碼已在 loadMore/started 時遞增
+        items: action.append ? [...state.items, ...action.items] : action.items,
+        page: action.append ? state.page : action.page,
+        hasMoreData: action.hasMoreData,
+        loadMoreError: null,
+        useLocalData: false,
+      };
+
+    case 'list/replaced':
+      return {
+        ...state,
+        listMode: 'results',
+        items: action.items,
+        highlights: action.highlights || state.highlights,
+        hasMoreData: action.hasMoreData ?? state.hasMoreData,
+      };
+
+    case 'list/cleared':
+      return {
+        ...state,
+        listMode: 'prompt',
+        items: [],
+        useLocalData: false,
+        hasMoreData: false,
+      };
+
+    case 'loadMore/started':
+      return { ...state, isLoadingMore: true, page: state.page + 1 };
+
+    case 'loadMore/failed':
+      return { ...state, page: state.page - 1, loadMoreError: action.error };
+
+    case 'loadMore/finished':
+      return { ...state, isLoadingMore: false };
+
+    case 'loadMore/retried':
+      return { ...state, loadMoreError: null };
+
+    case 'highlights/merged': {
+      // 搜索詞改變時丟棄舊的高亮範圍
+      const byId = new Map(
+        state.highlights.query === action.query ? state.highlights.byId : []
+      );
+      action.highlights.forEach((value, id) => byId.set(id, value));
+      return { ...state, highlights: { query: action.query, byId } };
+    }
+
+    case 'preview/loaded':
+      return { ...state, previewItems: action.items };
+
+    case 'auth/changed':
+      return { ...state, username: action.username };
+
+    case 'bookmarks/loaded':
+      return { ...state, bookmarkedIds: action.ids };
+
+    case 'bookmarks/toggled': {
+      const bookmarkedIds = new Set(state.bookmarkedIds);
+      if (action.bookmarked) {
+        bookmarkedIds.add(action.id);
+      } else {
+        bookmarkedIds.delete(action.id);
+      }
+      return { ...state, bookmarkedIds };
+    }
+
+    case 'bookmarkFilter/changed':
+      return {
+        ...state,
+        showOnlyBookmarked: action.enabled,
+        fullBookmarkedItems: action.enabled ? state.fullBookmarkedItems : [],
+      };
+
+    case 'bookmarkFilter/loaded':
+      return {
+        ...state,
+        listMode: 'results',
+        fullBookmarkedItems: action.items,
+        items: action.items,
+      };
+  }
+}
+
+// ==================== 狀態容器 ====================
+
+interface Subscription {
+  selector: (state: AppState) => unknown;
+  listener: (value: unknown, state: AppState) => void;
+  equals: (a: unknown, b: unknown) => boolean;
+  value: unknown;
+}
+
+let liveState: AppState = initialState; // 最新的狀態
+let viewState: AppState = initialState; // 畫面顯示的狀態（回到過去時為記錄中的狀態）
+const subscriptions = new Set<Subscription>();
+
+// 開發模式的動作記錄（null 表示未啟用）
+let actionLog: ActionLogEntry[] | null = null;
+let actionLogLimit = 0;
+let nextActionId = 1;
+let travelIndex: number | null = null; // 正在查看的記錄位置
+const logListeners = new Set<() => void>();
+
+/**
+ * 最新的狀態（決定下一步操作時使用，如請求的頁碼、是否已收藏）
+ * 回到過去時仍返回最新的狀態，操作不會基於記錄中的舊狀態
+ */
+export function getState(): AppState {
+  return liveState;
+}
+
+/**
+ * 畫面顯示的狀態（只供渲染函數使用；回到過去時為記錄中的狀態）
+ */
+export function getViewState(): AppState {
+  return viewState;
+}
+
+/**
+ * 通知選取的值已改變的訂閱者
+ */
+function notify(): void {
+  subscriptions.forEach((subscription) => {
+    if (!subscriptions.has(subscription)) return; // 已在本輪通知中取消訂閱
+    const value = subscription.selector(viewState);
+    if (subscription.equals(subscription.value, value)) return;
+    subscription.value = value;
+    subscription.listener(value, viewState);
+  });
+}
+
+/**
+ * 執行操作
+ * 回到過去時，操作仍套用到最新的狀態並記錄（getState 返回最新的狀態），回到最新狀態（resumeLive）後才顯示；
+ * 正在查看的記錄超出記錄上限被刪除時自動回到最新狀態
+ */
+export function dispatch(action: Action): void {
+  liveState = reduce(liveState, action);
+
+  if (actionLog) {
+    actionLog.push({
+      id: nextActionId++,
+      action,
+      state: liveState,
+      time: Date.now(),
+    });
+    if (actionLog.length > actionLogLimit) {
+      const trimmed = actionLog.length - actionLogLimit;
+      actionLog.splice(0, trimmed);
+      if (travelIndex !== null) {
+        // 正在查看的記錄已被刪除時回到最新狀態（而非改為指向另一條記錄）
+        travelIndex = travelIndex >= trimmed ? travelIndex - trimmed : null;
+      }
+    }
+    console.debug(`🗂️ ${action.type}`, action);
+    logListeners.forEach((listener) => listener());
+  }
+
+  if (travelIndex !== null) return;
+
+  viewState = liveState;
+  notify();
+}
+
+/**
+ * 訂閱狀態中選取的值
+ * @param selector 選取函數
+ * @param listener 選取的值改變時調用（訂閱時不調用）
+ * @param equals 比較函數，預設為 Object.is；選取函數每次返回新物件時使用 shallowEqual
+ * @returns 取消訂閱的函數
+ */
+export function subscribe<T>(
+  selector: (state: AppState) => T,
+  listener: (value: T, state: AppState) => void,
+  equals: (a: T, b: T) => boolean = Object.is
+): () => void {
+  // 選取的值只會是 selector 返回的 T，包裝後以 unknown 保存
+  const subscription: Subscription = {
+    selector,
+    listener: (value, state) => listener(value as T, state),
+    equals: (a, b) => equals(a as T, b as T),
+    value: selector(viewState),
+  };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
+
+/**
+ * 淺比較（物件的每個屬性或陣列的每個元素以 Object.is 比較）
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a) as (keyof T)[];
+  const bKeys = Object.keys(b) as (keyof T)[];
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => Object.is(a[key], b[key]))
+  );
+}
+
+// ==================== 選取函數 ====================
+
+/**
+ * 當前主題
+ */
+export function selectTopic(state: AppState): TopicDefinition {
+  return getTopic(state.topic);
+}
+
+let visibleCache: { state: AppState; items: Attraction[] } | null = null;
+
+/**
+ * 畫面顯示的清單項目
+ * API 結果已由伺服器篩選及排序；「只看收藏」模式在客戶端篩選（取消收藏的項目即時移除）及排序
+ * 輸入未改變時返回相同的陣列，訂閱者可用 Object.is 判斷是否需要重新渲染
+ */
+export function selectVisibleItems(state: AppState): Attraction[] {
+  if (!state.showOnlyBookmarked) return state.items;
+
+  const cached = visibleCache?.state;
+  if (
+    cached &&
+    cached.items === state.items &&
+    cached.bookmarkedIds === state.bookmarkedIds &&
+    cached.category === state.category &&
+    cached.facets === state.facets &&
+    cached.sort === state.sort &&
+    cached.order === state.order
+  ) {
+    return visibleCache!.items;
+  }
+
+  const { filters, match } = state.facets;
+  let items = state.items.filter(
+    (item) =>
+      state.bookmarkedIds.has(item.id) &&
+      (!state.category || item.category === state.category) &&
+      matchesCatalogueFilters(toApiAttraction(item), filters, match)
+  );
+  if (state.sort) {
+    items = sortItems(items, state.sort, state.order);
+  }
+
+  visibleCache = { state, items };
+  return items;
+}
+
+/**
+ * 項目的搜索高亮範圍（只在搜索詞未改變時使用）
+ */
+export function selectHighlights(
+  state: AppState,
+  id: number
+): MatchHighlights | undefined {
+  return state.search && state.highlights.query === state.search
+    ? state.highlights.byId.get(id)
+    : undefined;
+}
+
+/**
+ * 是否顯示清單尾部（API 搜索結果的載入狀態）
+ */
+export function selectShowsListTail(state: AppState): boolean {
+  return (
+    !state.useLocalData && !state.showOnlyBookmarked && state.items.length > 0
+  );
+}
+
+// ==================== 開發工具 ====================
+
+/**
+ * 啟用動作記錄（開發模式）
+ * @param limit 最多保留的記錄數量
+ */
+export function enableActionLog(limit = 200): void {
+  if (actionLog) return;
+  actionLogLimit = limit;
+  actionLog = [
+    { id: 0, action: { type: '@@init' }, state: liveState, time: Date.now() },
+  ];
+}
+
+/**
+ * 動作記錄（未啟用時為空陣列）
+ */
+export function getActionLog(): readonly ActionLogEntry[] {
+  return actionLog || [];
+}
+
+/**
+ * 訂閱動作記錄的變化（新的操作或回到過去）
+ * @returns 取消訂閱的函數
+ */
+export function subscribeActionLog(listener: () => void): () => void {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+}
+
+/**
+ * 正在查看的記錄位置（null 表示顯示最新狀態）
+ */
+export function getTravelIndex(): number | null {
+  return travelIndex;
+}
+
+/**
+ * 回到某個記錄時的狀態（畫面重新渲染，之後的操作暫不顯示）
+ */
+export function travelTo(index: number): void {
+  const entry = actionLog?.[index];
+  if (!entry) return;
+
+  travelIndex = index === actionLog!.length - 1 ? null : index;
+  viewState = entry.state;
+  notify();
+  logListeners.forEach((listener) => listener());
+}
+
+/**
+ * 回到最新的狀態
+ */
+export function resumeLive(): void {
+  travelIndex = null;
+  viewState = liveState;
+  notify();
+  logListeners.forEach((listener) => listener());
+}
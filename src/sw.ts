@@ -0,0 +1,375 @@
+/**
+ * Service Worker（離線支援）
+ * - 預先緩存：應用程式外殼（index.html、dist/main.js、manifest、圖示）及 public/img 的本地圖片
+ * - 執行時緩存：主題資源清單和配置/圖表數據（網絡優先，離線時返回緩存）、
+ *   圖片（緩存優先）、CDN 上的 Ionic 和 Chart.js（先返回緩存，背景更新）
+ * - 離線時返回緩存資料，並通知頁面顯示「離線資料」提示
+ *
+ * 由 npm run build:sw 編譯為 dist/sw.js，服務器以 /sw.js 提供（作用範圍為整個網站）
+ */
+import { localAttractions } from './data';
+import { TOPICS } from './topics';
+
+// ==================== Service Worker 類型 ====================
+// tsconfig 使用 DOM 類型庫（與 WebWorker 類型庫互相衝突），此處只聲明用到的部分
+
+interface SwExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface SwFetchEvent extends SwExtendableEvent {
+  request: Request;
+  clientId: string;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface SwClient {
+  postMessage(message: unknown): void;
+}
+
+interface SwGlobalScope {
+  location: Location;
+  clients: {
+    get(id: string): Promise<SwClient | undefined>;
+    claim(): Promise<void>;
+  };
+  skipWaiting(): Promise<void>;
+  addEventListener(
+    type: 'install' | 'activate',
+    listener: (event: SwExtendableEvent) => void
+  ): void;
+  addEventListener(
+    type: 'fetch',
+    listener: (event: SwFetchEvent) => void
+  ): void;
+}
+
+const sw = self as unknown as SwGlobalScope;
+
+/**
+ * 發送給頁面的離線資料通知
+ */
+export interface OfflineDataMessage {
+  type: 'offline-data';
+  url: string;
+  cachedAt: string | null; // 緩存時間（ISO 格式）
+}
+
+// ==================== 緩存設定 ====================
+
+// 修改預先緩存清單時更新版本號，舊版本的緩存會在啟用時刪除
+const CACHE_VERSION = 'v3';
+const PRECACHE = `precache-${CACHE_VERSION}`;
+const API_CACHE = `api-${CACHE_VERSION}`;
+const IMAGE_CACHE = `images-${CACHE_VERSION}`;
+const CDN_CACHE = `cdn-${CACHE_VERSION}`;
+
+// 執行時緩存的最大項目數（超過時刪除最舊的項目）
+const MAX_API_ENTRIES = 100;
+const MAX_IMAGE_ENTRIES = 200;
+
+// 記錄緩存時間的回應標頭
+const CACHED_AT_HEADER = 'X-Cached-At';
+
+// 應用程式外殼
+const APP_SHELL = [
+  '/',
+  '/index.html',
+  '/dist/main.js',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  // 搜索用的簡體化對照表（完整對照表在首次使用時緩存）
+  '/vendor/opencc-js/t2cn.js',
+];
+
+// public/img 的本地圖片
+const LOCAL_IMAGES = localAttractions.map((item) => '/' + item.image);
+
+// 服務器提供的 API（配置文件、圖表數據、按 ID 批量查詢及目錄查詢，包括其子路徑）
+const SERVER_API_PATHS = [
+  '/api/config',
+  '/api/chart-data',
+  '/api/attractions/batch',
+  '/api/catalogue',
+];
+
+// 緩存優先的靜態資源（其他同源請求，如 /mock/api/bookmarks，直接使用網絡）
+const STATIC_PATHS = ['/vendor/', '/icons/', '/img/', '/manifest.webmanifest'];
+
+// 需要通過 CDN 載入的資源
+const CDN_HOSTS = ['cdn.jsdelivr.net'];
+
+// ==================== 生命週期 ====================
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(PRECACHE)
+      .then((cache) => cache.addAll([...APP_SHELL, ...LOCAL_IMAGES]))
+      .then(() => sw.skipWaiting())
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  const currentCaches = [PRECACHE, API_CACHE, IMAGE_CACHE, CDN_CACHE];
+
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => !currentCaches.includes(name))
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => sw.clients.claim())
+  );
+});
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  // 帶有登入憑證的請求（收藏、認證檢查）屬於個別使用者，不緩存
+  if (request.headers.has('Authorization')) return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === sw.location.origin;
+
+  // 頁面導航（包括 /attractions/12 之類的客戶端路由）
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  // 主題資源清單和服務器 API
+  if (isResourceListRequest(url) || (sameOrigin && isServerApiRequest(url))) {
+    event.respondWith(networkFirst(request, API_CACHE, event.clientId));
+    return;
+  }
+
+  // 編譯後的程式碼（網絡優先，確保使用最新版本）
+  if (sameOrigin && url.pathname.startsWith('/dist/')) {
+    event.respondWith(networkFirst(request, PRECACHE));
+    return;
+  }
+
+  if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, CDN_CACHE, event));
+    return;
+  }
+
+  if (sameOrigin && isStaticRequest(url)) {
+    event.respondWith(cacheFirst(request, PRECACHE));
+  }
+});
+
+// ==================== 緩存策略 ====================
+
+/**
+ * 是否為服務器提供的 API 請求（如 /api/catalogue/12）
+ */
+function isServerApiRequest(url: URL): boolean {
+  return SERVER_API_PATHS.some(
+    (path) => url.pathname === path || url.pathname.startsWith(`${path}/`)
+  );
+}
+
+/**
+ * 是否為緩存優先的靜態資源（目錄以 / 結尾時匹配其下的所有路徑）
+ */
+function isStaticRequest(url: URL): boolean {
+  return STATIC_PATHS.some((path) =>
+    path.endsWith('/') ? url.pathname.startsWith(path) : url.pathname === path
+  );
+}
+
+/**
+ * 是否為主題資源清單請求（如 /api/attractions、/mock/api/courses）
+ * 收藏和認證等使用者資料不緩存
+ */
+function isResourceListRequest(url: URL): boolean {
+  return TOPICS.some((topic) => url.pathname.endsWith(topic.endpoint));
+}
+
+/**
+ * 複製回應並加上緩存時間
+ */
+async function withCachedAt(response: Response): Promise<Response> {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, new Date().toISOString());
+
+  return new Response(await response.clone().blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * 刪除超出數量上限的最舊項目
+ */
+async function trimCache(cacheName: string, maxEntries: number): Promise<void> {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - maxEntries))
+      .map((key) => cache.delete(key))
+  );
+}
+
+/**
+ * 通知頁面正在顯示離線資料
+ */
+async function notifyOfflineData(
+  clientId: string,
+  url: string,
+  cachedAt: string | null
+): Promise<void> {
+  if (!clientId) return;
+
+  const client = await sw.clients.get(clientId);
+  const message: OfflineDataMessage = { type: 'offline-data', url, cachedAt };
+  client?.postMessage(message);
+}
+
+/**
+ * 離線且沒有緩存時的回應（格式與 API 錯誤一致）
+ */
+function offlineResponse(): Response {
+  return new Response(
+    JSON.stringify({ error: '目前處於離線狀態，且沒有已緩存的資料' }),
+    { status: 503, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * 網絡優先：成功時更新緩存，網絡失敗時返回緩存
+ */
+async function networkFirst(
+  request: Request,
+  cacheName: string,
+  clientId?: string
+): Promise<Response> {
+  try {
+    const response = await fetch(request);
+
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, await withCachedAt(response));
+      if (cacheName === API_CACHE) {
+        await trimCache(API_CACHE, MAX_API_ENTRIES);
+      }
+    }
+
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (!cached) {
+      return offlineResponse();
+    }
+
+    if (clientId) {
+      await notifyOfflineData(
+        clientId,
+        request.url,
+        cached.headers.get(CACHED_AT_HEADER)
+      );
+    }
+
+    return cached;
+  }
+}
+
+/**
+ * 緩存優先：沒有緩存時從網絡載入並緩存
+ */
+async function cacheFirst(
+  request: Request,
+  cacheName: string,
+  maxEntries?: number
+): Promise<Response> {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  try {
+    const response = await fetch(request);
+
+    // 跨域圖片的回應為 opaque（status 為 0），同樣可以緩存
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+      if (maxEntries) {
+        await trimCache(cacheName, maxEntries);
+      }
+    }
+
+    return response;
+  } catch (error) {
+    return new Response('', { status: 504, statusText: 'Offline' });
+  }
+}
+
+/**
+ * 先返回緩存，同時在背景更新緩存
+ */
+async function staleWhileRevalidate(
+  request: Request,
+  cacheName: string,
+  event: SwExtendableEvent
+): Promise<Response> {
+  const cached = await caches.match(request);
+
+  const update = fetch(request)
+    .then(async (response) => {
+      if (response.ok || response.type === 'opaque') {
+        const cache = await caches.open(cacheName);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  if (cached) {
+    event.waitUntil(update);
+    return cached;
+  }
+
+  return update;
+}
+
+/**
+ * 頁面導航：網絡優先，離線時返回緩存的 index.html（由客戶端路由處理路徑）
+ */
+async function handleNavigation(request: Request): Promise<Response> {
+  try {
+    const response = await fetch(request);
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (response.ok && contentType.includes('text/html')) {
+      const cache = await caches.open(PRECACHE);
+      await cache.put('/index.html', response.clone());
+    }
+
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match('/index.html')) || (await caches.match('/'));
+    return (
+      cached ||
+      new Response('<h1>目前處於離線狀態</h1>', {
+        status: 503,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      })
+    );
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * 主題資源註冊表
+ * 課程 API 提供十個主題資源，各主題共用 id/title/description/category 等基本欄位，
+ * 並各自帶有額外欄位（例如程式教學的 language/level）
+ *
+ * 此模組不依賴 DOM，客戶端和服務器共用
+ */
+
+/**
+ * 主題欄位定義（用於渲染清單卡片的詳細資料）
+ */
+export interface TopicField {
+  keys: string[]; // API 欄位名稱（多個欄位以「 - 」連接，如 city + address）
+  icon: string; // 顯示圖示
+  label?: string; // 顯示名稱（省略時只顯示圖示，陣列欄位以「、」連接）
+  fallback?: string; // 欄位為空時的顯示文字（省略時不顯示該行）
+}
+
+/**
+ * 主題定義
+ */
+export interface TopicDefinition {
+  id: number; // 主題編號
+  endpoint: string; // 資源端點，如 /attractions
+  name: string; // 主題名稱
+  unit: string; // 項目名稱，用於提示文字（如「共 N 個景點」）
+  fields: TopicField[]; // 卡片詳細資料欄位（按顯示順序）
+  hiddenKeys?: string[]; // 不顯示的額外欄位
+}
+
+// 各主題共用的基本欄位（不會作為額外欄位重複顯示）
+export const BASE_FIELD_KEYS = [
+  'id',
+  'title',
+  'description',
+  'category',
+  'image_url',
+  'video_url',
+  'tags',
+  'published_at',
+  'created_at',
+  'updated_at',
+];
+
+// 預設的簡介欄位
+const DESCRIPTION_FIELD: TopicField = {
+  keys: ['description'],
+  icon: '📝',
+  label: '簡介',
+  fallback: '暫無描述',
+};
+
+/**
+ * 十個主題資源（依照習作規格的主題編號排列）
+ */
+export const TOPICS: TopicDefinition[] = [
+  {
+    id: 1,
+    endpoint: '/courses',
+    name: '程式教學',
+    unit: '課程',
+    fields: [
+      { keys: ['language'], icon: '💻', label: '語言' },
+      { keys: ['level'], icon: '📶', label: '程度' },
+      DESCRIPTION_FIELD,
+    ],
+  },
+  {
+    id: 2,
+    endpoint: '/exercises',
+    name: '運動教學',
+    unit: '運動',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 3,
+    endpoint: '/yoga-poses',
+    name: '瑜伽動作',
+    unit: '動作',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 4,
+    endpoint: '/software',
+    name: '開源軟體',
+    unit: '軟體',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 5,
+    endpoint: '/hardware',
+    name: '開源硬體',
+    unit: '硬體',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 6,
+    endpoint: '/fonts',
+    name: '免費字體',
+    unit: '字體',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 7,
+    endpoint: '/classical-music',
+    name: '古典音樂',
+    unit: '樂曲',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 8,
+    endpoint: '/wiki-entries',
+    name: '維基百科',
+    unit: '條目',
+    fields: [DESCRIPTION_FIELD],
+  },
+  {
+    id: 9,
+    endpoint: '/attractions',
+    name: '公眾景點',
+    unit: '景點',
+    fields: [
+      {
+        keys: ['opening_hours'],
+        icon: '⏰',
+        label: '開放時間',
+        fallback: '請查詢官方資訊',
+      },
+      { keys: ['city', 'address'], icon: '📍' },
+      {
+        keys: ['description'],
+        icon: '✨',
+        label: '特色',
+        fallback: '暫無描述',
+      },
+      { keys: ['facilities'], icon: '🏢', label: '設施' },
+    ],
+    hiddenKeys: ['country'],
+  },
+  {
+    id: 10,
+    endpoint: '/pet-breeds',
+    name: '寵物品種',
+    unit: '品種',
+    fields: [DESCRIPTION_FIELD],
+  },
+];
+
+/**
+ * 根據端點查找主題（找不到時返回 undefined）
+ */
+export function findTopicByEndpoint(
+  endpoint: string
+): TopicDefinition | undefined {
+  return TOPICS.find((topic) => topic.endpoint === endpoint);
+}
+
+/**
+ * 根據端點獲取主題，找不到時返回公眾景點（主題編號 9）
+ */
+export function getTopic(endpoint: string): TopicDefinition {
+  return findTopicByEndpoint(endpoint) || findTopicByEndpoint('/attractions')!;
+}
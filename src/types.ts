@@ -1,7 +1,20 @@
+/**
+ * API 返回的通用資源項目（十個主題共用的基本欄位，蛇形命名）
+ */
+export interface ApiResourceItem {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  image_url: string;
+  video_url: string;
+  [key: string]: unknown; // 各主題的額外欄位，如 courses 的 language/level
+}
+
 /**
  * API 返回的景點資料類型（蛇形命名）
  */
-export interface ApiAttraction {
+export interface ApiAttraction extends ApiResourceItem {
   id: number;
   title: string;
   description: string;
@@ -35,20 +48,14 @@ export interface Attraction {
   country?: string;
   tags?: string[];
   facilities?: string[];
-  // 本地資料欄位（兼容舊代碼）
-  name?: string;
-  area?: string;
-  openTime?: string;
-  feature?: string;
-  image?: string;
-  video?: string;
+  fields?: Record<string, unknown>; // API 原始欄位（用於按主題渲染額外欄位）
 }
 
 /**
- * API 回應 - 景點列表（使用 API 原始格式）
+ * API 回應 - 資源列表（使用 API 原始格式）
  */
-export interface AttractionListResponse {
-  items: ApiAttraction[];
+export interface ResourceListResponse<T = ApiResourceItem> {
+  items: T[];
   pagination: {
     page: number;
     limit: number;
@@ -56,6 +63,42 @@ export interface AttractionListResponse {
   };
 }
 
+/**
+ * API 回應 - 景點列表（使用 API 原始格式）
+ */
+export type AttractionListResponse = ResourceListResponse<ApiAttraction>;
+
+/**
+ * 服務器回應 - 目錄查詢（GET /api/catalogue，格式與上游清單相同）
+ */
+export interface CatalogueResponse<T = ApiResourceItem> extends ResourceListResponse<T> {
+  updatedAt: string; // 目錄索引最後從上游獲取的時間（ISO 8601）
+}
+
+/**
+ * 分面統計的一個值
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * 服務器回應 - 分面統計（GET /api/catalogue/facets）
+ */
+export interface CatalogueFacetsResponse {
+  facets: Record<string, FacetCount[]>; // 欄位 → 各個值的數量，見 catalogue.ts 的 FACET_FIELDS
+  updatedAt: string;
+}
+
+/**
+ * 服務器回應 - 按 ID 批量查詢（GET /api/attractions/batch）
+ */
+export interface ResourceBatchResponse<T = ApiResourceItem> {
+  items: T[]; // 按請求的 ID 順序排列
+  missing: number[]; // 上游目錄中找不到的 ID
+}
+
 /**
  * API 回應 - 使用者認證
  */
@@ -85,6 +128,31 @@ export interface ErrorResponse {
   error: string;
 }
 
+/**
+ * 服務器回應 - 圖表數據（各分類的數量統計）
+ */
+export interface ChartDataResponse {
+  labels: string[];
+  data: number[];
+  total: number;
+  categories: string[]; // 分類列表供前端下拉選單使用
+}
+
+/**
+ * 執行時配置（API 端點及分頁設定）
+ */
+export interface AppConfig {
+  apiBaseUrl: string; // API 基礎端點，可為絕對或相對路徑（如 /mock/api）
+  resourceEndpoint: string; // 主題資源端點，如 /attractions
+  pageLimit: number; // 每頁載入數量
+  previewLimit: number; // 精選景點數量
+  validationMode: 'strict' | 'lenient'; // 回應資料驗證模式
+  cacheTtl: number; // 客戶端回應緩存有效期（秒），0 表示不緩存
+  cachePersistent: boolean; // 是否將回應緩存保存到 IndexedDB
+  zhConvertBackend: 'local' | 'zhconvert'; // 繁簡轉換引擎：本地對照表或繁化姬 API
+  devTools: boolean; // 開發模式：記錄狀態操作並顯示狀態檢查器
+}
+
 /**
  * 繁化姬 API 回應
  */
@@ -105,7 +173,24 @@ export interface ZhConvertResponse {
 }
 
 /**
- * 本地景點資料（遷移自原有代碼）
+ * 繁簡轉換批量請求（POST /api/zhconvert）
+ */
+export interface ZhConvertBatchRequest {
+  texts: string[];
+  converter: string; // 轉換模式，見 zhconvert.ts 的 ConvertMode
+}
+
+/**
+ * 繁簡轉換批量回應
+ */
+export interface ZhConvertBatchResponse {
+  converter: string;
+  texts: string[]; // 與請求順序一致
+  cached: number; // 使用服務器緩存的數量
+}
+
+/**
+ * 本地景點資料（遷移自原有代碼，使用前經 mapper.ts 轉換為 Attraction）
  */
 export interface LocalAttraction {
   name: string;
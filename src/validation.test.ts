@@ -0,0 +1,220 @@
+/**
+ * API 回應資料驗證測試（npm test）
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SchemaError,
+  array,
+  droppable,
+  integer,
+  optional,
+  resourceBatchSchema,
+  resourceListSchema,
+  string,
+  validate,
+  withRepair,
+} from './validation';
+import { ApiValidationError, fetchResourceByIds } from './api';
+import { CONFIG_ENDPOINT, loadConfig } from './config';
+
+const validItem = {
+  id: 12,
+  title: '故宮博物院',
+  description: '明清兩代的皇家宮殿',
+  category: '歷史古蹟',
+  image_url: 'https://example.com/gugong.jpg',
+  video_url: '',
+  tags: ['世界遺產'],
+};
+
+/**
+ * 包裝為清單回應
+ */
+function listOf(...items: unknown[]) {
+  return { items, pagination: { page: 1, limit: 20, total: items.length } };
+}
+
+/**
+ * 嚴格模式下應拋出指定欄位路徑的 SchemaError
+ */
+function assertSchemaError(data: unknown, path: string): void {
+  assert.throws(
+    () => validate(resourceListSchema, data),
+    (error) => error instanceof SchemaError && error.path === path
+  );
+}
+
+describe('嚴格模式', () => {
+  it('有效的資料原樣通過', () => {
+    const { value, issues } = validate(resourceListSchema, listOf(validItem));
+
+    assert.deepEqual(value.items, [validItem]);
+    assert.deepEqual(issues, []);
+  });
+
+  it('缺少 image_url 時報告欄位路徑', () => {
+    const { image_url: _omitted, ...item } = validItem;
+    assertSchemaError(listOf(validItem, item), 'items[1].image_url');
+  });
+
+  it('字串 id 時報告欄位路徑', () => {
+    assertSchemaError(listOf({ ...validItem, id: '12' }), 'items[0].id');
+  });
+
+  it('tags 不是陣列時報告欄位路徑', () => {
+    assertSchemaError(
+      listOf({ ...validItem, tags: '世界遺產' }),
+      'items[0].tags'
+    );
+  });
+
+  it('無效的清單項目不會被略過', () => {
+    assertSchemaError(
+      listOf(validItem, { ...validItem, title: null }),
+      'items[1].title'
+    );
+  });
+});
+
+describe('寬鬆模式', () => {
+  const lenient = { lenient: true };
+
+  it('缺少 image_url 時修復為空字串', () => {
+    const { image_url: _omitted, ...item } = validItem;
+    const { value, issues } = validate(
+      resourceListSchema,
+      listOf(item),
+      lenient
+    );
+
+    assert.equal(value.items[0].image_url, '');
+    assert.deepEqual(
+      issues.map(({ path, repaired }) => [path, repaired]),
+      [['items[0].image_url', true]]
+    );
+  });
+
+  it('數字字串 id 修復為整數', () => {
+    const { value, issues } = validate(
+      resourceListSchema,
+      listOf({ ...validItem, id: '12' }),
+      lenient
+    );
+
+    assert.equal(value.items[0].id, 12);
+    assert.equal(issues[0].path, 'items[0].id');
+    assert.equal(issues[0].repaired, true);
+  });
+
+  it('逗號分隔的 tags 修復為陣列', () => {
+    const { value } = validate(
+      resourceListSchema,
+      listOf({ ...validItem, tags: '世界遺產, 博物館' }),
+      lenient
+    );
+
+    assert.deepEqual(value.items[0].tags, ['世界遺產', '博物館']);
+  });
+
+  it('無法修復的可選欄位被移除', () => {
+    const { value, issues } = validate(
+      resourceListSchema,
+      listOf({ ...validItem, tags: 5 }),
+      lenient
+    );
+
+    assert.equal('tags' in value.items[0], false);
+    assert.equal(value.items[0].title, validItem.title);
+    assert.equal(issues[0].path, 'items[0].tags');
+    assert.match(issues[0].message, /已移除欄位/);
+  });
+
+  it('無法修復的清單項目被略過', () => {
+    const { value, issues } = validate(
+      resourceListSchema,
+      listOf({ ...validItem, id: 'abc' }, { ...validItem, id: 13 }),
+      lenient
+    );
+
+    assert.deepEqual(
+      value.items.map((item) => item.id),
+      [13]
+    );
+    assert.deepEqual(
+      issues.map(({ path, repaired }) => [path, repaired]),
+      [['items[0].id', false]]
+    );
+    assert.match(issues[0].message, /已略過 items\[0\]/);
+  });
+
+  it('保留未定義的欄位', () => {
+    const { value } = validate(
+      resourceBatchSchema,
+      { items: [{ ...validItem, language: 'TypeScript' }], missing: [] },
+      lenient
+    );
+
+    assert.equal(value.items[0].language, 'TypeScript');
+  });
+});
+
+describe('組合驗證器', () => {
+  it('withRepair 只在寬鬆模式下修復', () => {
+    const schema = withRepair(integer(), (value) => Number(value));
+
+    assert.throws(() => validate(schema, '7'), SchemaError);
+    assert.equal(validate(schema, '7', { lenient: true }).value, 7);
+  });
+
+  it('withRepair 無法修復時拋出原本的錯誤', () => {
+    const schema = withRepair(integer(), () => undefined);
+
+    assert.throws(
+      () => validate(schema, 'x', { lenient: true }),
+      (error) => error instanceof SchemaError && /integer/.test(error.message)
+    );
+  });
+
+  it('droppable 在嚴格模式下不移除欄位', () => {
+    const schema = droppable(optional(string()));
+
+    assert.throws(() => validate(schema, 1), SchemaError);
+    assert.equal(validate(schema, 1, { lenient: true }).value, undefined);
+  });
+
+  it('array 沒有 dropInvalid 時整個陣列失敗', () => {
+    assert.throws(
+      () => validate(array(integer()), [1, 'x'], { lenient: true }),
+      (error) => error instanceof SchemaError && error.path === '[1]'
+    );
+    assert.deepEqual(
+      validate(array(integer(), { dropInvalid: true }), [1, 'x'], {
+        lenient: true,
+      }).value,
+      [1]
+    );
+  });
+});
+
+describe('ApiValidationError', () => {
+  it('嚴格模式下 API 回應的欄位路徑帶到錯誤上', async () => {
+    globalThis.fetch = (async (url: string) =>
+      new Response(
+        JSON.stringify(
+          url === CONFIG_ENDPOINT
+            ? { validationMode: 'strict' }
+            : { items: [{ ...validItem, id: '12' }], missing: [] }
+        )
+      )) as typeof fetch;
+    await loadConfig();
+
+    await assert.rejects(
+      fetchResourceByIds('/attractions', [12]),
+      (error) =>
+        error instanceof ApiValidationError &&
+        error.path === 'items[0].id' &&
+        error.message.includes('items[0].id')
+    );
+  });
+});
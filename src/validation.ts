@@ -0,0 +1,376 @@
+/**
+ * API 回應資料驗證
+ * 輕量的聲明式驗證器（不依賴第三方套件），在資料進入渲染流程前檢查格式
+ *
+ * - 嚴格模式：任何欄位不符即拋出 SchemaError（帶欄位路徑，如 items[3].image_url）
+ * - 寬鬆模式：嘗試修復可修復的欄位（如字串 id），無法修復的清單項目會被略過，
+ *   所有問題記錄在 issues 中，不會令整頁資料載入失敗
+ */
+import {
+  AuthResponse,
+  BookmarkResponse,
+  BookmarkListResponse,
+  ResourceListResponse,
+  ResourceBatchResponse,
+  CatalogueFacetsResponse,
+  ApiAttraction,
+} from './types';
+
+/**
+ * 驗證問題記錄
+ */
+export interface ValidationIssue {
+  path: string; // 欄位路徑，如 items[3].id
+  message: string;
+  repaired: boolean; // true：已修復；false：項目已被略過
+}
+
+/**
+ * 驗證上下文
+ */
+export interface ValidationContext {
+  lenient: boolean;
+  issues: ValidationIssue[];
+}
+
+/**
+ * 驗證器：通過時返回（可能已修復的）值，失敗時拋出 SchemaError
+ */
+export type Validator<T> = (
+  value: unknown,
+  path: string,
+  ctx: ValidationContext
+) => T;
+
+/**
+ * 資料格式錯誤
+ */
+export class SchemaError extends Error {
+  constructor(
+    public path: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+/**
+ * 描述值的類型（用於錯誤訊息）
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * 拋出格式錯誤
+ */
+function fail(path: string, expected: string, value: unknown): never {
+  throw new SchemaError(
+    path || '(root)',
+    `預期 ${expected}，實際為 ${describe(value)}`
+  );
+}
+
+// ==================== 基本驗證器 ====================
+
+export function string(): Validator<string> {
+  return (value, path) =>
+    typeof value === 'string' ? value : fail(path, 'string', value);
+}
+
+export function integer(): Validator<number> {
+  return (value, path) =>
+    typeof value === 'number' && Number.isInteger(value)
+      ? value
+      : fail(path, 'integer', value);
+}
+
+export function literal<T extends string>(...values: T[]): Validator<T> {
+  return (value, path) =>
+    values.includes(value as T)
+      ? (value as T)
+      : fail(path, values.map((v) => `'${v}'`).join(' | '), value);
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path, ctx) =>
+    value === null ? null : validator(value, path, ctx);
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path, ctx) =>
+    value === undefined ? undefined : validator(value, path, ctx);
+}
+
+/**
+ * 陣列驗證器
+ * @param dropInvalid 寬鬆模式下略過無效的項目（而非令整個陣列失敗）
+ */
+export function array<T>(
+  validator: Validator<T>,
+  options: { dropInvalid?: boolean } = {}
+): Validator<T[]> {
+  return (value, path, ctx) => {
+    if (!Array.isArray(value)) fail(path, 'array', value);
+
+    const result: T[] = [];
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      try {
+        result.push(validator(item, itemPath, ctx));
+      } catch (error) {
+        if (
+          !(error instanceof SchemaError) ||
+          !options.dropInvalid ||
+          !ctx.lenient
+        ) {
+          throw error;
+        }
+        ctx.issues.push({
+          path: error.path,
+          message: `${error.message}（已略過 ${itemPath}）`,
+          repaired: false,
+        });
+      }
+    });
+    return result;
+  };
+}
+
+/**
+ * 物件驗證器
+ * @param passthrough 保留未定義的欄位（各主題的額外欄位）
+ */
+export function object<S extends Record<string, Validator<unknown>>>(
+  shape: S,
+  options: { passthrough?: boolean } = {}
+): Validator<{ [K in keyof S]: ReturnType<S[K]> }> {
+  return (value, path, ctx) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(path, 'object', value);
+    }
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = options.passthrough
+      ? { ...source }
+      : {};
+
+    Object.keys(shape).forEach((key) => {
+      const fieldValue = shape[key](
+        source[key],
+        path ? `${path}.${key}` : key,
+        ctx
+      );
+      if (fieldValue !== undefined) {
+        result[key] = fieldValue;
+      } else {
+        delete result[key];
+      }
+    });
+
+    return result as { [K in keyof S]: ReturnType<S[K]> };
+  };
+}
+
+/**
+ * 寬鬆模式下的修復：驗證失敗時用 repair 轉換原值後再驗證一次
+ * repair 返回 undefined 代表無法修復
+ */
+export function withRepair<T>(
+  validator: Validator<T>,
+  repair: (value: unknown) => unknown
+): Validator<T> {
+  return (value, path, ctx) => {
+    try {
+      return validator(value, path, ctx);
+    } catch (error) {
+      if (!(error instanceof SchemaError) || !ctx.lenient) throw error;
+
+      const repaired = repair(value);
+      if (repaired === undefined) throw error;
+
+      const result = validator(repaired, path, ctx);
+      ctx.issues.push({
+        path: error.path,
+        message: `${error.message}（已修復）`,
+        repaired: true,
+      });
+      return result;
+    }
+  };
+}
+
+/**
+ * 寬鬆模式下，無法修復的可選欄位直接移除（而非略過整個項目）
+ */
+export function droppable<T>(
+  validator: Validator<T | undefined>
+): Validator<T | undefined> {
+  return (value, path, ctx) => {
+    try {
+      return validator(value, path, ctx);
+    } catch (error) {
+      if (!(error instanceof SchemaError) || !ctx.lenient) throw error;
+
+      ctx.issues.push({
+        path: error.path,
+        message: `${error.message}（已移除欄位）`,
+        repaired: true,
+      });
+      return undefined;
+    }
+  };
+}
+
+/**
+ * 執行驗證
+ * @returns 驗證後的值及寬鬆模式下記錄的問題
+ */
+export function validate<T>(
+  schema: Validator<T>,
+  value: unknown,
+  options: { lenient?: boolean } = {}
+): { value: T; issues: ValidationIssue[] } {
+  const ctx: ValidationContext = { lenient: !!options.lenient, issues: [] };
+  return { value: schema(value, '', ctx), issues: ctx.issues };
+}
+
+// ==================== 修復函數 ====================
+
+/**
+ * 數字字串 → 整數（如 "12" → 12）
+ */
+function toInteger(value: unknown): unknown {
+  const num = typeof value === 'string' ? Number(value) : NaN;
+  return Number.isInteger(num) ? num : undefined;
+}
+
+/**
+ * 缺失或 null → 空字串；數字 → 字串
+ */
+function toText(value: unknown): unknown {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+/**
+ * 逗號分隔的字串 → 陣列
+ */
+function toStringList(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value
+      .split(/[,，、]/)
+      .map((part) => part.trim())
+      .filter(Boolean);
+  }
+  return undefined;
+}
+
+/**
+ * 可選文字欄位：數字 → 字串，其他無效值 → 移除該欄位
+ */
+const optionalText = droppable(
+  withRepair(optional(string()), (value) =>
+    typeof value === 'number' ? String(value) : undefined
+  )
+);
+
+/**
+ * 可選字串陣列欄位：逗號分隔的字串 → 陣列，其他無效值 → 移除該欄位
+ */
+const optionalStringList = droppable(
+  withRepair(optional(array(string())), toStringList)
+);
+
+// ==================== API 回應結構 ====================
+
+/**
+ * 資源項目（十個主題共用的基本欄位 + 景點的額外欄位，保留未知欄位）
+ */
+const resourceItemSchema = object(
+  {
+    id: withRepair(integer(), toInteger),
+    title: string(),
+    description: withRepair(string(), toText),
+    category: withRepair(string(), toText),
+    image_url: withRepair(string(), toText),
+    video_url: withRepair(string(), toText),
+    opening_hours: optionalText,
+    address: optionalText,
+    city: optionalText,
+    country: optionalText,
+    tags: optionalStringList,
+    facilities: optionalStringList,
+    published_at: optionalText,
+    created_at: optionalText,
+    updated_at: optionalText,
+  },
+  { passthrough: true }
+);
+
+export const resourceListSchema: Validator<
+  ResourceListResponse<ApiAttraction>
+> = object({
+  items: array(resourceItemSchema, { dropInvalid: true }),
+  pagination: object({
+    page: withRepair(integer(), toInteger),
+    limit: withRepair(integer(), toInteger),
+    total: withRepair(integer(), toInteger),
+  }),
+});
+
+export const resourceBatchSchema: Validator<
+  ResourceBatchResponse<ApiAttraction>
+> = object({
+  items: array(resourceItemSchema, { dropInvalid: true }),
+  missing: array(withRepair(integer(), toInteger), { dropInvalid: true }),
+});
+
+/**
+ * 分面統計：一個欄位各個值的數量
+ */
+const facetCountListSchema = array(
+  object({
+    value: withRepair(string(), toText),
+    count: withRepair(integer(), toInteger),
+  }),
+  { dropInvalid: true }
+);
+
+export const catalogueFacetsSchema: Validator<CatalogueFacetsResponse> = object(
+  {
+    facets: object({
+      city: facetCountListSchema,
+      country: facetCountListSchema,
+      tags: facetCountListSchema,
+      facilities: facetCountListSchema,
+    }),
+    updatedAt: string(),
+  }
+);
+
+export const authResponseSchema: Validator<AuthResponse> = object({
+  user_id: integer(),
+  token: string(),
+});
+
+export const authCheckSchema: Validator<{ user_id: number | null }> = object({
+  user_id: nullable(integer()),
+});
+
+export const bookmarkResponseSchema: Validator<BookmarkResponse> = object({
+  message: literal(
+    'newly bookmarked',
+    'already bookmarked',
+    'newly deleted',
+    'already deleted'
+  ),
+});
+
+export const bookmarkListSchema: Validator<BookmarkListResponse> = object({
+  item_ids: array(withRepair(integer(), toInteger), { dropInvalid: true }),
+});
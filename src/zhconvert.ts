@@ -1,68 +1,261 @@
 /**
- * 繁化姬 API 服務
- * 文檔：https://docs.zhconvert.org/
+ * 繁簡轉換服務
+ * - 本地轉換（預設）：使用 OpenCC 的字詞對照表（opencc-js），離線可用、無需網絡請求
+ * - 繁化姬 API（可選）：轉換質量較高，失敗時退回本地轉換
+ *   經由本服務器的 /api/zhconvert 代理批量轉換（見 server.ts），瀏覽器不直接請求繁化姬
+ *   文檔：https://docs.zhconvert.org/
+ *
+ * 轉換引擎由執行時配置的 zhConvertBackend 決定（見 config.ts）
  */
-import { ZhConvertResponse } from './types';
+import type OpenCC from 'opencc-js';
+import { ZhConvertBatchRequest, ZhConvertBatchResponse } from './types';
+import { getConfig } from './config';
 
-const ZHCONVERT_API = 'https://api.zhconvert.org';
+// 繁化姬代理端點
+export const ZHCONVERT_ENDPOINT = '/api/zhconvert';
+
+// 每個代理請求最多包含的文字數量
+export const ZHCONVERT_MAX_TEXTS = 100;
 
 /**
- * 轉換模式
+ * 轉換模式（與繁化姬的轉換器名稱一致）
  * - Traditional: 繁體化
- * - Taiwan: 台灣化
- * - China: 簡體化
+ * - Taiwan: 台灣化（包括台灣常用詞彙，如「軟件」→「軟體」）
+ * - Hongkong: 香港化
+ * - China: 簡體化（台灣和香港的異體字及詞彙也會轉為簡體）
  */
-export type ConvertMode = 'Traditional' | 'Taiwan' | 'China';
+export type ConvertMode = 'Traditional' | 'Taiwan' | 'Hongkong' | 'China';
+
+export const CONVERT_MODES: ConvertMode[] = [
+  'Traditional',
+  'Taiwan',
+  'Hongkong',
+  'China',
+];
 
 /**
- * 使用繁化姬 API 進行繁簡轉換
- * @param text 要轉換的文字
- * @param converter 轉換模式，預設為 'Taiwan'（台灣化）
- * @returns 轉換後的文字
+ * 轉換引擎
+ * - local: 本地 OpenCC 對照表
+ * - zhconvert: 繁化姬 API
  */
-export async function convertText(
-  text: string,
-  converter: ConvertMode = 'Taiwan'
-): Promise<string> {
-  try {
-    // 如果文字為空，直接返回
-    if (!text || text.trim() === '') {
-      return text;
-    }
+export type ConvertBackend = 'local' | 'zhconvert';
 
-    // 構建請求參數
-    const params = new URLSearchParams({
-      text: text,
-      converter: converter,
-    });
+// ==================== 本地轉換（OpenCC） ====================
+
+type OpenCCModule = typeof OpenCC;
+type Converter = (text: string) => string;
+
+// OpenCC 對照表由服務器從 node_modules/opencc-js 提供（UMD 格式，載入後設置全域變數 OpenCC）
+// 簡體化只需要較小的 t2cn 表（約 110KB）；其他模式需要完整的對照表（約 1.2MB）
+const OPENCC_SCRIPTS = {
+  t2cn: '/vendor/opencc-js/t2cn.js',
+  full: '/vendor/opencc-js/full.js',
+};
+
+type OpenCCBundle = keyof typeof OPENCC_SCRIPTS;
+
+const bundles = new Map<OpenCCBundle, Promise<OpenCCModule>>();
+const converters = new Map<ConvertMode, Promise<Converter>>();
+
+// 兩個對照表使用同一個全域變數名稱，需要逐個載入
+let scriptQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * 載入 OpenCC 對照表腳本（只載入一次）
+ */
+function loadOpenCC(bundle: OpenCCBundle): Promise<OpenCCModule> {
+  let promise = bundles.get(bundle);
+
+  if (!promise) {
+    promise = scriptQueue.then(
+      () =>
+        new Promise<OpenCCModule>((resolve, reject) => {
+          if (typeof document === 'undefined') {
+            reject(new Error('當前環境不支援載入 OpenCC 對照表'));
+            return;
+          }
+
+          const script = document.createElement('script');
+          script.src = OPENCC_SCRIPTS[bundle];
+          script.async = true;
+          script.onload = () => {
+            const module = (window as any).OpenCC as OpenCCModule | undefined;
+            if (module) {
+              console.log(`✅ 已載入 OpenCC 對照表（${bundle}）`);
+              resolve(module);
+            } else {
+              reject(new Error(`OpenCC 對照表格式錯誤（${bundle}）`));
+            }
+          };
+          script.onerror = () =>
+            reject(new Error(`無法載入 OpenCC 對照表（${bundle}）`));
+          document.head.appendChild(script);
+        })
+    );
+
+    // 載入失敗時允許重新嘗試
+    promise.catch(() => bundles.delete(bundle));
+
+    bundles.set(bundle, promise);
+    scriptQueue = promise.catch(() => undefined);
+  }
+
+  return promise;
+}
+
+/**
+ * 建立轉換模式對應的 OpenCC 轉換器
+ */
+async function createConverter(mode: ConvertMode): Promise<Converter> {
+  if (mode === 'China') {
+    // 已載入完整對照表時直接使用，否則只載入 t2cn
+    const module = await (bundles.get('full') || loadOpenCC('t2cn'));
+    // 先轉換台灣詞彙（軟體 → 软件），再轉換香港異體字（裏、衞）
+    const fromTaiwan = module.Converter({ from: 'twp', to: 'cn' });
+    const fromHongkong = module.Converter({ from: 'hk', to: 'cn' });
+    return (text) => fromHongkong(fromTaiwan(text));
+  }
+
+  const module = await loadOpenCC('full');
+  const to = { Traditional: 't', Taiwan: 'twp', Hongkong: 'hk' }[mode];
+  return module.Converter({ from: 'cn', to });
+}
+
+/**
+ * 獲取轉換器（建立對照表的字典樹需要一些時間，建立後重複使用）
+ */
+function getConverter(mode: ConvertMode): Promise<Converter> {
+  let converter = converters.get(mode);
+
+  if (!converter) {
+    converter = createConverter(mode);
+    converter.catch(() => converters.delete(mode));
+    converters.set(mode, converter);
+  }
+
+  return converter;
+}
+
+/**
+ * 預先載入轉換模式的對照表（例如在用戶開始搜索前）
+ */
+export function preloadConverter(mode: ConvertMode): void {
+  getConverter(mode).catch((error) => {
+    console.warn('⚠️ 預先載入繁簡對照表失敗:', error);
+  });
+}
 
-    // 發送 POST 請求到繁化姬 API
-    const response = await fetch(`${ZHCONVERT_API}/convert`, {
+/**
+ * 使用本地 OpenCC 對照表轉換
+ * @returns 轉換後的文字陣列（對照表無法載入時拋出錯誤）
+ */
+async function convertLocal(
+  texts: string[],
+  converter: ConvertMode
+): Promise<string[]> {
+  const convert = await getConverter(converter);
+  return texts.map((text) => (text ? convert(text) : text));
+}
+
+// ==================== 繁化姬 API ====================
+
+/**
+ * 經由服務器代理使用繁化姬 API 轉換
+ * 超過 ZHCONVERT_MAX_TEXTS 的文字分多個請求發送
+ */
+async function convertRemote(
+  texts: string[],
+  converter: ConvertMode
+): Promise<string[]> {
+  const results: string[] = [];
+
+  for (let start = 0; start < texts.length; start += ZHCONVERT_MAX_TEXTS) {
+    const body: ZhConvertBatchRequest = {
+      texts: texts.slice(start, start + ZHCONVERT_MAX_TEXTS),
+      converter,
+    };
+
+    const response = await fetch(ZHCONVERT_ENDPOINT, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
-      },
-      body: params.toString(),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
-      throw new Error(`API 請求失敗: ${response.status}`);
+      throw new Error(`繁化姬代理請求失敗: ${response.status}`);
     }
 
-    const result: ZhConvertResponse = await response.json();
+    const result: ZhConvertBatchResponse = await response.json();
+    if (
+      !Array.isArray(result.texts) ||
+      result.texts.length !== body.texts.length
+    ) {
+      throw new Error('繁化姬代理回應格式錯誤');
+    }
+
+    results.push(...result.texts);
+  }
+
+  return results;
+}
+
+// ==================== 公開接口 ====================
+
+/**
+ * 繁簡轉換
+ * @param text 要轉換的文字
+ * @param converter 轉換模式，預設為 'Taiwan'（台灣化）
+ * @returns 轉換後的文字（所有轉換方式都失敗時返回原文）
+ */
+export async function convertText(
+  text: string,
+  converter: ConvertMode = 'Taiwan'
+): Promise<string> {
+  const [result] = await convertTextBatch([text], converter);
+  return result;
+}
+
+/**
+ * 批量轉換文字陣列
+ * @param texts 要轉換的文字陣列
+ * @param converter 轉換模式
+ * @returns 轉換後的文字陣列（與輸入順序一致），所有轉換方式都失敗時返回 null
+ */
+export async function tryConvertTextBatch(
+  texts: string[],
+  converter: ConvertMode = 'Taiwan'
+): Promise<string[] | null> {
+  // 空白文字不需要轉換
+  if (texts.every((text) => !text || text.trim() === '')) {
+    return texts;
+  }
+
+  if (getConfig().zhConvertBackend === 'zhconvert') {
+    try {
+      // 只發送需要轉換的文字，再按原順序放回
+      const indexes = texts
+        .map((text, index) => (text && text.trim() !== '' ? index : -1))
+        .filter((index) => index !== -1);
+      const converted = await convertRemote(
+        indexes.map((index) => texts[index]),
+        converter
+      );
 
-    // 檢查 API 回應的錯誤碼
-    if (result.code !== 0) {
-      console.warn('繁化姬 API 回應錯誤:', result.msg);
-      return text; // 返回原文
+      const results = [...texts];
+      indexes.forEach((index, i) => {
+        results[index] = converted[i];
+      });
+      return results;
+    } catch (error) {
+      console.warn('⚠️ 繁化姬轉換失敗，改用本地轉換:', error);
     }
+  }
 
-    // 返回轉換後的文字
-    return result.data.text;
+  try {
+    return await convertLocal(texts, converter);
   } catch (error) {
-    console.error('繁化姬轉換失敗:', error);
-    // 如果 API 失敗，返回原文
-    return text;
+    console.error('繁簡轉換失敗:', error);
+    return null;
   }
 }
 
@@ -70,13 +263,11 @@ export async function convertText(
  * 批量轉換文字陣列
  * @param texts 要轉換的文字陣列
  * @param converter 轉換模式
- * @returns 轉換後的文字陣列
+ * @returns 轉換後的文字陣列（與輸入順序一致，轉換失敗時返回原文）
  */
 export async function convertTextBatch(
   texts: string[],
   converter: ConvertMode = 'Taiwan'
 ): Promise<string[]> {
-  // 使用 Promise.all 並行處理所有轉換
-  return Promise.all(texts.map((text) => convertText(text, converter)));
+  return (await tryConvertTextBatch(texts, converter)) ?? texts;
 }
-